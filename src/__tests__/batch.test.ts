@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSignCoalescer } from '../batch.js';
+import { SignedUrlResult } from '../types.js';
+
+const signedAll = async (bucket: string, paths: string[]) =>
+  new Map<string, SignedUrlResult>(paths.map((path) => [path, { url: `https://${bucket}/${path}?token`, error: null }]));
+
+describe('createSignCoalescer', () => {
+  it('should send calls within the window as one batch per bucket', async () => {
+    const signPaths = vi.fn(signedAll);
+    const coalescer = createSignCoalescer(5, signPaths);
+
+    const results = await Promise.all([
+      coalescer.sign('media', 'a.jpg'),
+      coalescer.sign('media', 'b.jpg'),
+      coalescer.sign('media', 'a.jpg'),
+      coalescer.sign('docs', 'c.pdf'),
+    ]);
+
+    expect(signPaths).toHaveBeenCalledTimes(2);
+    expect(signPaths).toHaveBeenCalledWith('media', ['a.jpg', 'b.jpg']);
+    expect(signPaths).toHaveBeenCalledWith('docs', ['c.pdf']);
+    expect(results.map((r) => r.url)).toEqual([
+      'https://media/a.jpg?token',
+      'https://media/b.jpg?token',
+      'https://media/a.jpg?token',
+      'https://docs/c.pdf?token',
+    ]);
+  });
+
+  it('should start a new batch after flushing', async () => {
+    const signPaths = vi.fn(signedAll);
+    const coalescer = createSignCoalescer(0, signPaths);
+
+    await coalescer.sign('media', 'a.jpg');
+    await coalescer.sign('media', 'b.jpg');
+
+    expect(signPaths).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return an error for paths missing from the response', async () => {
+    const coalescer = createSignCoalescer(0, async () => new Map());
+
+    const result = await coalescer.sign('media', 'a.jpg');
+
+    expect(result.error?.message).toBe('No signed URL returned for a.jpg');
+  });
+
+  it('should reject every caller when the batch throws', async () => {
+    const coalescer = createSignCoalescer(0, async () => {
+      throw new Error('socket hang up');
+    });
+
+    const results = await Promise.allSettled([coalescer.sign('media', 'a.jpg'), coalescer.sign('media', 'b.jpg')]);
+
+    expect(results.every((r) => r.status === 'rejected')).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLruStore, createSignedUrlCache, getSignedUrlCacheKey } from '../cache.js';
+
+describe('createLruStore', () => {
+  it('should evict the least recently used entry', () => {
+    const store = createLruStore(2);
+    store.set('a', { url: 'A', expiresAt: 1 });
+    store.set('b', { url: 'B', expiresAt: 1 });
+    store.get('a');
+    store.set('c', { url: 'C', expiresAt: 1 });
+
+    expect(store.get('a')?.url).toBe('A');
+    expect(store.get('b')).toBeUndefined();
+    expect(store.size()).toBe(2);
+  });
+});
+
+describe('getSignedUrlCacheKey', () => {
+  it('should include expiry and transform options in a stable order', () => {
+    expect(getSignedUrlCacheKey('media', 'a.jpg', 3600)).toBe('media/a.jpg|3600|');
+    expect(getSignedUrlCacheKey('media', 'a.jpg', 3600, { width: 100, quality: 80 })).toBe(
+      getSignedUrlCacheKey('media', 'a.jpg', 3600, { quality: 80, width: 100 })
+    );
+    expect(getSignedUrlCacheKey('media', 'a.jpg', 3600, { width: 100 })).not.toBe(
+      getSignedUrlCacheKey('media', 'a.jpg', 3600, { width: 200 })
+    );
+  });
+
+  it('should include the download name when set', () => {
+    expect(getSignedUrlCacheKey('media', 'a.jpg', 60, undefined, 'My file.jpg')).toBe('media/a.jpg|60||My%20file.jpg');
+    expect(getSignedUrlCacheKey('media', 'a.jpg', 60, undefined, 'a')).not.toBe(getSignedUrlCacheKey('media', 'a.jpg', 60));
+  });
+});
+
+describe('createSignedUrlCache', () => {
+  it('should count misses and hits', async () => {
+    const cache = createSignedUrlCache({ store: createLruStore(), safetyMargin: 60, now: () => 0 });
+
+    expect(await cache.get('key')).toBeUndefined();
+    await cache.set('key', 'https://signed', 3600);
+    expect(await cache.get('key')).toBe('https://signed');
+    expect(cache.stats).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('should stop serving an entry within the safety margin', async () => {
+    let now = 0;
+    const cache = createSignedUrlCache({ store: createLruStore(), safetyMargin: 60, now: () => now });
+    await cache.set('key', 'https://signed', 3600);
+
+    now = (3600 - 61) * 1000;
+    expect(await cache.get('key')).toBe('https://signed');
+    now = (3600 - 60) * 1000;
+    expect(await cache.get('key')).toBeUndefined();
+  });
+
+  it('should not cache URLs shorter-lived than the margin', async () => {
+    const store = createLruStore();
+    const cache = createSignedUrlCache({ store, safetyMargin: 60 });
+    await cache.set('key', 'https://signed', 30);
+    expect(store.size()).toBe(0);
+  });
+
+  it('should pass the TTL to custom stores', async () => {
+    const store = { get: vi.fn(), set: vi.fn() };
+    const cache = createSignedUrlCache({ store, safetyMargin: 60, now: () => 1000 });
+
+    await cache.set('key', 'https://signed', 600);
+
+    expect(store.set).toHaveBeenCalledWith('key', { url: 'https://signed', expiresAt: 601000 }, 600);
+  });
+
+  it('should treat store failures as misses', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = {
+      get: vi.fn().mockRejectedValue(new Error('redis down')),
+      set: vi.fn().mockRejectedValue(new Error('redis down')),
+    };
+    const cache = createSignedUrlCache({ store, safetyMargin: 60 });
+
+    await expect(cache.set('key', 'https://signed', 3600)).resolves.toBeUndefined();
+    expect(await cache.get('key')).toBeUndefined();
+    expect(cache.stats.misses).toBe(1);
+    warn.mockRestore();
+  });
+});
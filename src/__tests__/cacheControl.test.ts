@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { createCacheControlResolver } from '../cacheControl.js';
+import { StrapiFile } from '../types.js';
+
+const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+  name: 'photo.jpg',
+  hash: 'photo_abc123',
+  ext: '.jpg',
+  mime: 'image/jpeg',
+  size: 100,
+  url: '',
+  ...overrides,
+});
+
+describe('createCacheControlResolver', () => {
+  it('should default to one hour', () => {
+    expect(createCacheControlResolver()(createMockFile())).toEqual({ maxAge: '3600' });
+  });
+
+  it('should accept seconds or a full header value', () => {
+    expect(createCacheControlResolver(60)(createMockFile())).toEqual({ maxAge: '60' });
+    expect(createCacheControlResolver('public, max-age=31536000, immutable')(createMockFile())).toEqual({
+      maxAge: '31536000',
+      header: 'public, max-age=31536000, immutable',
+    });
+    expect(createCacheControlResolver('no-store')(createMockFile())).toEqual({ maxAge: '0', header: 'no-store' });
+  });
+
+  it('should apply the first matching rule', () => {
+    const resolve = createCacheControlResolver([
+      { mime: 'image/*', value: 31536000 },
+      { ext: ['.html', 'json'], value: 'no-cache' },
+      { value: 600 },
+    ]);
+
+    expect(resolve(createMockFile())).toEqual({ maxAge: '31536000' });
+    expect(resolve(createMockFile({ mime: 'application/json', ext: '.JSON' }))).toEqual({ maxAge: '0', header: 'no-cache' });
+    expect(resolve(createMockFile({ mime: 'application/pdf', ext: '.pdf' }))).toEqual({ maxAge: '600' });
+  });
+
+  it('should fall back to the default when no rule matches', () => {
+    const resolve = createCacheControlResolver([{ mime: 'video/*', value: 86400 }]);
+    expect(resolve(createMockFile())).toEqual({ maxAge: '3600' });
+  });
+
+  it('should call the function and default when it returns undefined', () => {
+    const resolve = createCacheControlResolver((file) => (file.hash.startsWith('build_') ? 31536000 : undefined));
+
+    expect(resolve(createMockFile({ hash: 'build_1' }))).toEqual({ maxAge: '31536000' });
+    expect(resolve(createMockFile())).toEqual({ maxAge: '3600' });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { createCdnUrls } from '../cdn.js';
+import { ConfigError } from '../errors.js';
+
+const endpoint = 'https://test.supabase.co/storage/v1';
+const publicUrl = `${endpoint}/object/public/media/uploads/my%20photo.jpg`;
+const signedUrl = `${endpoint}/object/sign/private/doc.pdf?token=abc`;
+const object = { bucket: 'media', key: 'uploads/my photo.jpg', signed: false, rendered: false };
+
+describe('createCdnUrls', () => {
+  describe('with a base URL', () => {
+    const cdn = createCdnUrls({ url: 'https://cdn.example.com/' }, endpoint, 'media');
+
+    it('should replace the storage endpoint', () => {
+      expect(cdn.rewrite(publicUrl, object)).toBe('https://cdn.example.com/object/public/media/uploads/my%20photo.jpg');
+      expect(cdn.rewrite(`${endpoint}/render/image/public/media/a.jpg?width=100`, { ...object, rendered: true })).toBe(
+        'https://cdn.example.com/render/image/public/media/a.jpg?width=100'
+      );
+    });
+
+    it('should map CDN URLs back to their object', () => {
+      expect(cdn.parse('https://cdn.example.com/object/public/media/uploads/my%20photo.jpg')).toEqual({
+        bucket: 'media',
+        key: 'uploads/my photo.jpg',
+      });
+      expect(cdn.parse('https://other.example.com/object/public/media/a.jpg')).toBeUndefined();
+    });
+  });
+
+  describe('with a template', () => {
+    const cdn = createCdnUrls({ url: 'https://{bucket}.cdn.example.com/assets/{key}' }, endpoint, 'media');
+
+    it('should fill in bucket and key and keep the query string', () => {
+      expect(cdn.rewrite(publicUrl, object)).toBe('https://media.cdn.example.com/assets/uploads/my%20photo.jpg');
+      expect(cdn.rewrite(signedUrl, { bucket: 'private', key: 'doc.pdf', signed: true, rendered: false })).toBe(
+        'https://private.cdn.example.com/assets/doc.pdf?token=abc'
+      );
+    });
+
+    it('should leave rendered formats on Supabase', () => {
+      const rendered = `${endpoint}/render/image/public/media/a.jpg?width=100`;
+      expect(cdn.rewrite(rendered, { ...object, rendered: true })).toBe(rendered);
+    });
+
+    it('should map CDN URLs back to their object', () => {
+      expect(cdn.parse('https://media.cdn.example.com/assets/uploads/my%20photo.jpg?v=2')).toEqual({
+        bucket: 'media',
+        key: 'uploads/my photo.jpg',
+      });
+      expect(cdn.parse('https://media.cdn.example.com/other/a.jpg')).toBeUndefined();
+    });
+
+    it('should use the default bucket for templates without {bucket}', () => {
+      const single = createCdnUrls({ url: 'https://media.example.com/{key}' }, endpoint, 'media');
+      expect(single.parse('https://media.example.com/a/b.jpg')).toEqual({ bucket: 'media', key: 'a/b.jpg' });
+    });
+
+    it('should require {key}', () => {
+      expect(() => createCdnUrls({ url: 'https://{bucket}.example.com/' }, endpoint, 'media')).toThrow(ConfigError);
+    });
+  });
+
+  describe('with a function', () => {
+    it('should pass the URL and its object', () => {
+      const cdn = createCdnUrls({ url: ({ key, signed }) => `https://cdn.example.com/${key}${signed ? '?s' : ''}` }, endpoint, 'media');
+      expect(cdn.rewrite(publicUrl, object)).toBe('https://cdn.example.com/uploads/my photo.jpg');
+    });
+
+    it('should parse through the configured reverse mapping', () => {
+      const cdn = createCdnUrls(
+        { url: ({ key }) => `https://cdn.example.com/${key}`, parse: (url) => ({ bucket: 'media', key: url.slice(24) }) },
+        endpoint,
+        'media'
+      );
+      expect(cdn.parse('https://cdn.example.com/a.jpg')).toEqual({ bucket: 'media', key: 'a.jpg' });
+      expect(createCdnUrls({ url: () => '' }, endpoint, 'media').parse('https://cdn.example.com/a.jpg')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { hashBuffer, hashStream, findChecksumMismatch } from '../checksum.js';
+
+const content = Buffer.from('hello checksum');
+const sha256 = createHash('sha256').update(content).digest('hex');
+const md5 = createHash('md5').update(content).digest('hex');
+
+const readAll = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const piece of stream) {
+    chunks.push(piece);
+  }
+  return Buffer.concat(chunks);
+};
+
+describe('hashBuffer', () => {
+  it('should compute SHA-256, MD5 and the byte count', () => {
+    expect(hashBuffer(content)).toEqual({ sha256, md5, bytes: content.length });
+  });
+});
+
+describe('hashStream', () => {
+  it('should pass bytes through and hash them', async () => {
+    const hasher = hashStream(Readable.from([content.subarray(0, 5), content.subarray(5)]));
+
+    expect(hasher.digests()).toBeUndefined();
+    expect((await readAll(hasher.stream)).equals(content)).toBe(true);
+    expect(hasher.digests()).toEqual({ sha256, md5, bytes: content.length });
+  });
+
+  it('should not produce digests for a stream that was not read to the end', async () => {
+    const source = Readable.from([content, content]);
+    const hasher = hashStream(source);
+
+    hasher.stream.once('data', () => hasher.stream.destroy());
+    await new Promise((resolve) => hasher.stream.once('close', resolve));
+
+    expect(hasher.digests()).toBeUndefined();
+    expect(source.destroyed).toBe(true);
+  });
+
+  it('should forward source errors', async () => {
+    const source = new Readable({ read() {} });
+    const hasher = hashStream(source);
+    source.destroy(new Error('disk gone'));
+
+    await expect(readAll(hasher.stream)).rejects.toThrow('disk gone');
+  });
+});
+
+describe('findChecksumMismatch', () => {
+  const digests = { sha256, md5, bytes: content.length };
+
+  it('should accept matching size, ETag and metadata', () => {
+    expect(findChecksumMismatch({ size: content.length, etag: `"${md5}"`, metadata: { sha256 } }, digests)).toBeUndefined();
+  });
+
+  it('should report a size mismatch', () => {
+    expect(findChecksumMismatch({ size: 3 }, digests)).toBe(`stored size 3 bytes, sent ${content.length} bytes`);
+  });
+
+  it('should report an MD5 mismatch for single-part ETags', () => {
+    expect(findChecksumMismatch({ etag: `"${'0'.repeat(32)}"` }, digests)).toMatch(/^stored MD5 0{32}/);
+  });
+
+  it('should ignore multipart ETags', () => {
+    expect(findChecksumMismatch({ etag: `"${'0'.repeat(32)}-3"` }, digests)).toBeUndefined();
+  });
+
+  it('should report a SHA-256 metadata mismatch', () => {
+    expect(findChecksumMismatch({ metadata: { sha256: 'abc' } }, digests)).toBe(`stored SHA-256 abc, sent ${sha256}`);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Readable } from 'stream';
+import { clamAvScan, createClamAvScanner, parseClamAvReply } from '../clamav.js';
+import { startClamdStandIn, ClamdStandIn, EICAR } from './helpers/clamdServer.js';
+
+describe('parseClamAvReply', () => {
+  it('should parse clean and infected replies', () => {
+    expect(parseClamAvReply('stream: OK\0')).toEqual({ clean: true });
+    expect(parseClamAvReply('stream: Win.Test.EICAR_HDB-1 FOUND\0')).toEqual({ clean: false, threat: 'Win.Test.EICAR_HDB-1' });
+  });
+
+  it('should throw on errors', () => {
+    expect(() => parseClamAvReply('INSTREAM size limit exceeded. ERROR\0')).toThrow(
+      'clamd error: INSTREAM size limit exceeded. ERROR'
+    );
+  });
+});
+
+describe('clamAvScan', () => {
+  let clamd: ClamdStandIn;
+
+  beforeAll(async () => {
+    clamd = await startClamdStandIn();
+  });
+
+  afterAll(async () => {
+    await clamd.close();
+  });
+
+  beforeEach(() => {
+    clamd.scans.length = 0;
+    clamd.setStreamMaxLength(Infinity);
+    clamd.setSilent(false);
+  });
+
+  it('should stream content in chunks and report clean files', async () => {
+    const content = Buffer.alloc(10000, 'a');
+
+    const result = await clamAvScan(Readable.from([content]), { port: clamd.port, chunkSize: 4096 });
+
+    expect(result).toEqual({ clean: true });
+    expect(clamd.scans[0].equals(content)).toBe(true);
+  });
+
+  it('should report threats', async () => {
+    const scanner = createClamAvScanner({ port: clamd.port });
+    const file = { name: 'eicar.txt', hash: 'eicar', ext: '.txt', mime: 'text/plain', size: 0.07, url: '' };
+
+    await expect(scanner(file, Readable.from([Buffer.from(EICAR)]))).resolves.toEqual({
+      clean: false,
+      threat: 'Eicar-Test-Signature',
+    });
+  });
+
+  it('should reject on clamd errors, even when clamd answers early', async () => {
+    clamd.setStreamMaxLength(100);
+    const content = Readable.from(Array.from({ length: 50 }, () => Buffer.alloc(1000)));
+
+    await expect(clamAvScan(content, { port: clamd.port, chunkSize: 1000 })).rejects.toThrow('size limit exceeded');
+  });
+
+  it('should reject when clamd closes without a reply', async () => {
+    clamd.setSilent(true);
+    await expect(clamAvScan(Readable.from([Buffer.from('abc')]), { port: clamd.port })).rejects.toThrow();
+  });
+
+  it('should reject when clamd is unreachable', async () => {
+    await expect(clamAvScan(Readable.from([Buffer.from('abc')]), { port: 1 })).rejects.toThrow(/ECONNREFUSED/);
+  });
+
+  it('should reject when the content stream fails', async () => {
+    const content = new Readable({
+      read() {
+        this.destroy(new Error('disk read failed'));
+      },
+    });
+    await expect(clamAvScan(content, { port: clamd.port })).rejects.toThrow('disk read failed');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRefCounter, getContentKey } from '../dedup.js';
+import { createLogger } from '../logger.js';
+import { resolveRetryPolicy } from '../retry.js';
+
+const noRetry = resolveRetryPolicy(false);
+const logger = createLogger({ error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() });
+
+describe('getContentKey', () => {
+  it('should name content by its hash inside the directory', () => {
+    expect(getContentKey('/uploads/', 'abc', '.JPG')).toBe('uploads/abc.jpg');
+    expect(getContentKey('', 'abc', '.pdf')).toBe('abc.pdf');
+    expect(getContentKey('', 'abc')).toBe('abc');
+  });
+});
+
+describe('createRefCounter', () => {
+  const createBucket = (remaining: unknown[] = []) => ({
+    upload: vi.fn().mockResolvedValue({ data: {}, error: null }),
+    remove: vi.fn().mockResolvedValue({ data: [], error: null }),
+    list: vi.fn().mockResolvedValue({ data: remaining, error: null }),
+  });
+
+  it('should write an empty marker per reference', async () => {
+    const bucket = createBucket();
+    const refs = createRefCounter({ from: () => bucket } as any, '.refs', noRetry, logger);
+
+    await refs.add('media', 'uploads/abc.jpg', 'photo_1');
+
+    expect(bucket.upload).toHaveBeenCalledWith('.refs/uploads/abc.jpg/photo_1', Buffer.alloc(0), {
+      contentType: 'application/octet-stream',
+      upsert: true,
+    });
+  });
+
+  it('should report remaining references after releasing one', async () => {
+    const bucket = createBucket([{ name: 'photo_2' }]);
+    const refs = createRefCounter({ from: () => bucket } as any, '.refs', noRetry, logger);
+
+    await expect(refs.release('media', 'uploads/abc.jpg', 'photo_1')).resolves.toBe(true);
+
+    expect(bucket.remove).toHaveBeenCalledWith(['.refs/uploads/abc.jpg/photo_1']);
+    expect(bucket.list).toHaveBeenCalledWith('.refs/uploads/abc.jpg', { limit: 1 });
+  });
+
+  it('should report the last reference', async () => {
+    const refs = createRefCounter({ from: () => createBucket() } as any, '.refs', noRetry, logger);
+
+    await expect(refs.release('media', 'abc.jpg', 'photo_1')).resolves.toBe(false);
+  });
+
+  it('should fail when references cannot be counted', async () => {
+    const bucket = createBucket();
+    bucket.list.mockResolvedValue({ data: null, error: { message: 'Internal error', statusCode: '500' } });
+    const refs = createRefCounter({ from: () => bucket } as any, '.refs', noRetry, logger);
+
+    await expect(refs.release('media', 'abc.jpg', 'photo_1')).rejects.toThrow('Failed to count file references: Internal error');
+  });
+});
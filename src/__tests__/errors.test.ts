@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toProviderError,
+  SupabaseProviderError,
+  NotFoundError,
+  UnauthorizedError,
+  QuotaExceededError,
+  PayloadTooLargeError,
+  NetworkError,
+  ConflictError,
+  ConfigError,
+} from '../errors.js';
+
+// Shapes produced by storage-js
+const apiError = (message: string, status: number, statusCode = String(status), error?: string) => ({
+  name: 'StorageApiError',
+  message,
+  status,
+  statusCode,
+  error,
+});
+
+describe('toProviderError', () => {
+  it('should map 404 to NotFoundError for objects', () => {
+    const error = toProviderError(apiError('Object not found', 404), 'Failed to delete file from Supabase');
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect((error as NotFoundError).resource).toBe('object');
+    expect(error.message).toBe('Failed to delete file from Supabase: Object not found');
+    expect(error.code).toBe('NOT_FOUND');
+    expect(error.status).toBe(404);
+  });
+
+  it('should read the real status from the body when storage answers 400', () => {
+    const error = toProviderError(apiError('Object not found', 400, '404', 'not_found'));
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.status).toBe(404);
+  });
+
+  it('should flag missing buckets', () => {
+    const error = toProviderError(apiError('Bucket not found', 404));
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect((error as NotFoundError).resource).toBe('bucket');
+  });
+
+  it('should map 401 and 403 to UnauthorizedError', () => {
+    expect(toProviderError(apiError('Invalid JWT', 401))).toBeInstanceOf(UnauthorizedError);
+    expect(toProviderError(apiError('new row violates row-level security policy', 403))).toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('should map quota and rate limits to QuotaExceededError', () => {
+    expect(toProviderError({ message: 'Storage quota exceeded' })).toBeInstanceOf(QuotaExceededError);
+    expect(toProviderError(apiError('Too many requests', 429))).toBeInstanceOf(QuotaExceededError);
+  });
+
+  it('should map 413 to PayloadTooLargeError', () => {
+    expect(toProviderError(apiError('The object exceeded the maximum allowed size', 413))).toBeInstanceOf(PayloadTooLargeError);
+    expect(toProviderError(apiError('Payload too large', 400, '413'))).toBeInstanceOf(PayloadTooLargeError);
+  });
+
+  it('should map 409 to ConflictError', () => {
+    const error = toProviderError(apiError('The resource already exists', 400, '409', 'Duplicate'));
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.code).toBe('CONFLICT');
+    expect(error.status).toBe(409);
+  });
+
+  it('should map connection failures to NetworkError', () => {
+    expect(toProviderError({ name: 'StorageUnknownError', message: 'fetch failed' })).toBeInstanceOf(NetworkError);
+    expect(toProviderError(new TypeError('fetch failed', { cause: { code: 'ECONNRESET' } }))).toBeInstanceOf(NetworkError);
+  });
+
+  it('should fall back to the base class and keep the cause', () => {
+    const original = apiError('Internal error', 500);
+    const error = toProviderError(original);
+    expect(error.constructor).toBe(SupabaseProviderError);
+    expect(error.cause).toBe(original);
+    expect(error.status).toBe(500);
+  });
+
+  it('should return provider errors unchanged', () => {
+    const error = new ConfigError('bad config');
+    expect(toProviderError(error, 'prefix')).toBe(error);
+  });
+
+  it('should set name and code on each class', () => {
+    const error = new ConfigError('bad config');
+    expect(error.name).toBe('ConfigError');
+    expect(error.code).toBe('CONFIG_ERROR');
+    expect(error).toBeInstanceOf(SupabaseProviderError);
+    expect(error).toBeInstanceOf(Error);
+  });
+});
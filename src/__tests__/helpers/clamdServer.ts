@@ -0,0 +1,90 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+
+export const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+export interface ClamdStandIn {
+  port: number;
+  /** Bytes received per INSTREAM session */
+  scans: Buffer[];
+  /** Answers "INSTREAM size limit exceeded" once more than `bytes` arrive */
+  setStreamMaxLength(bytes: number): void;
+  /** Closes connections without replying */
+  setSilent(silent: boolean): void;
+  close(): Promise<void>;
+}
+
+/** Minimal clamd speaking zINSTREAM: reports the EICAR test string as infected */
+export async function startClamdStandIn(): Promise<ClamdStandIn> {
+  const scans: Buffer[] = [];
+  let streamMaxLength = Infinity;
+  let silent = false;
+
+  const server = net.createServer((socket) => {
+    let pending = Buffer.alloc(0);
+    let commandRead = false;
+    const received: Buffer[] = [];
+    let receivedLength = 0;
+
+    const reply = (text: string) => {
+      socket.end(`${text}\0`);
+    };
+
+    socket.on('data', (data) => {
+      if (silent) {
+        socket.destroy();
+        return;
+      }
+      pending = Buffer.concat([pending, data]);
+
+      if (!commandRead) {
+        const end = pending.indexOf(0);
+        if (end === -1) {
+          return;
+        }
+        const command = pending.subarray(0, end).toString();
+        pending = pending.subarray(end + 1);
+        commandRead = true;
+        if (command !== 'zINSTREAM') {
+          reply('UNKNOWN COMMAND');
+          return;
+        }
+      }
+
+      while (pending.length >= 4) {
+        const length = pending.readUInt32BE(0);
+        if (length === 0) {
+          const content = Buffer.concat(received);
+          scans.push(content);
+          reply(content.includes(EICAR) ? 'stream: Eicar-Test-Signature FOUND' : 'stream: OK');
+          return;
+        }
+        if (pending.length < 4 + length) {
+          return;
+        }
+        received.push(pending.subarray(4, 4 + length));
+        receivedLength += length;
+        pending = pending.subarray(4 + length);
+        if (receivedLength > streamMaxLength) {
+          reply('INSTREAM size limit exceeded. ERROR');
+          return;
+        }
+      }
+    });
+    socket.on('error', () => {});
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    scans,
+    setStreamMaxLength(bytes: number) {
+      streamMaxLength = bytes;
+    },
+    setSilent(value: boolean) {
+      silent = value;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,110 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface TusStandInUpload {
+  length?: number;
+  metadata: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  data: Buffer;
+}
+
+export interface TusStandIn {
+  url: string;
+  uploads: Map<string, TusStandInUpload>;
+  requests: { method: string; offset?: number; bytes: number }[];
+  /** The next PATCH stores only `keepBytes` bytes and then answers 500 */
+  failNextPatch(keepBytes: number): void;
+  close(): Promise<void>;
+}
+
+const decodeMetadata = (header = ''): Record<string, string> =>
+  Object.fromEntries(
+    header
+      .split(',')
+      .filter(Boolean)
+      .map((pair) => {
+        const [key, value = ''] = pair.split(' ');
+        return [key, Buffer.from(value, 'base64').toString('utf8')];
+      })
+  );
+
+/** Minimal TUS 1.0.0 server mimicking Supabase's /storage/v1/upload/resumable */
+export async function startTusStandIn(): Promise<TusStandIn> {
+  const uploads = new Map<string, TusStandInUpload>();
+  const requests: TusStandIn['requests'] = [];
+  let pendingFailure: number | null = null;
+  let nextId = 1;
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const body = Buffer.concat(chunks);
+    const id = req.url!.split('/').pop()!;
+    requests.push({ method: req.method!, offset: req.headers['upload-offset'] ? Number(req.headers['upload-offset']) : undefined, bytes: body.length });
+
+    if (!req.url!.startsWith('/storage/v1/upload/resumable')) {
+      res.writeHead(404);
+      return res.end('not found');
+    }
+
+    if (req.method === 'POST') {
+      const uploadId = String(nextId++);
+      uploads.set(uploadId, {
+        length: req.headers['upload-length'] ? Number(req.headers['upload-length']) : undefined,
+        metadata: decodeMetadata(req.headers['upload-metadata'] as string),
+        headers: req.headers,
+        data: Buffer.alloc(0),
+      });
+      res.writeHead(201, { Location: `/storage/v1/upload/resumable/${uploadId}`, 'Tus-Resumable': '1.0.0' });
+      return res.end();
+    }
+
+    const upload = uploads.get(id);
+    if (!upload) {
+      res.writeHead(404);
+      return res.end();
+    }
+
+    if (req.method === 'HEAD') {
+      res.writeHead(200, { 'Upload-Offset': String(upload.data.length), 'Tus-Resumable': '1.0.0' });
+      return res.end();
+    }
+
+    if (req.method === 'PATCH') {
+      if (Number(req.headers['upload-offset']) !== upload.data.length) {
+        res.writeHead(409);
+        return res.end('offset mismatch');
+      }
+      if (req.headers['upload-length']) {
+        upload.length = Number(req.headers['upload-length']);
+      }
+      if (pendingFailure !== null) {
+        upload.data = Buffer.concat([upload.data, body.subarray(0, pendingFailure)]);
+        pendingFailure = null;
+        res.writeHead(500);
+        return res.end('connection dropped');
+      }
+      upload.data = Buffer.concat([upload.data, body]);
+      res.writeHead(204, { 'Upload-Offset': String(upload.data.length), 'Tus-Resumable': '1.0.0' });
+      return res.end();
+    }
+
+    res.writeHead(405);
+    res.end();
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    uploads,
+    requests,
+    failNextPatch(keepBytes: number) {
+      pendingFailure = keepBytes;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -1,7 +1,14 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import initProvider from '../index.js';
 import { StrapiFile } from '../types.js';
+import { getPathKey } from '../utils.js';
 import { Readable } from 'stream';
+import { createHash } from 'crypto';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { startClamdStandIn, EICAR } from './helpers/clamdServer.js';
 
 // Mock the @supabase/storage-js module
 vi.mock('@supabase/storage-js', () => {
@@ -33,6 +40,7 @@ describe('Provider Initialization', () => {
     expect(provider.checkFileSize).toBeDefined();
     expect(provider.isPrivate).toBeDefined();
     expect(provider.getSignedUrl).toBeDefined();
+    expect(provider.getSignedUrls).toBeDefined();
   });
 
   it('should apply default values for optional fields', () => {
@@ -84,6 +92,7 @@ describe('Provider Methods', () => {
       getPublicUrl: vi.fn(),
       remove: vi.fn(),
       createSignedUrl: vi.fn(),
+      createSignedUrls: vi.fn(),
     };
 
     // Setup mock storage client
@@ -202,6 +211,496 @@ describe('Provider Methods', () => {
     });
   });
 
+  describe('key strategy', () => {
+    it('should upload with the configured strategy', async () => {
+      const config = createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        directory: 'uploads',
+        publicFiles: false,
+        keyStrategy: 'mime-folder',
+      });
+
+      mockBucket.upload.mockResolvedValue({ data: { path: 'uploads/images/abc123.jpg' }, error: null });
+
+      const provider = initProvider.init(config);
+      const file = createMockFile();
+      await provider.upload(file);
+
+      expect(mockBucket.upload).toHaveBeenCalledWith('uploads/images/abc123.jpg', file.buffer, expect.any(Object));
+      expect(file.url).toBe('uploads/images/abc123.jpg');
+    });
+
+    it('should upload with a custom strategy function', async () => {
+      const config = createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        publicFiles: false,
+        keyStrategy: (file: StrapiFile) => `by-ext/${file.ext.slice(1)}/${file.hash}${file.ext}`,
+      });
+
+      mockBucket.upload.mockResolvedValue({ data: { path: 'by-ext/jpg/abc123.jpg' }, error: null });
+
+      const provider = initProvider.init(config);
+      const file = createMockFile();
+      await provider.upload(file);
+
+      expect(file.url).toBe('by-ext/jpg/abc123.jpg');
+    });
+  });
+
+  describe('provider metadata', () => {
+    const baseConfig = {
+      apiUrl: 'https://test.supabase.co',
+      apiKey: 'test-key',
+      bucket: 'media',
+      directory: 'uploads',
+    };
+
+    beforeEach(() => {
+      mockBucket.upload.mockResolvedValue({ data: { path: 'uploads/abc123.jpg' }, error: null });
+      mockBucket.remove.mockResolvedValue({ data: [], error: null });
+      mockBucket.getPublicUrl.mockReturnValue({
+        data: { publicUrl: 'https://test.supabase.co/storage/v1/object/public/media/uploads/abc123.jpg' },
+      });
+      mockBucket.createSignedUrl.mockResolvedValue({ data: { signedUrl: 'https://signed?token=xyz' }, error: null });
+    });
+
+    it('should record bucket and key on upload', async () => {
+      const provider = initProvider.init(createMockConfig(baseConfig));
+      const file = createMockFile({ provider_metadata: { existing: true } });
+
+      await provider.upload(file);
+
+      expect(file.provider_metadata).toEqual({ existing: true, bucket: 'media', key: 'uploads/abc123.jpg' });
+    });
+
+    it('should delete the recorded key after directory and bucket changed', async () => {
+      const file = createMockFile();
+      await initProvider.init(createMockConfig(baseConfig)).upload(file);
+
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, bucket: 'assets', directory: 'files' }));
+      await provider.delete(file);
+
+      expect(mockStorageClient.from).toHaveBeenLastCalledWith('media');
+      expect(mockBucket.remove).toHaveBeenCalledWith(['uploads/abc123.jpg']);
+    });
+
+    it('should sign the recorded key after switching to private files', async () => {
+      const file = createMockFile();
+      await initProvider.init(createMockConfig(baseConfig)).upload(file);
+      expect(file.url).toMatch(/^https:/);
+
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, directory: 'other', publicFiles: false }));
+      const result = await provider.getSignedUrl(file);
+
+      expect(mockStorageClient.from).toHaveBeenLastCalledWith('media');
+      expect(mockBucket.createSignedUrl).toHaveBeenCalledWith('uploads/abc123.jpg', 3600);
+      expect(result.url).toBe('https://signed?token=xyz');
+    });
+
+    it('should sign legacy public URLs without metadata', async () => {
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, publicFiles: false }));
+      const file = createMockFile({
+        url: 'https://test.supabase.co/storage/v1/object/public/legacy/photos/abc123.jpg',
+      });
+
+      await provider.getSignedUrl(file);
+
+      expect(mockStorageClient.from).toHaveBeenLastCalledWith('legacy');
+      expect(mockBucket.createSignedUrl).toHaveBeenCalledWith('photos/abc123.jpg', 3600);
+    });
+
+    it('should return external URLs untouched', async () => {
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, publicFiles: false }));
+      const file = createMockFile({ url: 'https://cdn.example.com/abc123.jpg' });
+
+      const result = await provider.getSignedUrl(file);
+
+      expect(result.url).toBe('https://cdn.example.com/abc123.jpg');
+      expect(mockBucket.createSignedUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('image transformations', () => {
+    const baseConfig = {
+      apiUrl: 'https://test.supabase.co',
+      apiKey: 'test-key',
+      bucket: 'media',
+      imageTransformations: true,
+    };
+
+    beforeEach(() => {
+      mockBucket.upload.mockResolvedValue({ data: { path: 'photo_abc.jpg' }, error: null });
+      mockBucket.getPublicUrl.mockImplementation((path: string, options?: any) => ({
+        data: {
+          publicUrl: options?.transform
+            ? `https://test.supabase.co/storage/v1/render/image/public/media/${path}?width=${options.transform.width}`
+            : `https://test.supabase.co/storage/v1/object/public/media/${path}`,
+        },
+      }));
+    });
+
+    it('should upload only the original and render formats from it', async () => {
+      const provider = initProvider.init(createMockConfig(baseConfig));
+      const original = createMockFile({ hash: 'photo_abc' });
+      const thumbnail = createMockFile({ hash: 'thumbnail_photo_abc', name: 'thumbnail_test.jpg' });
+
+      await Promise.all([provider.upload(original), provider.upload(thumbnail)]);
+
+      expect(mockBucket.upload).toHaveBeenCalledTimes(1);
+      expect(mockBucket.getPublicUrl).toHaveBeenCalledWith('photo_abc.jpg', {
+        transform: { width: 245, height: 156, resize: 'contain' },
+      });
+      expect(thumbnail.url).toBe('https://test.supabase.co/storage/v1/render/image/public/media/photo_abc.jpg?width=245');
+      expect(thumbnail.provider_metadata).toEqual({
+        bucket: 'media',
+        key: 'photo_abc.jpg',
+        transform: { width: 245, height: 156, resize: 'contain' },
+      });
+    });
+
+    it('should use per-format presets from config', async () => {
+      const provider = initProvider.init(createMockConfig({
+        ...baseConfig,
+        imageTransformations: { small: { width: 320, quality: 60 } },
+      }));
+      const original = createMockFile({ hash: 'photo_abc' });
+      const small = createMockFile({ hash: 'small_photo_abc' });
+      const thumbnail = createMockFile({ hash: 'thumbnail_photo_abc' });
+
+      await provider.upload(original);
+      await provider.upload(small);
+      await provider.upload(thumbnail);
+
+      expect(small.provider_metadata?.transform).toEqual({ width: 320, quality: 60 });
+      // No preset for thumbnail: stored as a regular file
+      expect(mockBucket.upload).toHaveBeenCalledTimes(2);
+      expect(thumbnail.provider_metadata?.transform).toBeUndefined();
+    });
+
+    it('should store the original path for private variants and sign with the transform', async () => {
+      mockBucket.createSignedUrl.mockResolvedValue({ data: { signedUrl: 'https://signed?token=xyz' }, error: null });
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, publicFiles: false }));
+      const original = createMockFile({ hash: 'photo_abc' });
+      const medium = createMockFile({ hash: 'medium_photo_abc' });
+
+      await provider.upload(original);
+      await provider.upload(medium);
+      await provider.getSignedUrl(medium);
+
+      expect(medium.url).toBe('photo_abc.jpg');
+      expect(mockBucket.createSignedUrl).toHaveBeenCalledWith('photo_abc.jpg', 3600, {
+        transform: { width: 750, height: 750, resize: 'contain' },
+      });
+    });
+
+    it('should not delete the original when a variant is deleted', async () => {
+      const provider = initProvider.init(createMockConfig(baseConfig));
+      const original = createMockFile({ hash: 'photo_abc' });
+      const large = createMockFile({ hash: 'large_photo_abc' });
+
+      await provider.upload(original);
+      await provider.upload(large);
+      await provider.delete(large);
+
+      expect(mockBucket.remove).not.toHaveBeenCalled();
+    });
+
+    it('should keep uploading formats when disabled', async () => {
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, imageTransformations: false }));
+
+      await provider.upload(createMockFile({ hash: 'photo_abc' }));
+      await provider.upload(createMockFile({ hash: 'thumbnail_photo_abc' }));
+
+      expect(mockBucket.upload).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('bucket routing', () => {
+    const baseConfig = {
+      apiUrl: 'https://test.supabase.co',
+      apiKey: 'test-key',
+      bucket: 'marketing',
+      publicFiles: true,
+      routes: [
+        { mime: 'application/pdf', bucket: 'contracts', directory: 'signed', publicFiles: false },
+      ],
+    };
+    const pdf = () => createMockFile({ name: 'deal.pdf', hash: 'deal_1', ext: '.pdf', mime: 'application/pdf' });
+
+    beforeEach(() => {
+      mockBucket.upload.mockResolvedValue({ data: { path: 'x' }, error: null });
+      mockBucket.remove.mockResolvedValue({ data: [], error: null });
+      mockBucket.getPublicUrl.mockImplementation((path: string) => ({
+        data: { publicUrl: `https://test.supabase.co/storage/v1/object/public/marketing/${path}` },
+      }));
+      mockBucket.createSignedUrl.mockResolvedValue({ data: { signedUrl: 'https://signed?token=xyz' }, error: null });
+    });
+
+    it('should upload matching files to the routed bucket as private', async () => {
+      const provider = initProvider.init(createMockConfig(baseConfig));
+      const file = pdf();
+
+      await provider.upload(file);
+
+      expect(mockStorageClient.from).toHaveBeenCalledWith('contracts');
+      expect(mockBucket.upload).toHaveBeenCalledWith('signed/deal_1.pdf', file.buffer, expect.any(Object));
+      expect(file.url).toBe('signed/deal_1.pdf');
+      expect(file.provider_metadata).toEqual({ bucket: 'contracts', key: 'signed/deal_1.pdf' });
+    });
+
+    it('should upload other files to the default public bucket', async () => {
+      const provider = initProvider.init(createMockConfig(baseConfig));
+      const file = createMockFile();
+
+      await provider.upload(file);
+
+      expect(mockStorageClient.from).toHaveBeenCalledWith('marketing');
+      expect(file.url).toBe('https://test.supabase.co/storage/v1/object/public/marketing/abc123.jpg');
+    });
+
+    it('should report private when any route is private', () => {
+      expect(initProvider.init(createMockConfig(baseConfig)).isPrivate()).toBe(true);
+    });
+
+    it('should sign files of private buckets and leave public ones untouched', async () => {
+      const provider = initProvider.init(createMockConfig(baseConfig));
+      const contract = pdf();
+      const image = createMockFile();
+      await provider.upload(contract);
+      await provider.upload(image);
+
+      const signed = await provider.getSignedUrl(contract);
+      const unsigned = await provider.getSignedUrl(image);
+
+      expect(signed.url).toBe('https://signed?token=xyz');
+      expect(unsigned.url).toBe(image.url);
+      expect(mockBucket.createSignedUrl).toHaveBeenCalledTimes(1);
+      expect(mockBucket.createSignedUrl).toHaveBeenCalledWith('signed/deal_1.pdf', 3600);
+    });
+
+    it('should delete from the routed bucket', async () => {
+      const provider = initProvider.init(createMockConfig(baseConfig));
+      const file = pdf();
+      await provider.upload(file);
+      vi.mocked(mockStorageClient.from).mockClear();
+
+      await provider.delete(file);
+
+      expect(mockStorageClient.from).toHaveBeenCalledWith('contracts');
+      expect(mockBucket.remove).toHaveBeenCalledWith(['signed/deal_1.pdf']);
+    });
+
+    it('should resolve the route for records without a stored location', async () => {
+      const provider = initProvider.init(createMockConfig(baseConfig));
+
+      await provider.delete(pdf());
+
+      expect(mockStorageClient.from).toHaveBeenCalledWith('contracts');
+      expect(mockBucket.remove).toHaveBeenCalledWith(['signed/deal_1.pdf']);
+    });
+  });
+
+  describe('signed URL cache', () => {
+    const baseConfig = {
+      apiUrl: 'https://test.supabase.co',
+      apiKey: 'test-key',
+      bucket: 'test-bucket',
+      publicFiles: false,
+    };
+
+    beforeEach(() => {
+      mockBucket.createSignedUrl
+        .mockResolvedValueOnce({ data: { signedUrl: 'https://signed?token=1' }, error: null })
+        .mockResolvedValueOnce({ data: { signedUrl: 'https://signed?token=2' }, error: null });
+    });
+
+    it('should reuse signed URLs when enabled', async () => {
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, signedUrlCache: true }));
+      const file = createMockFile({ url: 'abc123.jpg' });
+
+      const first = await provider.getSignedUrl(file);
+      const second = await provider.getSignedUrl(file);
+
+      expect(first.url).toBe('https://signed?token=1');
+      expect(second.url).toBe('https://signed?token=1');
+      expect(mockBucket.createSignedUrl).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cache formats with different transforms separately', async () => {
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, signedUrlCache: true }));
+
+      await provider.getSignedUrl(createMockFile({ url: 'abc123.jpg' }));
+      await provider.getSignedUrl(createMockFile({
+        url: 'abc123.jpg',
+        provider_metadata: { key: 'abc123.jpg', transform: { width: 100 } },
+      }));
+
+      expect(mockBucket.createSignedUrl).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failures', async () => {
+      mockBucket.createSignedUrl.mockReset();
+      mockBucket.createSignedUrl
+        .mockResolvedValueOnce({ data: null, error: { message: 'Object not found' } })
+        .mockResolvedValueOnce({ data: { signedUrl: 'https://signed?token=3' }, error: null });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, signedUrlCache: true }));
+      const file = createMockFile({ url: 'abc123.jpg' });
+
+      await provider.getSignedUrl(file);
+      const result = await provider.getSignedUrl(file);
+
+      expect(result.url).toBe('https://signed?token=3');
+      vi.mocked(console.warn).mockRestore();
+    });
+
+    it('should use a custom store', async () => {
+      const entries = new Map<string, any>();
+      const store = {
+        get: vi.fn(async (key: string) => entries.get(key)),
+        set: vi.fn(async (key: string, entry: any) => { entries.set(key, entry); }),
+      };
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, signedUrlCache: { store } }));
+      const file = createMockFile({ url: 'abc123.jpg' });
+
+      await provider.getSignedUrl(file);
+      await provider.getSignedUrl(file);
+
+      expect(store.set).toHaveBeenCalledWith(
+        'test-bucket/abc123.jpg|3600|',
+        expect.objectContaining({ url: 'https://signed?token=1' }),
+        3600
+      );
+      expect(mockBucket.createSignedUrl).toHaveBeenCalledTimes(1);
+    });
+
+    it('should sign every time when disabled', async () => {
+      const provider = initProvider.init(createMockConfig(baseConfig));
+      const file = createMockFile({ url: 'abc123.jpg' });
+
+      await provider.getSignedUrl(file);
+      await provider.getSignedUrl(file);
+
+      expect(mockBucket.createSignedUrl).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getSignedUrls method', () => {
+    const baseConfig = {
+      apiUrl: 'https://test.supabase.co',
+      apiKey: 'test-key',
+      bucket: 'test-bucket',
+      publicFiles: false,
+    };
+
+    const signAll = (paths: string[]) => ({
+      data: paths.map((path) => ({ path, signedUrl: `https://signed/${path}?token`, error: null })),
+      error: null,
+    });
+
+    it('should sign in bounded batches and keep input order', async () => {
+      mockBucket.createSignedUrls.mockImplementation(async (paths: string[]) => signAll(paths));
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, signedUrlBatch: { maxBatchSize: 2 } }));
+      const files = ['c.jpg', 'a.jpg', 'b.jpg'].map((url) => createMockFile({ url }));
+
+      const results = await provider.getSignedUrls(files);
+
+      expect(mockBucket.createSignedUrls).toHaveBeenCalledTimes(2);
+      expect(mockBucket.createSignedUrls).toHaveBeenNthCalledWith(1, ['c.jpg', 'a.jpg'], 3600);
+      expect(mockBucket.createSignedUrls).toHaveBeenNthCalledWith(2, ['b.jpg'], 3600);
+      expect(results.map((r) => r.url)).toEqual([
+        'https://signed/c.jpg?token',
+        'https://signed/a.jpg?token',
+        'https://signed/b.jpg?token',
+      ]);
+    });
+
+    it('should report per-file errors', async () => {
+      mockBucket.createSignedUrls.mockResolvedValue({
+        data: [
+          { path: 'a.jpg', signedUrl: 'https://signed/a.jpg?token', error: null },
+          { path: 'missing.jpg', signedUrl: '', error: 'Either the object does not exist or you do not have access to it' },
+        ],
+        error: null,
+      });
+      const provider = initProvider.init(createMockConfig(baseConfig));
+
+      const [found, missing] = await provider.getSignedUrls([
+        createMockFile({ url: 'a.jpg' }),
+        createMockFile({ url: 'missing.jpg' }),
+      ]);
+
+      expect(found).toEqual({ url: 'https://signed/a.jpg?token', error: null });
+      expect(missing.url).toBeNull();
+      expect(missing.error?.message).toContain('does not exist');
+    });
+
+    it('should fail every file of a batch when the request fails', async () => {
+      mockBucket.createSignedUrls.mockResolvedValue({ data: null, error: { message: 'Bucket not found' } });
+      const provider = initProvider.init(createMockConfig(baseConfig));
+
+      const results = await provider.getSignedUrls([createMockFile({ url: 'a.jpg' }), createMockFile({ url: 'b.jpg' })]);
+
+      expect(results.map((r) => r.error?.message)).toEqual(['Bucket not found', 'Bucket not found']);
+    });
+
+    it('should group by bucket and pass public and transformed files through their own path', async () => {
+      mockBucket.createSignedUrls.mockImplementation(async (paths: string[]) => signAll(paths));
+      mockBucket.createSignedUrl.mockResolvedValue({ data: { signedUrl: 'https://signed/render?token' }, error: null });
+      const provider = initProvider.init(createMockConfig({
+        ...baseConfig,
+        routes: [{ ext: '.pdf', bucket: 'docs' }, { ext: '.png', bucket: 'public-assets', publicFiles: true }],
+      }));
+
+      const results = await provider.getSignedUrls([
+        createMockFile({ url: 'a.jpg' }),
+        createMockFile({ url: 'x.pdf', provider_metadata: { bucket: 'docs', key: 'x.pdf' } }),
+        createMockFile({ url: 'https://public/p.png', provider_metadata: { bucket: 'public-assets', key: 'p.png' } }),
+        createMockFile({ url: 'a.jpg', provider_metadata: { key: 'a.jpg', transform: { width: 100 } } }),
+      ]);
+
+      expect(mockStorageClient.from).toHaveBeenCalledWith('test-bucket');
+      expect(mockStorageClient.from).toHaveBeenCalledWith('docs');
+      expect(mockBucket.createSignedUrls).toHaveBeenCalledTimes(2);
+      expect(mockBucket.createSignedUrl).toHaveBeenCalledWith('a.jpg', 3600, { transform: { width: 100 } });
+      expect(results.map((r) => r.url)).toEqual([
+        'https://signed/a.jpg?token',
+        'https://signed/x.pdf?token',
+        'https://public/p.png',
+        'https://signed/render?token',
+      ]);
+    });
+
+    it('should serve cached URLs without a request', async () => {
+      mockBucket.createSignedUrls.mockImplementation(async (paths: string[]) => signAll(paths));
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, signedUrlCache: true }));
+
+      await provider.getSignedUrls([createMockFile({ url: 'a.jpg' })]);
+      const results = await provider.getSignedUrls([createMockFile({ url: 'a.jpg' })]);
+
+      expect(mockBucket.createSignedUrls).toHaveBeenCalledTimes(1);
+      expect(results[0].url).toBe('https://signed/a.jpg?token');
+    });
+
+    it('should coalesce concurrent getSignedUrl calls into one batch', async () => {
+      mockBucket.createSignedUrls.mockImplementation(async (paths: string[]) => signAll(paths));
+      const provider = initProvider.init(createMockConfig({ ...baseConfig, signedUrlBatch: { coalesceWindow: 5 } }));
+
+      const results = await Promise.all(
+        ['a.jpg', 'b.jpg', 'c.jpg'].map((url) => provider.getSignedUrl(createMockFile({ url })))
+      );
+
+      expect(mockBucket.createSignedUrls).toHaveBeenCalledTimes(1);
+      expect(mockBucket.createSignedUrls).toHaveBeenCalledWith(['a.jpg', 'b.jpg', 'c.jpg'], 3600);
+      expect(mockBucket.createSignedUrl).not.toHaveBeenCalled();
+      expect(results[1].url).toBe('https://signed/b.jpg?token');
+    });
+  });
+
   describe('uploadStream method', () => {
     it('should upload stream using same logic as upload', async () => {
       const config = createMockConfig({
@@ -260,6 +759,43 @@ describe('Provider Methods', () => {
 
       expect(mockBucket.remove).toHaveBeenCalledWith(['uploads/abc123.jpg']);
     });
+
+    it('should delete the key stored in a public URL after the strategy changed', async () => {
+      const config = createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        keyStrategy: 'mime-folder',
+      });
+
+      mockBucket.remove.mockResolvedValue({ data: null, error: null });
+
+      const provider = initProvider.init(config);
+      const file = createMockFile({
+        url: 'https://test.supabase.co/storage/v1/object/public/test-bucket/2024/05/01/abc123.jpg',
+      });
+
+      await provider.delete(file);
+
+      expect(mockBucket.remove).toHaveBeenCalledWith(['2024/05/01/abc123.jpg']);
+    });
+
+    it('should delete the path stored for private files', async () => {
+      const config = createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        publicFiles: false,
+        keyStrategy: 'date',
+      });
+
+      mockBucket.remove.mockResolvedValue({ data: null, error: null });
+
+      const provider = initProvider.init(config);
+      await provider.delete(createMockFile({ url: 'images/abc123.jpg' }));
+
+      expect(mockBucket.remove).toHaveBeenCalledWith(['images/abc123.jpg']);
+    });
   });
 
   describe('checkFileSize method', () => {
@@ -399,30 +935,108 @@ describe('Provider Methods', () => {
 
       expect(mockBucket.createSignedUrl).toHaveBeenCalledWith('abc123.jpg', 7200);
     });
-  });
-});
 
+    describe('with options', () => {
+      const signedUrl = 'https://test.supabase.co/storage/v1/object/sign/test-bucket/abc123.jpg?token=xyz';
+      const init = (options: any = {}) =>
+        initProvider.init(
+          createMockConfig({
+            apiUrl: 'https://test.supabase.co',
+            apiKey: 'test-key',
+            bucket: 'test-bucket',
+            publicFiles: false,
+            ...options,
+          })
+        );
+
+      beforeEach(() => {
+        mockBucket.createSignedUrl.mockResolvedValue({ data: { signedUrl }, error: null });
+      });
 
-describe('Error Handling', () => {
-  let mockStorageClient: any;
-  let mockBucket: any;
+      it('should sign with a per-call expiry', async () => {
+        await init().getSignedUrl(createMockFile({ url: 'abc123.jpg' }), { expiresIn: 60 });
 
-  const createMockStrapi = (config: any) => ({
-    plugin: () => ({
-      config: () => config,
-    }),
-  });
+        expect(mockBucket.createSignedUrl).toHaveBeenCalledWith('abc123.jpg', 60);
+      });
 
-  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
-    name: 'test.jpg',
-    hash: 'abc123',
-    ext: '.jpg',
-    mime: 'image/jpeg',
-    size: 100,
-    url: '',
-    buffer: Buffer.from('test'),
-    ...overrides,
-  });
+      it('should name downloads after the file or the given name', async () => {
+        const provider = init();
+        const file = createMockFile({ name: 'Quarterly report.jpg', url: 'abc123.jpg' });
+
+        expect((await provider.getSignedUrl(file, { download: true })).url).toBe(
+          `${signedUrl}&download=Quarterly%20report.jpg`
+        );
+        expect((await provider.getSignedUrl(file, { download: 'Q&A #1.jpg' })).url).toBe(
+          `${signedUrl}&download=Q%26A%20%231.jpg`
+        );
+        expect((await provider.getSignedUrl(file, { download: false })).url).toBe(signedUrl);
+      });
+
+      it('should apply a transform over the format default', async () => {
+        const file = createMockFile({
+          url: 'abc123.jpg',
+          provider_metadata: { bucket: 'test-bucket', key: 'abc123.jpg', transform: { width: 245 } },
+        });
+
+        await init().getSignedUrl(file, { transform: { width: 1200, quality: 90 } });
+
+        expect(mockBucket.createSignedUrl).toHaveBeenCalledWith('abc123.jpg', 3600, { transform: { width: 1200, quality: 90 } });
+      });
+
+      it('should cache per expiry and download name', async () => {
+        const provider = init({ signedUrlCache: true });
+        const file = createMockFile({ url: 'abc123.jpg' });
+
+        await provider.getSignedUrl(file, { expiresIn: 300 });
+        await provider.getSignedUrl(file, { expiresIn: 300 });
+        await provider.getSignedUrl(file, { expiresIn: 600 });
+        await provider.getSignedUrl(file, { expiresIn: 600, download: true });
+
+        expect(mockBucket.createSignedUrl).toHaveBeenCalledTimes(3);
+      });
+
+      it('should not coalesce custom expiries', async () => {
+        const provider = init({ signedUrlBatch: { coalesceWindow: 5 } });
+
+        await provider.getSignedUrl(createMockFile({ url: 'abc123.jpg' }), { expiresIn: 60 });
+
+        expect(mockBucket.createSignedUrls).not.toHaveBeenCalled();
+        expect(mockBucket.createSignedUrl).toHaveBeenCalledWith('abc123.jpg', 60);
+      });
+
+      it('should reject invalid options regardless of signedUrlErrors', async () => {
+        const provider = init({ signedUrlErrors: 'fallback' });
+        const file = createMockFile({ url: 'abc123.jpg' });
+
+        await expect(provider.getSignedUrl(file, { expiresIn: -1 })).rejects.toBeInstanceOf(initProvider.InvalidOptionsError);
+        await expect(provider.getSignedUrl(file, { download: '' })).rejects.toThrow('download must be a boolean');
+        expect(mockBucket.createSignedUrl).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
+
+
+describe('Error Handling', () => {
+  let mockStorageClient: any;
+  let mockBucket: any;
+
+  const createMockStrapi = (config: any) => ({
+    plugin: () => ({
+      config: () => config,
+    }),
+  });
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'test.jpg',
+    hash: 'abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 100,
+    url: '',
+    buffer: Buffer.from('test'),
+    ...overrides,
+  });
 
   beforeEach(async () => {
     vi.clearAllMocks();
@@ -684,3 +1298,2446 @@ describe('Error Handling', () => {
   });
 });
 
+describe('Retry Behavior', () => {
+  let mockBucket: any;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'test.jpg',
+    hash: 'abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 100,
+    url: '',
+    buffer: Buffer.from('test'),
+    ...overrides,
+  });
+
+  const config = createMockConfig({
+    apiUrl: 'https://test.supabase.co',
+    apiKey: 'test-key',
+    bucket: 'test-bucket',
+    retry: { baseDelay: 0, jitter: false },
+  });
+
+  const transientError = { message: 'Service unavailable', status: 503 };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockBucket = {
+      upload: vi.fn(),
+      getPublicUrl: vi.fn(() => ({ data: { publicUrl: 'https://test.supabase.co/public/abc123.jpg' } })),
+      remove: vi.fn(),
+      createSignedUrl: vi.fn(),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  it('should retry buffer uploads after a transient failure', async () => {
+    mockBucket.upload
+      .mockResolvedValueOnce({ data: null, error: transientError })
+      .mockResolvedValueOnce({ data: { path: 'abc123.jpg' }, error: null });
+
+    const provider = initProvider.init(config);
+    const file = createMockFile();
+    await provider.upload(file);
+
+    expect(mockBucket.upload).toHaveBeenCalledTimes(2);
+    expect(file.url).toBe('https://test.supabase.co/public/abc123.jpg');
+  });
+
+  it('should not retry stream-only uploads', async () => {
+    mockBucket.upload.mockResolvedValue({ data: null, error: transientError });
+
+    const provider = initProvider.init(config);
+    const stream = Readable.from([Buffer.from('data')]);
+    const file = createMockFile({ stream, buffer: undefined });
+
+    await expect(provider.uploadStream(file)).rejects.toThrow('Failed to upload file to Supabase: Service unavailable');
+    expect(mockBucket.upload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay the buffer when a stream upload with a buffer is retried', async () => {
+    mockBucket.upload
+      .mockResolvedValueOnce({ data: null, error: transientError })
+      .mockResolvedValueOnce({ data: { path: 'abc123.jpg' }, error: null });
+
+    const provider = initProvider.init(config);
+    const stream = Readable.from([Buffer.from('test')]);
+    const file = createMockFile({ stream });
+    await provider.upload(file);
+
+    expect(mockBucket.upload.mock.calls[0][1]).toBe(stream);
+    expect(mockBucket.upload.mock.calls[1][1]).toBe(file.buffer);
+  });
+
+  it('should retry deletes', async () => {
+    mockBucket.remove
+      .mockResolvedValueOnce({ data: null, error: transientError })
+      .mockResolvedValueOnce({ data: [], error: null });
+
+    const provider = initProvider.init(config);
+    await provider.delete(createMockFile());
+
+    expect(mockBucket.remove).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry signed URL generation', async () => {
+    mockBucket.createSignedUrl
+      .mockResolvedValueOnce({ data: null, error: transientError })
+      .mockResolvedValueOnce({ data: { signedUrl: 'https://signed?token=xyz' }, error: null });
+
+    const provider = initProvider.init({ ...config, publicFiles: false });
+    const result = await provider.getSignedUrl(createMockFile({ url: 'abc123.jpg' }));
+
+    expect(result.url).toBe('https://signed?token=xyz');
+    expect(mockBucket.createSignedUrl).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop after maxAttempts', async () => {
+    mockBucket.remove.mockResolvedValue({ data: null, error: transientError });
+
+    const provider = initProvider.init({ ...config, retry: { ...config.retry, maxAttempts: 4 } });
+
+    await expect(provider.delete(createMockFile())).rejects.toThrow('Service unavailable');
+    expect(mockBucket.remove).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not retry when disabled', async () => {
+    mockBucket.remove.mockResolvedValue({ data: null, error: transientError });
+
+    const provider = initProvider.init({ ...config, retry: false });
+
+    await expect(provider.delete(createMockFile())).rejects.toThrow('Service unavailable');
+    expect(mockBucket.remove).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Structured Errors', () => {
+  let mockBucket: any;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'test.jpg',
+    hash: 'abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 100,
+    url: '',
+    buffer: Buffer.from('test'),
+    ...overrides,
+  });
+
+  const config = createMockConfig({
+    apiUrl: 'https://test.supabase.co',
+    apiKey: 'test-key',
+    bucket: 'test-bucket',
+    retry: false,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockBucket = {
+      upload: vi.fn(),
+      getPublicUrl: vi.fn(),
+      remove: vi.fn(),
+      createSignedUrl: vi.fn(),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  it('should expose the error classes on the default export', () => {
+    expect(initProvider.NotFoundError.prototype).toBeInstanceOf(initProvider.SupabaseProviderError);
+    expect(initProvider.ConfigError).toBeDefined();
+    expect(initProvider.NetworkError).toBeDefined();
+  });
+
+  it('should throw ConfigError for missing configuration', () => {
+    expect(() => initProvider.init(createMockConfig({}))).toThrow(initProvider.ConfigError);
+  });
+
+  it('should throw typed upload errors', async () => {
+    mockBucket.upload.mockResolvedValue({
+      data: null,
+      error: { name: 'StorageApiError', message: 'Payload too large', status: 413, statusCode: '413' },
+    });
+
+    const provider = initProvider.init(config);
+
+    await expect(provider.upload(createMockFile())).rejects.toBeInstanceOf(initProvider.PayloadTooLargeError);
+  });
+
+  it('should throw typed delete errors', async () => {
+    mockBucket.remove.mockResolvedValue({
+      data: null,
+      error: { name: 'StorageApiError', message: 'Invalid JWT', status: 400, statusCode: '403' },
+    });
+
+    const provider = initProvider.init(config);
+
+    await expect(provider.delete(createMockFile())).rejects.toBeInstanceOf(initProvider.UnauthorizedError);
+  });
+
+  it('should throw from getSignedUrl when configured', async () => {
+    mockBucket.createSignedUrl.mockResolvedValue({
+      data: null,
+      error: { name: 'StorageApiError', message: 'Object not found', status: 400, statusCode: '404' },
+    });
+
+    const provider = initProvider.init({ ...config, publicFiles: false, signedUrlErrors: 'throw' });
+
+    await expect(provider.getSignedUrl(createMockFile({ url: 'missing.jpg' }))).rejects.toBeInstanceOf(
+      initProvider.NotFoundError
+    );
+  });
+
+  it('should wrap unexpected exceptions from getSignedUrl when configured', async () => {
+    mockBucket.createSignedUrl.mockRejectedValue(new TypeError('fetch failed', { cause: { code: 'ECONNRESET' } }));
+
+    const provider = initProvider.init({ ...config, publicFiles: false, signedUrlErrors: 'throw' });
+
+    await expect(provider.getSignedUrl(createMockFile({ url: 'a.jpg' }))).rejects.toThrow(
+      'Failed to generate signed URL: fetch failed'
+    );
+  });
+
+  it('should keep the fallback URL by default', async () => {
+    mockBucket.createSignedUrl.mockResolvedValue({ data: null, error: { message: 'Object not found' } });
+
+    const provider = initProvider.init({ ...config, publicFiles: false });
+    const result = await provider.getSignedUrl(createMockFile({ url: 'missing.jpg' }));
+
+    expect(result.url).toBe('#file-not-found-missing.jpg');
+  });
+});
+
+describe('Logging', () => {
+  let mockBucket: any;
+  let logger: { error: any; warn: any; info: any; debug: any };
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'test.jpg',
+    hash: 'abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 100,
+    url: '',
+    buffer: Buffer.from('test'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+
+    mockBucket = {
+      upload: vi.fn().mockResolvedValue({ data: { path: 'abc123.jpg' }, error: null }),
+      getPublicUrl: vi.fn().mockReturnValue({ data: { publicUrl: 'https://test.supabase.co/public/abc123.jpg' } }),
+      remove: vi.fn().mockResolvedValue({ data: [], error: null }),
+      createSignedUrl: vi.fn(),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  const init = (overrides: any = {}) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        retry: false,
+        logger,
+        ...overrides,
+      })
+    );
+
+  it('should log successful uploads at debug level with fields', async () => {
+    await init().upload(createMockFile());
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      '[Supabase Provider] Upload complete',
+      expect.objectContaining({
+        operation: 'upload',
+        bucket: 'test-bucket',
+        path: 'abc123.jpg',
+        bytes: 4,
+        duration: expect.any(Number),
+      })
+    );
+  });
+
+  it('should log failed uploads with the error code', async () => {
+    mockBucket.upload.mockResolvedValue({ data: null, error: { message: 'Bucket not found', statusCode: '404' } });
+
+    await expect(init().upload(createMockFile())).rejects.toThrow();
+
+    expect(logger.error).toHaveBeenCalledWith(
+      '[Supabase Provider] Upload failed',
+      expect.objectContaining({
+        operation: 'upload',
+        path: 'abc123.jpg',
+        code: 'NOT_FOUND',
+        error: 'Failed to upload file to Supabase: Bucket not found',
+      })
+    );
+  });
+
+  it('should log deletes', async () => {
+    await init().delete(createMockFile({ url: 'https://test.supabase.co/storage/v1/object/public/test-bucket/abc123.jpg' }));
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      '[Supabase Provider] Delete complete',
+      expect.objectContaining({ operation: 'delete', bucket: 'test-bucket', path: 'abc123.jpg' })
+    );
+  });
+
+  it('should log signing failures as warnings', async () => {
+    mockBucket.createSignedUrl.mockResolvedValue({ data: null, error: { message: 'Object not found', statusCode: '404' } });
+
+    await init({ publicFiles: false }).getSignedUrl(createMockFile({ url: 'abc123.jpg' }));
+
+    expect(logger.warn).toHaveBeenCalledWith('[Supabase Provider] Failed to generate signed URL', {
+      operation: 'sign',
+      bucket: 'test-bucket',
+      path: 'abc123.jpg',
+      code: 'NOT_FOUND',
+      error: 'Object not found',
+    });
+  });
+
+  it('should log retries with the attempt number', async () => {
+    mockBucket.remove
+      .mockResolvedValueOnce({ data: null, error: { message: 'Service unavailable', status: 503 } })
+      .mockResolvedValueOnce({ data: [], error: null });
+
+    await init({ retry: { baseDelay: 0 } }).delete(createMockFile({ url: 'abc123.jpg' }));
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Delete of abc123.jpg failed (attempt 1/3)'),
+      expect.objectContaining({ operation: 'delete', attempt: 1, error: 'Service unavailable' })
+    );
+  });
+});
+
+describe('Content Validation', () => {
+  let mockBucket: any;
+  const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'test.jpg',
+    hash: 'abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 0.01,
+    url: '',
+    buffer: JPEG,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockBucket = {
+      upload: vi.fn().mockResolvedValue({ data: { path: 'abc123.jpg' }, error: null }),
+      getPublicUrl: vi.fn().mockReturnValue({ data: { publicUrl: 'https://test.supabase.co/public/abc123.jpg' } }),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  const init = (validation: any = true) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        validation,
+      })
+    );
+
+  it('should not validate unless configured', async () => {
+    const provider = init(false);
+    await provider.upload(createMockFile({ buffer: Buffer.from('<html></html>') }));
+    expect(mockBucket.upload).toHaveBeenCalled();
+  });
+
+  it('should reject mismatched content before uploading', async () => {
+    const provider = init();
+
+    await expect(provider.upload(createMockFile({ buffer: Buffer.from('<html></html>') }))).rejects.toBeInstanceOf(
+      initProvider.FileValidationError
+    );
+    expect(mockBucket.upload).not.toHaveBeenCalled();
+  });
+
+  it('should upload the full stream after sniffing it', async () => {
+    const content = Buffer.concat([JPEG, Buffer.alloc(8000, 7)]);
+    let uploaded: Buffer | undefined;
+    mockBucket.upload.mockImplementation(async (_path: string, body: Readable) => {
+      const chunks: Buffer[] = [];
+      for await (const piece of body) {
+        chunks.push(piece);
+      }
+      uploaded = Buffer.concat(chunks);
+      return { data: { path: 'abc123.jpg' }, error: null };
+    });
+    const provider = init();
+
+    await provider.uploadStream(createMockFile({ buffer: undefined, stream: Readable.from([content]) }));
+
+    expect(uploaded?.equals(content)).toBe(true);
+  });
+
+  it('should upload sanitized SVGs', async () => {
+    const provider = init();
+    const file = createMockFile({
+      name: 'logo.svg',
+      ext: '.svg',
+      mime: 'image/svg+xml',
+      buffer: Buffer.from('<svg onload="alert(1)"><rect/></svg>'),
+    });
+
+    await provider.upload(file);
+
+    const body = mockBucket.upload.mock.calls[0][1] as Buffer;
+    expect(body.toString()).toBe('<svg><rect/></svg>');
+  });
+});
+
+describe('Size Limits', () => {
+  let mockBucket: any;
+  const MB = 1000 * 1000;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'photo.jpg',
+    hash: 'abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 100,
+    url: '',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockBucket = {
+      upload: vi.fn().mockResolvedValue({ data: { path: 'abc123.jpg' }, error: null }),
+      getPublicUrl: vi.fn().mockReturnValue({ data: { publicUrl: 'https://test.supabase.co/public/abc123.jpg' } }),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  const init = (overrides: any = {}) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        retry: false,
+        sizeLimits: [
+          { mime: 'image/*', maxSize: 10 * MB },
+          { ext: '.pdf', maxSize: 25 * MB },
+        ],
+        ...overrides,
+      })
+    );
+
+  it('should apply per-mime limits below the global limit', async () => {
+    const provider = init();
+
+    await expect(provider.checkFileSize(createMockFile({ size: 12000 }), { sizeLimit: 500 * MB })).rejects.toThrow(
+      'photo.jpg exceeds size limit of 10.00 MB for image/* files (12.00 MB)'
+    );
+    await expect(
+      provider.checkFileSize(createMockFile({ name: 'clip.mp4', ext: '.mp4', mime: 'video/mp4', size: 400000 }), {
+        sizeLimit: 500 * MB,
+      })
+    ).resolves.toBeUndefined();
+  });
+
+  it('should keep the global limit when it is stricter', async () => {
+    const provider = init();
+
+    await expect(provider.checkFileSize(createMockFile({ size: 6000 }), { sizeLimit: 5 * MB })).rejects.toThrow(
+      'photo.jpg exceeds size limit of 5.00 MB (6.00 MB)'
+    );
+  });
+
+  it('should throw PayloadTooLargeError', async () => {
+    const provider = init();
+
+    await expect(provider.checkFileSize(createMockFile({ size: 12000 }), { sizeLimit: 500 * MB })).rejects.toBeInstanceOf(
+      initProvider.PayloadTooLargeError
+    );
+  });
+
+  it('should apply route limits', async () => {
+    const provider = init({ routes: [{ mime: 'video/*', bucket: 'videos', sizeLimit: 300 * MB }] });
+    const file = createMockFile({ name: 'clip.mp4', ext: '.mp4', mime: 'video/mp4', size: 400000 });
+
+    await expect(provider.checkFileSize(file, { sizeLimit: 500 * MB })).rejects.toThrow(
+      'clip.mp4 exceeds size limit of 300.00 MB for uploads to videos'
+    );
+  });
+
+  it('should reject buffers larger than the limit whatever size says', async () => {
+    const provider = init({ sizeLimits: [{ mime: 'image/*', maxSize: 10 }] });
+
+    await expect(provider.upload(createMockFile({ size: 0.001, buffer: Buffer.alloc(20) }))).rejects.toThrow(
+      'photo.jpg exceeds size limit of 10.00 Bytes for image/* files (20.00 Bytes)'
+    );
+    expect(mockBucket.upload).not.toHaveBeenCalled();
+  });
+
+  it('should stop streams that pass the limit while uploading', async () => {
+    mockBucket.upload.mockImplementation(async (_path: string, body: Readable) => {
+      try {
+        for await (const _piece of body) {
+          // drain
+        }
+        return { data: { path: 'abc123.jpg' }, error: null };
+      } catch (error) {
+        return { data: null, error: { name: 'StorageUnknownError', message: 'fetch failed', originalError: error } };
+      }
+    });
+    const provider = init({ sizeLimits: [{ mime: 'image/*', maxSize: 10 }] });
+    const stream = Readable.from([Buffer.alloc(8), Buffer.alloc(8)]);
+
+    const error = await provider.uploadStream(createMockFile({ size: 0.001, stream })).catch((e) => e);
+
+    expect(error).toBeInstanceOf(initProvider.PayloadTooLargeError);
+    expect(error.message).toBe('photo.jpg exceeds size limit of 10.00 Bytes for image/* files (16.00 Bytes)');
+  });
+
+  it('should limit images before they are optimized', async () => {
+    const provider = init({ sizeLimits: [{ mime: 'image/*', maxSize: 10 }], imageOptimization: true });
+    const stream = Readable.from([Buffer.alloc(8), Buffer.alloc(8)]);
+
+    const error = await provider.uploadStream(createMockFile({ size: 0.001, stream })).catch((e) => e);
+
+    expect(error).toBeInstanceOf(initProvider.PayloadTooLargeError);
+    expect(error.message).toBe('photo.jpg exceeds size limit of 10.00 Bytes for image/* files (16.00 Bytes)');
+    await expect(provider.upload(createMockFile({ size: 0.001, buffer: Buffer.alloc(20) }))).rejects.toThrow(
+      'photo.jpg exceeds size limit of 10.00 Bytes for image/* files (20.00 Bytes)'
+    );
+    expect(mockBucket.upload).not.toHaveBeenCalled();
+  });
+
+  it('should limit SVGs before they are sanitized', async () => {
+    const provider = init({ sizeLimits: [{ mime: 'image/*', maxSize: 10 }], validation: { svg: 'sanitize' } });
+    const stream = Readable.from([Buffer.from('<svg><rect/>'), Buffer.from('<script>x()</script></svg>')]);
+    const file = createMockFile({ name: 'logo.svg', ext: '.svg', mime: 'image/svg+xml', size: 0.001, stream });
+
+    const error = await provider.uploadStream(file).catch((e) => e);
+
+    expect(error).toBeInstanceOf(initProvider.PayloadTooLargeError);
+    expect(error.message).toBe('logo.svg exceeds size limit of 10.00 Bytes for image/* files (38.00 Bytes)');
+    expect(mockBucket.upload).not.toHaveBeenCalled();
+  });
+
+  it('should enforce the global limit remembered from checkFileSize', async () => {
+    const provider = init({ sizeLimits: [] });
+    const file = createMockFile({ size: 0.001, buffer: Buffer.alloc(2000) });
+
+    await provider.checkFileSize(file, { sizeLimit: 1000 });
+
+    await expect(provider.upload(file)).rejects.toThrow('photo.jpg exceeds size limit of 1.00 KB (2.00 KB)');
+  });
+});
+
+describe('Virus Scanning', () => {
+  let mockBucket: any;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'report.pdf',
+    hash: 'abc123',
+    ext: '.pdf',
+    mime: 'application/pdf',
+    size: 0.01,
+    url: '',
+    buffer: Buffer.from('%PDF-1.7 clean'),
+    ...overrides,
+  });
+
+  const drain = async (body: Buffer | Readable) => (Buffer.isBuffer(body) ? body : readAll(body));
+  const readAll = async (stream: Readable) => {
+    const chunks: Buffer[] = [];
+    for await (const piece of stream) {
+      chunks.push(piece);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockBucket = {
+      upload: vi.fn(async (_path: string, body: Buffer | Readable) => {
+        await drain(body);
+        return { data: { path: _path }, error: null };
+      }),
+      getPublicUrl: vi.fn().mockReturnValue({ data: { publicUrl: 'https://test.supabase.co/public/abc123.pdf' } }),
+      move: vi.fn().mockResolvedValue({ data: { message: 'Successfully moved' }, error: null }),
+      remove: vi.fn().mockResolvedValue({ data: [], error: null }),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  const init = (scan: any) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        retry: false,
+        scan,
+      })
+    );
+
+  it('should scan before uploading and reject infected files', async () => {
+    const scanner = vi.fn().mockResolvedValue({ clean: false, threat: 'Eicar-Test-Signature' });
+    const provider = init({ scanner });
+
+    const error = await provider.upload(createMockFile()).catch((e) => e);
+
+    expect(error).toBeInstanceOf(initProvider.InfectedFileError);
+    expect(error.threat).toBe('Eicar-Test-Signature');
+    expect(mockBucket.upload).not.toHaveBeenCalled();
+  });
+
+  it('should upload clean files after scanning, buffering streams first', async () => {
+    const seen: Buffer[] = [];
+    const scanner = vi.fn(async (_file: StrapiFile, content: Readable) => {
+      seen.push(await readAll(content));
+      return { clean: true };
+    });
+    const provider = init({ scanner });
+    const content = Buffer.from('%PDF-1.7 streamed');
+
+    await provider.uploadStream(createMockFile({ buffer: undefined, stream: Readable.from([content]) }));
+
+    expect(seen[0].equals(content)).toBe(true);
+    expect(mockBucket.upload).toHaveBeenCalledWith('abc123.pdf', content, expect.anything());
+    expect(mockBucket.move).not.toHaveBeenCalled();
+  });
+
+  it('should fail closed when the scanner fails', async () => {
+    const provider = init({ scanner: vi.fn().mockRejectedValue(new Error('clamd down')) });
+
+    await expect(provider.upload(createMockFile())).rejects.toBeInstanceOf(initProvider.ScanFailedError);
+    expect(mockBucket.upload).not.toHaveBeenCalled();
+  });
+
+  describe('with quarantine', () => {
+    it('should upload to the quarantine prefix and publish clean files', async () => {
+      const scanner = vi.fn(async (_file: StrapiFile, content: Readable) => {
+        await readAll(content);
+        return { clean: true };
+      });
+      const provider = init({ scanner, quarantine: '/quarantine/' });
+      const file = createMockFile({ buffer: undefined, stream: Readable.from([Buffer.alloc(100000, 1)]) });
+
+      await provider.uploadStream(file);
+
+      expect(mockBucket.upload).toHaveBeenCalledWith('quarantine/abc123.pdf', expect.any(Readable), expect.anything());
+      expect(mockBucket.move).toHaveBeenCalledWith('quarantine/abc123.pdf', 'abc123.pdf');
+      expect(file.provider_metadata).toEqual({ bucket: 'test-bucket', key: 'abc123.pdf' });
+    });
+
+    it('should remove infected files from quarantine', async () => {
+      const provider = init({
+        scanner: vi.fn().mockResolvedValue({ clean: false, threat: 'Eicar-Test-Signature' }),
+        quarantine: 'quarantine',
+      });
+
+      await expect(provider.upload(createMockFile())).rejects.toBeInstanceOf(initProvider.InfectedFileError);
+
+      expect(mockBucket.remove).toHaveBeenCalledWith(['quarantine/abc123.pdf']);
+      expect(mockBucket.move).not.toHaveBeenCalled();
+    });
+
+    it('should replace an existing object when publishing', async () => {
+      mockBucket.move
+        .mockResolvedValueOnce({ data: null, error: { message: 'The resource already exists', statusCode: '409' } })
+        .mockResolvedValueOnce({ data: { message: 'Successfully moved' }, error: null });
+      const provider = init({ scanner: vi.fn().mockResolvedValue({ clean: true }), quarantine: 'quarantine' });
+
+      await provider.upload(createMockFile());
+
+      expect(mockBucket.remove).toHaveBeenCalledWith(['abc123.pdf']);
+      expect(mockBucket.move).toHaveBeenCalledTimes(2);
+    });
+
+    it('should scan with ClamAV while uploading', async () => {
+      const clamd = await startClamdStandIn();
+      try {
+        const provider = init({ clamav: { port: clamd.port }, quarantine: 'quarantine' });
+        const infected = createMockFile({
+          name: 'eicar.txt',
+          ext: '.txt',
+          mime: 'text/plain',
+          buffer: undefined,
+          stream: Readable.from([Buffer.from(EICAR)]),
+        });
+
+        await provider.uploadStream(createMockFile());
+        const error = await provider.uploadStream(infected).catch((e) => e);
+
+        expect(mockBucket.move).toHaveBeenCalledTimes(1);
+        expect(error).toBeInstanceOf(initProvider.InfectedFileError);
+        expect(error.threat).toBe('Eicar-Test-Signature');
+        expect(clamd.scans.map((scan) => scan.toString())).toEqual(['%PDF-1.7 clean', EICAR]);
+      } finally {
+        await clamd.close();
+      }
+    });
+  });
+
+  it('should expose the ClamAV scanner factory', () => {
+    expect(initProvider.createClamAvScanner({ port: 3310 })).toBeTypeOf('function');
+  });
+});
+
+describe('Checksums and Deduplication', () => {
+  let objects: Map<string, { body: Buffer; metadata?: Record<string, string> }>;
+  let mockBucket: any;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'report.pdf',
+    hash: 'report_abc123',
+    ext: '.pdf',
+    mime: 'application/pdf',
+    size: 0.01,
+    url: '',
+    buffer: Buffer.from('%PDF-1.7 same content'),
+    ...overrides,
+  });
+
+  const sha256 = (content: Buffer | string) => createHash('sha256').update(content).digest('hex');
+  const md5 = (content: Buffer) => createHash('md5').update(content).digest('hex');
+  const readAll = async (body: Buffer | Readable) => {
+    if (Buffer.isBuffer(body)) {
+      return body;
+    }
+    const chunks: Buffer[] = [];
+    for await (const piece of body) {
+      chunks.push(piece);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // In-memory bucket: enough of storage-js to exercise staging, markers and verification
+    objects = new Map();
+    mockBucket = {
+      upload: vi.fn(async (path: string, body: Buffer | Readable, options: any) => {
+        objects.set(path, { body: await readAll(body), metadata: options?.metadata });
+        return { data: { path }, error: null };
+      }),
+      info: vi.fn(async (path: string) => {
+        const object = objects.get(path);
+        return object
+          ? { data: { size: object.body.length, etag: `"${md5(object.body)}"`, metadata: object.metadata }, error: null }
+          : { data: null, error: { message: 'Object not found', statusCode: '404' } };
+      }),
+      exists: vi.fn(async (path: string) => ({ data: objects.has(path), error: null })),
+      move: vi.fn(async (from: string, to: string) => {
+        if (objects.has(to)) {
+          return { data: null, error: { message: 'The resource already exists', statusCode: '409' } };
+        }
+        objects.set(to, objects.get(from)!);
+        objects.delete(from);
+        return { data: { message: 'Successfully moved' }, error: null };
+      }),
+      remove: vi.fn(async (paths: string[]) => {
+        paths.forEach((path) => objects.delete(path));
+        return { data: [], error: null };
+      }),
+      list: vi.fn(async (folder: string, options: { limit: number }) => ({
+        data: [...objects.keys()].filter((key) => key.startsWith(`${folder}/`)).slice(0, options.limit),
+        error: null,
+      })),
+      getPublicUrl: vi.fn((path: string) => ({ data: { publicUrl: `https://test.supabase.co/public/${path}` } })),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  const init = (options: any) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        retry: false,
+        ...options,
+      })
+    );
+
+  describe('checksum', () => {
+    it('should store the SHA-256 as object metadata and in provider_metadata', async () => {
+      const provider = init({ checksum: true });
+      const file = createMockFile();
+
+      await provider.upload(file);
+
+      const digest = sha256(file.buffer!);
+      expect(mockBucket.upload).toHaveBeenCalledWith(
+        'report_abc123.pdf',
+        file.buffer,
+        expect.objectContaining({ metadata: { sha256: digest } })
+      );
+      expect(mockBucket.info).toHaveBeenCalledWith('report_abc123.pdf');
+      expect(file.provider_metadata).toEqual({ bucket: 'test-bucket', key: 'report_abc123.pdf', sha256: digest });
+    });
+
+    it('should hash streams while uploading', async () => {
+      const provider = init({ checksum: true });
+      const content = Buffer.alloc(100000, 7);
+      const file = createMockFile({ buffer: undefined, stream: Readable.from([content]) });
+
+      await provider.uploadStream(file);
+
+      expect(objects.get('report_abc123.pdf')!.body.equals(content)).toBe(true);
+      expect(file.provider_metadata?.sha256).toBe(sha256(content));
+    });
+
+    it('should remove the object and throw when storage reports different content', async () => {
+      mockBucket.info.mockResolvedValue({ data: { size: 3, etag: '"x"' }, error: null });
+      const provider = init({ checksum: true });
+
+      const error = await provider.upload(createMockFile()).catch((e) => e);
+
+      expect(error).toBeInstanceOf(initProvider.ChecksumMismatchError);
+      expect(error.code).toBe('CHECKSUM_MISMATCH');
+      expect(error.message).toContain('stored size 3 bytes');
+      expect(objects.has('report_abc123.pdf')).toBe(false);
+    });
+
+    it('should skip verification when disabled', async () => {
+      const provider = init({ checksum: { verify: false } });
+
+      await provider.upload(createMockFile());
+
+      expect(mockBucket.info).not.toHaveBeenCalled();
+    });
+
+    it('should not hash when checksums are off', async () => {
+      const provider = init({});
+      const file = createMockFile();
+
+      await provider.upload(file);
+
+      expect(mockBucket.upload.mock.calls[0][2].metadata).toBeUndefined();
+      expect(mockBucket.info).not.toHaveBeenCalled();
+      expect(file.provider_metadata).toEqual({ bucket: 'test-bucket', key: 'report_abc123.pdf' });
+    });
+  });
+
+  describe('dedup', () => {
+    it('should store identical content once and reference it from every file', async () => {
+      const provider = init({ dedup: true, directory: 'uploads' });
+      const first = createMockFile();
+      const second = createMockFile({ name: 'copy.pdf', hash: 'copy_def456' });
+
+      await provider.upload(first);
+      await provider.upload(second);
+
+      const contentKey = `uploads/${sha256(first.buffer!)}.pdf`;
+      expect(mockBucket.upload.mock.calls.filter(([path]: [string]) => path === contentKey)).toHaveLength(1);
+      expect(first.provider_metadata).toEqual({
+        bucket: 'test-bucket',
+        key: contentKey,
+        sha256: sha256(first.buffer!),
+        dedup: true,
+      });
+      expect(second.url).toBe(`https://test.supabase.co/public/${contentKey}`);
+      expect([...objects.keys()].sort()).toEqual([
+        `.refs/${contentKey}/copy_def456`,
+        `.refs/${contentKey}/report_abc123`,
+        contentKey,
+      ]);
+    });
+
+    it('should delete the content only with its last reference', async () => {
+      const provider = init({ dedup: true });
+      const first = createMockFile();
+      const second = createMockFile({ hash: 'copy_def456' });
+      await provider.upload(first);
+      await provider.upload(second);
+      const contentKey = first.provider_metadata!.key as string;
+
+      await provider.delete(first);
+      expect(objects.has(contentKey)).toBe(true);
+
+      await provider.delete(second);
+      expect([...objects.keys()]).toEqual([]);
+    });
+
+    it('should stage streams and move them to their content key', async () => {
+      const provider = init({ dedup: { refsPrefix: '/meta/refs/' } });
+      const content = Buffer.from('%PDF-1.7 streamed');
+      await provider.upload(createMockFile({ buffer: content }));
+      const file = createMockFile({ hash: 'stream_1', buffer: undefined, stream: Readable.from([content]) });
+
+      await provider.uploadStream(file);
+
+      const contentKey = `${sha256(content)}.pdf`;
+      expect(mockBucket.upload).toHaveBeenCalledWith('meta/refs/.staging/stream_1.pdf', expect.any(Readable), expect.anything());
+      expect(mockBucket.move).toHaveBeenCalledWith('meta/refs/.staging/stream_1.pdf', contentKey);
+      expect(file.provider_metadata?.key).toBe(contentKey);
+      // The content was already stored: the staged copy is dropped
+      expect([...objects.keys()].sort()).toEqual([
+        contentKey,
+        `meta/refs/${contentKey}/report_abc123`,
+        `meta/refs/${contentKey}/stream_1`,
+      ]);
+    });
+
+    it('should scan before referencing content', async () => {
+      const provider = init({ dedup: true, scan: { scanner: vi.fn().mockResolvedValue({ clean: false, threat: 'Eicar' }) } });
+
+      await expect(provider.upload(createMockFile())).rejects.toBeInstanceOf(initProvider.InfectedFileError);
+      expect(objects.size).toBe(0);
+    });
+
+    it('should keep content that an upload referenced while its last reference was deleted', async () => {
+      const provider = init({ dedup: true });
+      const first = createMockFile();
+      await provider.upload(first);
+      const contentKey = first.provider_metadata!.key as string;
+      const second = createMockFile({ hash: 'copy_def456' });
+      const move = mockBucket.move.getMockImplementation();
+      // The upload runs after the delete found no reference left, and before it moves the content
+      mockBucket.move.mockImplementationOnce(async (from: string, to: string) => {
+        await provider.upload(second);
+        return move(from, to);
+      });
+
+      await provider.delete(first);
+
+      expect(second.provider_metadata?.key).toBe(contentKey);
+      expect([...objects.keys()].sort()).toEqual([`.refs/${contentKey}/copy_def456`, contentKey]);
+    });
+
+    it('should put back trashed content that an upload referenced meanwhile', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('{}'));
+      const provider = init({ dedup: true, softDelete: true });
+      const first = createMockFile();
+      await provider.upload(first);
+      const contentKey = first.provider_metadata!.key as string;
+      const move = mockBucket.move.getMockImplementation();
+      mockBucket.move.mockImplementationOnce(async (from: string, to: string) => {
+        await provider.upload(createMockFile({ hash: 'copy_def456' }));
+        return move(from, to);
+      });
+
+      await provider.delete(first);
+      vi.mocked(globalThis.fetch).mockRestore();
+
+      expect([...objects.keys()].sort()).toEqual([`.refs/${contentKey}/copy_def456`, contentKey]);
+    });
+
+    it('should release the reference of uploads that fail after referencing their content', async () => {
+      const provider = init({ dedup: true });
+      const denied = { data: null, error: { message: 'Permission denied', statusCode: '403' } };
+      const store = mockBucket.upload.getMockImplementation();
+      mockBucket.upload.mockImplementation((path: string, ...rest: unknown[]) => (path.startsWith('.refs/') ? store(path, ...rest) : denied));
+
+      await expect(provider.upload(createMockFile())).rejects.toBeInstanceOf(initProvider.UnauthorizedError);
+
+      mockBucket.upload.mockImplementation(store);
+      mockBucket.move.mockResolvedValueOnce(denied);
+      const stream = Readable.from([Buffer.from('%PDF-1.7 streamed')]);
+      await expect(provider.uploadStream(createMockFile({ buffer: undefined, stream }))).rejects.toBeInstanceOf(initProvider.SupabaseProviderError);
+
+      expect([...objects.keys()]).toEqual([]);
+    });
+
+    it('should render formats uploaded together with their original from its content key', async () => {
+      const provider = init({ dedup: true, imageTransformations: true });
+      const image = { ext: '.jpg', mime: 'image/jpeg', buffer: Buffer.from('jpeg bytes') };
+      const original = createMockFile({ ...image, name: 'photo.jpg', hash: 'photo_abc123' });
+      const thumbnail = createMockFile({ ...image, name: 'thumbnail_photo.jpg', hash: 'thumbnail_photo_abc123' });
+
+      // @strapi/upload starts the original's upload and its formats' in one Promise.all
+      await Promise.all([provider.upload(original), provider.upload(thumbnail)]);
+
+      const contentKey = `${sha256(image.buffer)}.jpg`;
+      expect(thumbnail.provider_metadata).toMatchObject({ bucket: 'test-bucket', key: contentKey, transform: { width: 245 } });
+      expect([...objects.keys()].sort()).toEqual([`.refs/${contentKey}/photo_abc123`, contentKey]);
+    });
+
+    it('should upload formats as regular files when their original fails', async () => {
+      const provider = init({ dedup: true, imageTransformations: true });
+      const image = { ext: '.jpg', mime: 'image/jpeg', buffer: Buffer.from('jpeg bytes') };
+      mockBucket.upload.mockResolvedValueOnce({ data: null, error: { message: 'Permission denied', statusCode: '403' } });
+      const original = createMockFile({ ...image, name: 'photo.jpg', hash: 'photo_abc123' });
+      const thumbnail = createMockFile({ ...image, name: 'thumbnail_photo.jpg', hash: 'thumbnail_photo_abc123' });
+
+      const [uploaded, rendered] = await Promise.allSettled([provider.upload(original), provider.upload(thumbnail)]);
+
+      expect(uploaded.status).toBe('rejected');
+      expect(rendered.status).toBe('fulfilled');
+      expect(thumbnail.provider_metadata).toMatchObject({ dedup: true });
+      expect(thumbnail.provider_metadata).not.toHaveProperty('transform');
+    });
+
+    it('should release references of deduplicated files after dedup is turned off', async () => {
+      await init({ dedup: true }).upload(createMockFile());
+      const file = createMockFile();
+      await init({ dedup: true }).upload(file);
+
+      await init({}).delete(file);
+
+      expect([...objects.keys()]).toEqual([]);
+    });
+  });
+});
+
+describe('Conflict Policy and Cache-Control', () => {
+  let existing: Set<string>;
+  let mockBucket: any;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'photo.jpg',
+    hash: 'photo_abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 0.01,
+    url: '',
+    buffer: Buffer.from('fake image data'),
+    ...overrides,
+  });
+
+  const conflict = { message: 'The resource already exists', statusCode: '409', error: 'Duplicate' };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    existing = new Set();
+    mockBucket = {
+      upload: vi.fn(async (path: string, _body: unknown, options: any) => {
+        if (existing.has(path) && !options.upsert) {
+          return { data: null, error: conflict };
+        }
+        existing.add(path);
+        return { data: { path }, error: null };
+      }),
+      exists: vi.fn(async (path: string) => ({ data: existing.has(path), error: null })),
+      move: vi.fn(async (from: string, to: string) => {
+        if (existing.has(to)) {
+          return { data: null, error: conflict };
+        }
+        existing.delete(from);
+        existing.add(to);
+        return { data: { message: 'Successfully moved' }, error: null };
+      }),
+      remove: vi.fn(async (paths: string[]) => {
+        paths.forEach((path) => existing.delete(path));
+        return { data: [], error: null };
+      }),
+      getPublicUrl: vi.fn((path: string) => ({ data: { publicUrl: `https://test.supabase.co/public/${path}` } })),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  const init = (options: any) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        retry: false,
+        ...options,
+      })
+    );
+
+  describe('onConflict', () => {
+    it('should overwrite by default', async () => {
+      existing.add('photo_abc123.jpg');
+
+      await init({}).upload(createMockFile());
+
+      expect(mockBucket.upload.mock.calls[0][2].upsert).toBe(true);
+      expect(mockBucket.exists).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictError instead of replacing with fail', async () => {
+      existing.add('photo_abc123.jpg');
+
+      const error = await init({ onConflict: 'fail' }).upload(createMockFile()).catch((e) => e);
+
+      expect(mockBucket.upload.mock.calls[0][2].upsert).toBe(false);
+      expect(error).toBeInstanceOf(initProvider.ConflictError);
+      expect(error.message).toBe('Failed to upload file to Supabase: The resource already exists');
+    });
+
+    it('should upload to the first free suffixed key with rename', async () => {
+      existing.add('uploads/photo_abc123.jpg');
+      existing.add('uploads/photo_abc123-1.jpg');
+      const file = createMockFile();
+
+      await init({ onConflict: 'rename', directory: 'uploads' }).upload(file);
+
+      expect(mockBucket.upload).toHaveBeenCalledWith('uploads/photo_abc123-2.jpg', file.buffer, expect.objectContaining({ upsert: false }));
+      expect(file.provider_metadata).toEqual({ bucket: 'test-bucket', key: 'uploads/photo_abc123-2.jpg' });
+      expect(file.url).toBe('https://test.supabase.co/public/uploads/photo_abc123-2.jpg');
+    });
+
+    it('should keep the existing object when publishing from quarantine with fail', async () => {
+      existing.add('photo_abc123.jpg');
+      const provider = init({
+        onConflict: 'fail',
+        scan: { scanner: vi.fn().mockResolvedValue({ clean: true }), quarantine: 'quarantine' },
+      });
+
+      await expect(provider.upload(createMockFile())).rejects.toBeInstanceOf(initProvider.ConflictError);
+
+      expect([...existing]).toEqual(['photo_abc123.jpg']);
+    });
+  });
+
+  describe('cacheControl', () => {
+    it('should default to one hour', async () => {
+      await init({}).upload(createMockFile());
+
+      const options = mockBucket.upload.mock.calls[0][2];
+      expect(options.cacheControl).toBe('3600');
+      expect(options.headers).toBeUndefined();
+    });
+
+    it('should apply rules by mime type and extension', async () => {
+      const provider = init({
+        cacheControl: [
+          { mime: 'image/*', value: 'public, max-age=31536000, immutable' },
+          { ext: ['.html', '.json'], value: 60 },
+        ],
+      });
+
+      await provider.upload(createMockFile());
+      await provider.upload(createMockFile({ name: 'export.json', hash: 'export_1', ext: '.json', mime: 'application/json' }));
+
+      expect(mockBucket.upload.mock.calls[0][2]).toMatchObject({
+        cacheControl: '31536000',
+        headers: { 'cache-control': 'public, max-age=31536000, immutable' },
+      });
+      expect(mockBucket.upload.mock.calls[1][2].cacheControl).toBe('60');
+    });
+
+    it('should use the custom function', async () => {
+      await init({ cacheControl: (file: StrapiFile) => (file.ext === '.jpg' ? 86400 : undefined) }).upload(createMockFile());
+
+      expect(mockBucket.upload.mock.calls[0][2].cacheControl).toBe('86400');
+    });
+  });
+});
+
+describe('Object Metadata', () => {
+  let stored: Map<string, Record<string, unknown> | undefined>;
+  let mockBucket: any;
+  let fetchSpy: any;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'photo.jpg',
+    hash: 'photo_abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 0.01,
+    url: '',
+    buffer: Buffer.from('fake image data'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    stored = new Map();
+    mockBucket = {
+      upload: vi.fn(async (path: string, _body: unknown, options: any) => {
+        stored.set(path, options.metadata);
+        return { data: { path }, error: null };
+      }),
+      info: vi.fn(async (path: string) => ({
+        data: { contentType: 'image/jpeg', cacheControl: 'max-age=3600', metadata: stored.get(path) },
+        error: null,
+      })),
+      remove: vi.fn(async (paths: string[]) => {
+        paths.forEach((path) => stored.delete(path));
+        return { data: [], error: null };
+      }),
+      getPublicUrl: vi.fn((path: string) => ({ data: { publicUrl: `https://test.supabase.co/public/${path}` } })),
+    };
+
+    // Server-side copy: applies the x-metadata header to the destination, unless the source's metadata is copied
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url: any, init: any) => {
+      const { sourceKey, destinationKey, copyMetadata = true } = JSON.parse(init.body);
+      if (!stored.has(sourceKey)) {
+        return new Response(JSON.stringify({ statusCode: '404', message: 'Object not found' }), { status: 400 });
+      }
+      const metadata = JSON.parse(Buffer.from(init.headers['x-metadata'], 'base64').toString('utf8'));
+      stored.set(destinationKey, copyMetadata ? stored.get(sourceKey) : metadata);
+      return new Response(JSON.stringify({ Key: destinationKey }));
+    });
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  const init = (options: any) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        retry: false,
+        ...options,
+      })
+    );
+
+  it('should attach Strapi fields as object metadata on upload', async () => {
+    const provider = init({ objectMetadata: { map: (file: StrapiFile) => ({ source: 'cms', ext: file.ext }) } });
+
+    await provider.upload(createMockFile({ caption: 'Sunset', createdBy: 4 }));
+
+    expect(stored.get('photo_abc123.jpg')).toEqual({
+      originalName: 'photo.jpg',
+      hash: 'photo_abc123',
+      caption: 'Sunset',
+      uploadedBy: 4,
+      source: 'cms',
+      ext: '.jpg',
+    });
+  });
+
+  it('should send no metadata when not configured', async () => {
+    await init({}).upload(createMockFile({ caption: 'Sunset' }));
+
+    expect(stored.get('photo_abc123.jpg')).toBeUndefined();
+  });
+
+  it('should keep the checksum next to the metadata', async () => {
+    await init({ objectMetadata: { fields: ['name'] }, checksum: { verify: false } }).upload(createMockFile());
+
+    expect(stored.get('photo_abc123.jpg')).toEqual({ originalName: 'photo.jpg', sha256: expect.stringMatching(/^[0-9a-f]{64}$/) });
+  });
+
+  it('should update the metadata of a file and its formats without re-uploading', async () => {
+    const provider = init({ objectMetadata: { fields: ['hash', 'caption'] } });
+    const file = createMockFile();
+    const thumbnail = createMockFile({ name: 'thumbnail_photo.jpg', hash: 'thumbnail_photo_abc123' });
+    await provider.upload(file);
+    await provider.upload(thumbnail);
+    mockBucket.upload.mockClear();
+
+    await provider.updateMetadata(
+      { ...file, buffer: undefined, caption: 'New caption', formats: { thumbnail: { ...thumbnail, buffer: undefined } } },
+      { reviewed: true }
+    );
+
+    expect(mockBucket.upload).not.toHaveBeenCalled();
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
+    for (const [, request] of fetchSpy.mock.calls) {
+      expect(JSON.parse(request.body).metadata).toEqual({ mimetype: 'image/jpeg', cacheControl: 'max-age=3600' });
+    }
+    expect(stored.get('photo_abc123.jpg')).toEqual({ hash: 'photo_abc123', caption: 'New caption', reviewed: true });
+    expect(stored.get('thumbnail_photo_abc123.jpg')).toEqual({
+      hash: 'thumbnail_photo_abc123',
+      caption: 'New caption',
+      reviewed: true,
+    });
+    expect([...stored.keys()]).toEqual(['photo_abc123.jpg', 'thumbnail_photo_abc123.jpg']);
+  });
+
+  it('should fail and clean up when storage ignores the metadata', async () => {
+    const provider = init({ objectMetadata: true });
+    const file = createMockFile();
+    await provider.upload(file);
+    mockBucket.info.mockResolvedValue({ data: { metadata: {} }, error: null });
+
+    await expect(provider.updateMetadata({ ...file, caption: 'New' })).rejects.toThrow(
+      'Failed to update file metadata: storage ignored the metadata of the copy'
+    );
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect([...stored.keys()]).toEqual(['photo_abc123.jpg']);
+  });
+
+  it('should map copy failures to typed errors', async () => {
+    const provider = init({ objectMetadata: true });
+
+    await expect(
+      provider.updateMetadata(createMockFile({ provider_metadata: { bucket: 'test-bucket', key: 'missing.jpg' } }))
+    ).rejects.toBeInstanceOf(initProvider.NotFoundError);
+  });
+
+  it('should skip shared and rendered objects', async () => {
+    const provider = init({ objectMetadata: true });
+
+    await provider.updateMetadata(createMockFile({ provider_metadata: { key: 'abc.jpg', dedup: true } }));
+    await provider.updateMetadata(createMockFile({ provider_metadata: { key: 'abc.jpg', transform: { width: 100 } } }));
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('CDN URLs', () => {
+  let mockBucket: any;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'photo.jpg',
+    hash: 'photo_abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 0.01,
+    url: '',
+    buffer: Buffer.from('fake image data'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    mockBucket = {
+      upload: vi.fn(async (path: string) => ({ data: { path }, error: null })),
+      remove: vi.fn().mockResolvedValue({ data: [], error: null }),
+      getPublicUrl: vi.fn((path: string) => ({
+        data: { publicUrl: `https://test.supabase.co/storage/v1/object/public/test-bucket/${path}` },
+      })),
+      createSignedUrl: vi.fn(async (path: string) => ({
+        data: { signedUrl: `https://test.supabase.co/storage/v1/object/sign/test-bucket/${path}?token=t` },
+        error: null,
+      })),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  const init = (options: any) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        retry: false,
+        ...options,
+      })
+    );
+
+  it('should store public URLs on the CDN domain', async () => {
+    const file = createMockFile();
+
+    await init({ cdn: { url: 'https://cdn.example.com/{key}' }, directory: 'uploads' }).upload(file);
+
+    expect(file.url).toBe('https://cdn.example.com/uploads/photo_abc123.jpg');
+    expect(file.provider_metadata).toEqual({ bucket: 'test-bucket', key: 'uploads/photo_abc123.jpg' });
+  });
+
+  it('should delete files recorded with only a rewritten URL', async () => {
+    const provider = init({ cdn: { url: 'https://cdn.example.com' } });
+
+    await provider.delete(createMockFile({ url: 'https://cdn.example.com/object/public/test-bucket/legacy/photo.jpg' }));
+
+    expect(mockBucket.remove).toHaveBeenCalledWith(['legacy/photo.jpg']);
+  });
+
+  it('should leave signed URLs on Supabase by default', async () => {
+    const provider = init({ publicFiles: false, cdn: { url: 'https://cdn.example.com' } });
+
+    const { url } = await provider.getSignedUrl(createMockFile({ url: 'photo_abc123.jpg' }));
+
+    expect(url).toBe('https://test.supabase.co/storage/v1/object/sign/test-bucket/photo_abc123.jpg?token=t');
+  });
+
+  it('should rewrite signed URLs with signedUrls', async () => {
+    const provider = init({ publicFiles: false, cdn: { url: 'https://cdn.example.com', signedUrls: true } });
+
+    const { url } = await provider.getSignedUrl(createMockFile({ url: 'photo_abc123.jpg' }));
+
+    expect(url).toBe('https://cdn.example.com/object/sign/test-bucket/photo_abc123.jpg?token=t');
+  });
+});
+
+describe('Local URL Signing', () => {
+  let mockBucket: any;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'report.pdf',
+    hash: 'report_abc123',
+    ext: '.pdf',
+    mime: 'application/pdf',
+    size: 0.01,
+    url: 'docs/report_abc123.pdf',
+    provider_metadata: { bucket: 'test-bucket', key: 'docs/report_abc123.pdf' },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    mockBucket = {
+      createSignedUrl: vi.fn(async (path: string) => ({
+        data: { signedUrl: `https://test.supabase.co/storage/v1/object/sign/test-bucket/${path}?token=t` },
+        error: null,
+      })),
+      createSignedUrls: vi.fn(),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  const init = (options: any = {}) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        publicFiles: false,
+        retry: false,
+        urlSigner: { scheme: 'query', url: 'https://cdn.example.com', secret: 'top-secret' },
+        ...options,
+      })
+    );
+
+  it('should sign without calling Supabase', async () => {
+    const { url } = await init({ signedUrlExpires: 600 }).getSignedUrl(createMockFile());
+
+    const signed = new URL(url);
+    expect(signed.origin + signed.pathname).toBe('https://cdn.example.com/test-bucket/docs/report_abc123.pdf');
+    const remaining = Number(signed.searchParams.get('expires')) - Date.now() / 1000;
+    expect(remaining).toBeGreaterThan(598);
+    expect(remaining).toBeLessThanOrEqual(600);
+    expect(signed.searchParams.get('signature')).toMatch(/^[0-9a-f]{64}$/);
+    expect(mockBucket.createSignedUrl).not.toHaveBeenCalled();
+  });
+
+  it('should sign batches locally', async () => {
+    const results = await init({ urlSigner: { scheme: 'bunny', url: 'https://media.b-cdn.net/{key}', secret: 'key' } }).getSignedUrls([
+      createMockFile(),
+      createMockFile({ provider_metadata: { bucket: 'test-bucket', key: 'docs/other.pdf' } }),
+    ]);
+
+    expect(results.map((result) => result.url?.split('?')[0])).toEqual([
+      'https://media.b-cdn.net/docs/report_abc123.pdf',
+      'https://media.b-cdn.net/docs/other.pdf',
+    ]);
+    expect(results[0].url).toMatch(/\?token=[\w-]+&expires=\d+$/);
+    expect(mockBucket.createSignedUrls).not.toHaveBeenCalled();
+  });
+
+  it('should leave transformed formats to Supabase', async () => {
+    const { url } = await init().getSignedUrl(
+      createMockFile({ provider_metadata: { bucket: 'test-bucket', key: 'docs/report_abc123.pdf', transform: { width: 100 } } })
+    );
+
+    expect(url).toBe('https://test.supabase.co/storage/v1/object/sign/test-bucket/docs/report_abc123.pdf?token=t');
+  });
+
+  it('should reject a signer without a secret at init', () => {
+    expect(() => init({ urlSigner: { scheme: 'cloudflare', url: 'https://cdn.example.com', secret: '' } })).toThrow(
+      'urlSigner.secret is required.'
+    );
+  });
+});
+
+describe('Direct Uploads', () => {
+  let mockBucket: any;
+  let stored: { size: number; contentType: string; content: Buffer };
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'report.pdf',
+    hash: 'report_abc123',
+    ext: '.pdf',
+    mime: 'application/pdf',
+    size: 0.01,
+    url: '',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const content = Buffer.from('%PDF-1.7 direct');
+    stored = { size: content.length, contentType: 'application/pdf', content };
+    mockBucket = {
+      createSignedUploadUrl: vi.fn(async (path: string) => ({
+        data: { signedUrl: `https://test.supabase.co/storage/v1/object/upload/sign/test-bucket/${path}?token=up`, token: 'up', path },
+        error: null,
+      })),
+      info: vi.fn(async () => ({ data: { size: stored.size, contentType: stored.contentType }, error: null })),
+      download: vi.fn(async () => ({ data: new Blob([stored.content]), error: null })),
+      upload: vi.fn(async (path: string) => ({ data: { path }, error: null })),
+      move: vi.fn().mockResolvedValue({ data: { message: 'Successfully moved' }, error: null }),
+      remove: vi.fn().mockResolvedValue({ data: [], error: null }),
+      exists: vi.fn().mockResolvedValue({ data: false, error: null }),
+      getPublicUrl: vi.fn((path: string) => ({
+        data: { publicUrl: `https://test.supabase.co/storage/v1/object/public/test-bucket/${path}` },
+      })),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  const init = (options: any = {}) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        directory: 'uploads',
+        retry: false,
+        ...options,
+      })
+    );
+
+  it('should issue an upload URL for the key upload would use', async () => {
+    const file = createMockFile();
+
+    const result = await init().createUploadUrl(file);
+
+    expect(result).toEqual({
+      url: 'https://test.supabase.co/storage/v1/object/upload/sign/test-bucket/uploads/report_abc123.pdf?token=up',
+      token: 'up',
+      bucket: 'test-bucket',
+      path: 'uploads/report_abc123.pdf',
+    });
+    expect(mockBucket.createSignedUploadUrl).toHaveBeenCalledWith('uploads/report_abc123.pdf', { upsert: true });
+    expect(file.provider_metadata).toEqual({ bucket: 'test-bucket', key: 'uploads/report_abc123.pdf', publicFiles: true });
+  });
+
+  it('should finalize like upload does', async () => {
+    const provider = init();
+    const file = createMockFile({ size: 999 });
+    await provider.createUploadUrl(file);
+
+    await provider.finalizeUpload(file);
+
+    expect(file.url).toBe('https://test.supabase.co/storage/v1/object/public/test-bucket/uploads/report_abc123.pdf');
+    expect(file.size).toBe(0.02);
+    expect(file.provider_metadata).toEqual({ bucket: 'test-bucket', key: 'uploads/report_abc123.pdf' });
+    expect(mockBucket.download).not.toHaveBeenCalled();
+  });
+
+  it('should store the key of private files', async () => {
+    const provider = init({ publicFiles: false });
+    const file = createMockFile();
+    await provider.createUploadUrl(file);
+
+    await provider.finalizeUpload(file);
+
+    expect(file.url).toBe('uploads/report_abc123.pdf');
+  });
+
+  it('should follow the mode of the route the URL was issued for', async () => {
+    const provider = init({ publicFiles: false, routes: [{ ext: '.pdf', directory: 'reports', publicFiles: true }] });
+    const file = createMockFile();
+    await provider.createUploadUrl(file);
+
+    await provider.finalizeUpload(file);
+
+    expect(file.url).toBe('https://test.supabase.co/storage/v1/object/public/test-bucket/reports/report_abc123.pdf');
+    expect(file.provider_metadata).toEqual({ bucket: 'test-bucket', key: 'reports/report_abc123.pdf' });
+  });
+
+  it('should use the mode of the bucket for URLs issued without one', async () => {
+    const provider = init({ publicFiles: false, routes: [{ ext: '.pdf', directory: 'reports', publicFiles: true }] });
+    const file = createMockFile({ provider_metadata: { bucket: 'test-bucket', key: 'reports/report_abc123.pdf' } });
+
+    await provider.finalizeUpload(file);
+
+    expect(file.url).toBe('reports/report_abc123.pdf');
+  });
+
+  it('should follow the conflict policy when issuing URLs', async () => {
+    mockBucket.exists.mockImplementation(async (key: string) => ({ data: key === 'uploads/report_abc123.pdf', error: null }));
+    const file = createMockFile();
+
+    const { path } = await init({ onConflict: 'rename' }).createUploadUrl(file);
+
+    expect(path).toBe('uploads/report_abc123-1.pdf');
+    expect(mockBucket.createSignedUploadUrl).toHaveBeenCalledWith(path, { upsert: false });
+  });
+
+  it('should reject declared types and sizes before issuing a URL', async () => {
+    const provider = init({ validation: { deniedExtensions: ['.exe'] }, sizeLimits: [{ mime: 'application/pdf', maxSize: 5000 }] });
+
+    await expect(provider.createUploadUrl(createMockFile({ name: 'a.exe', ext: '.exe' }))).rejects.toBeInstanceOf(
+      initProvider.FileValidationError
+    );
+    await expect(provider.createUploadUrl(createMockFile({ size: 10 }))).rejects.toBeInstanceOf(initProvider.PayloadTooLargeError);
+    expect(mockBucket.createSignedUploadUrl).not.toHaveBeenCalled();
+  });
+
+  it('should remove objects that are larger than allowed', async () => {
+    stored.size = 20_000;
+    const provider = init({ sizeLimits: [{ mime: 'application/pdf', maxSize: 5000 }] });
+    const file = createMockFile();
+    await provider.createUploadUrl(file);
+
+    await expect(provider.finalizeUpload(file)).rejects.toBeInstanceOf(initProvider.PayloadTooLargeError);
+    expect(mockBucket.remove).toHaveBeenCalledWith(['uploads/report_abc123.pdf']);
+    expect(file.url).toBe('');
+  });
+
+  it('should remove objects stored with another content type', async () => {
+    stored.contentType = 'text/html; charset=utf-8';
+    const provider = init();
+    const file = createMockFile();
+    await provider.createUploadUrl(file);
+
+    await expect(provider.finalizeUpload(file)).rejects.toThrow('uploaded as text/html but declared as application/pdf');
+    expect(mockBucket.remove).toHaveBeenCalledWith(['uploads/report_abc123.pdf']);
+  });
+
+  it('should sniff content and record checksums', async () => {
+    const provider = init({ validation: true, checksum: { verify: false } });
+    const file = createMockFile();
+    await provider.createUploadUrl(file);
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('{}', { status: 200 }));
+    mockBucket.info.mockResolvedValue({
+      data: { size: stored.size, contentType: 'application/pdf', metadata: { sha256: createHash('sha256').update(stored.content).digest('hex') } },
+      error: null,
+    });
+
+    await provider.finalizeUpload(file);
+
+    expect(file.provider_metadata?.sha256).toBe(createHash('sha256').update(stored.content).digest('hex'));
+    vi.mocked(globalThis.fetch).mockRestore();
+  });
+
+  it('should reject content that does not match its type', async () => {
+    stored.content = Buffer.from('MZ not a pdf');
+    const provider = init({ validation: true });
+    const file = createMockFile();
+    await provider.createUploadUrl(file);
+
+    await expect(provider.finalizeUpload(file)).rejects.toBeInstanceOf(initProvider.FileValidationError);
+    expect(mockBucket.remove).toHaveBeenCalledWith(['uploads/report_abc123.pdf']);
+  });
+
+  it('should quarantine scanned uploads and publish them once clean', async () => {
+    const scanner = vi.fn().mockResolvedValue({ clean: true });
+    const provider = init({ scan: { scanner, quarantine: 'quarantine' } });
+    const file = createMockFile();
+
+    const { path } = await provider.createUploadUrl(file);
+    await provider.finalizeUpload(file);
+
+    expect(path).toBe('quarantine/uploads/report_abc123.pdf');
+    expect(scanner).toHaveBeenCalled();
+    expect(mockBucket.move).toHaveBeenCalledWith('quarantine/uploads/report_abc123.pdf', 'uploads/report_abc123.pdf');
+    expect(file.provider_metadata).toEqual({ bucket: 'test-bucket', key: 'uploads/report_abc123.pdf' });
+  });
+
+  it('should remove infected uploads from quarantine', async () => {
+    const scanner = vi.fn().mockResolvedValue({ clean: false, threat: 'Eicar-Test-Signature' });
+    const provider = init({ scan: { scanner, quarantine: 'quarantine' } });
+    const file = createMockFile();
+    await provider.createUploadUrl(file);
+
+    await expect(provider.finalizeUpload(file)).rejects.toBeInstanceOf(initProvider.InfectedFileError);
+    expect(mockBucket.remove).toHaveBeenCalledWith(['quarantine/uploads/report_abc123.pdf']);
+    expect(mockBucket.move).not.toHaveBeenCalled();
+  });
+
+  it('should fail when the object was never uploaded', async () => {
+    mockBucket.info.mockResolvedValue({ data: null, error: { message: 'Object not found', statusCode: '404' } });
+    const provider = init();
+    const file = createMockFile();
+    await provider.createUploadUrl(file);
+
+    await expect(provider.finalizeUpload(file)).rejects.toBeInstanceOf(initProvider.NotFoundError);
+    expect(mockBucket.remove).not.toHaveBeenCalled();
+  });
+
+  it('should require createUploadUrl first', async () => {
+    await expect(init().finalizeUpload(createMockFile())).rejects.toBeInstanceOf(initProvider.InvalidOptionsError);
+  });
+});
+
+describe('Image Optimization', () => {
+  let mockBucket: any;
+  let jpeg: Buffer;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'holiday.jpg',
+    hash: 'holiday_abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 50,
+    url: '',
+    width: 3000,
+    height: 2000,
+    buffer: jpeg,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    jpeg = await sharp({ create: { width: 3000, height: 2000, channels: 3, background: '#ff8800' } })
+      .withExif({ IFD0: { Copyright: 'Example' } })
+      .jpeg()
+      .toBuffer();
+
+    mockBucket = {
+      upload: vi.fn(async (path: string) => ({ data: { path }, error: null })),
+      getPublicUrl: vi.fn((path: string) => ({
+        data: { publicUrl: `https://test.supabase.co/storage/v1/object/public/test-bucket/${path}` },
+      })),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  const init = (imageOptimization: any) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        retry: false,
+        imageOptimization,
+      })
+    );
+
+  it('should upload the optimized image under a key with its extension', async () => {
+    const file = createMockFile();
+
+    await init(true).upload(file);
+
+    const [path, body, options] = mockBucket.upload.mock.calls[0];
+    expect(path).toBe('holiday_abc123.webp');
+    expect(options.contentType).toBe('image/webp');
+    const stored = await sharp(body).metadata();
+    expect(stored).toMatchObject({ format: 'webp', width: 2560, height: 1707 });
+    expect(stored.exif).toBeUndefined();
+    expect(file).toMatchObject({
+      name: 'holiday.webp',
+      ext: '.webp',
+      mime: 'image/webp',
+      width: 2560,
+      height: 1707,
+      size: Math.round(body.length / 10) / 100,
+      url: 'https://test.supabase.co/storage/v1/object/public/test-bucket/holiday_abc123.webp',
+    });
+  });
+
+  it('should optimize streams', async () => {
+    const file = createMockFile({ buffer: undefined, stream: Readable.from([jpeg]) });
+
+    await init([{ mime: 'image/jpeg', format: 'avif', quality: 40, maxWidth: 300 }]).uploadStream(file);
+
+    expect(mockBucket.upload.mock.calls[0][0]).toBe('holiday_abc123.avif');
+    expect(file.mime).toBe('image/avif');
+    expect(file.stream).toBeUndefined();
+  });
+
+  it('should leave skipped formats untouched', async () => {
+    const gif = Buffer.from('GIF89a fake gif');
+    const file = createMockFile({ name: 'anim.gif', ext: '.gif', mime: 'image/gif', buffer: gif });
+
+    await init(true).upload(file);
+
+    expect(mockBucket.upload).toHaveBeenCalledWith('holiday_abc123.gif', gif, expect.anything());
+    expect(file.mime).toBe('image/gif');
+  });
+
+  it('should reject images that cannot be decoded', async () => {
+    const file = createMockFile({ buffer: Buffer.from('not a jpeg') });
+
+    await expect(init(true).upload(file)).rejects.toBeInstanceOf(initProvider.FileValidationError);
+    expect(mockBucket.upload).not.toHaveBeenCalled();
+  });
+});
+
+describe('Reconciliation', () => {
+  let mockBucket: any;
+  const day = 86400 * 1000;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const old = new Date(Date.now() - 30 * day).toISOString();
+    const entry = (name: string) => ({ name, id: name, updated_at: old, metadata: { size: 10 } });
+    const folders: Record<string, any[]> = {
+      uploads: [
+        entry('photo_abc123.jpg'),
+        entry('thumbnail_photo_abc123.jpg'),
+        entry('legacy.pdf'),
+        entry('stray.bin'),
+      ],
+    };
+
+    mockBucket = {
+      list: vi.fn(async (folder: string) => ({ data: folders[folder] ?? [], error: null })),
+      remove: vi.fn().mockResolvedValue({ data: [], error: null }),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  const init = () =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        directory: 'uploads',
+        retry: false,
+      })
+    );
+
+  const files: StrapiFile[] = [
+    {
+      name: 'photo.jpg',
+      hash: 'photo_abc123',
+      ext: '.jpg',
+      mime: 'image/jpeg',
+      size: 1,
+      url: 'https://test.supabase.co/storage/v1/object/public/test-bucket/uploads/photo_abc123.jpg',
+      provider_metadata: { bucket: 'test-bucket', key: 'uploads/photo_abc123.jpg' },
+      formats: {
+        thumbnail: {
+          name: 'thumbnail_photo.jpg',
+          hash: 'thumbnail_photo_abc123',
+          ext: '.jpg',
+          mime: 'image/jpeg',
+          size: 1,
+          url: 'https://test.supabase.co/storage/v1/object/public/test-bucket/uploads/thumbnail_photo_abc123.jpg',
+        },
+        small: {
+          name: 'small_photo.jpg',
+          hash: 'small_photo_abc123',
+          ext: '.jpg',
+          mime: 'image/jpeg',
+          size: 1,
+          url: 'https://test.supabase.co/storage/v1/render/image/public/test-bucket/uploads/photo_abc123.jpg?width=500',
+          provider_metadata: { bucket: 'test-bucket', key: 'uploads/photo_abc123.jpg', transform: { width: 500 } },
+        },
+      },
+    },
+    { name: 'legacy.pdf', hash: 'legacy', ext: '.pdf', mime: 'application/pdf', size: 1, url: '' },
+    { name: 'gone.pdf', hash: 'gone', ext: '.pdf', mime: 'application/pdf', size: 1, url: '' },
+    {
+      name: 'other.pdf',
+      hash: 'other',
+      ext: '.pdf',
+      mime: 'application/pdf',
+      size: 1,
+      url: 'other.pdf',
+      provider_metadata: { bucket: 'archive', key: 'uploads/other.pdf' },
+    },
+  ];
+
+  it('should match file records, their formats and recomputed keys against the directory', async () => {
+    const report = await init().reconcile({ files });
+
+    expect(mockBucket.list).toHaveBeenCalledWith('uploads', expect.objectContaining({ limit: 1000, offset: 0 }));
+    expect(report.orphans.map((orphan) => orphan.key)).toEqual(['uploads/stray.bin']);
+    expect(report.missing).toEqual(['uploads/gone.pdf']);
+    expect(report.dryRun).toBe(true);
+    expect(mockBucket.remove).not.toHaveBeenCalled();
+  });
+
+  it('should delete expired orphans when dryRun is false', async () => {
+    const report = await init().reconcile({ files: [...files, 'uploads/legacy.pdf'], dryRun: false });
+
+    expect(mockBucket.remove).toHaveBeenCalledWith(['uploads/stray.bin']);
+    expect(report.deleted).toEqual(['uploads/stray.bin']);
+  });
+});
+
+describe('Migration', () => {
+  let mockBucket: any;
+  let root: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    root = await mkdtemp(join(tmpdir(), 'migration-'));
+    await mkdir(join(root, 'uploads'));
+    await writeFile(join(root, 'uploads', 'photo_abc123.jpg'), 'original');
+    await writeFile(join(root, 'uploads', 'thumbnail_photo_abc123.jpg'), 'thumbnail');
+
+    mockBucket = {
+      upload: vi.fn(async (path: string) => ({ data: { path }, error: null })),
+      getPublicUrl: vi.fn((path: string) => ({
+        data: { publicUrl: `https://test.supabase.co/storage/v1/object/public/test-bucket/${path}` },
+      })),
+    };
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const init = (options: any = {}) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        directory: 'uploads',
+        retry: false,
+        ...options,
+      })
+    );
+
+  const createRecord = (): StrapiFile => ({
+    id: 7,
+    name: 'photo.jpg',
+    hash: 'photo_abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 0.01,
+    url: '/uploads/photo_abc123.jpg',
+    provider: 'local',
+    formats: {
+      thumbnail: {
+        name: 'thumbnail_photo.jpg',
+        hash: 'thumbnail_photo_abc123',
+        ext: '.jpg',
+        mime: 'image/jpeg',
+        size: 0.01,
+        url: '/uploads/thumbnail_photo_abc123.jpg',
+      },
+    },
+  });
+
+  it('should copy local files under the keys upload would use and rewrite the records', async () => {
+    const record = createRecord();
+
+    const report = await init({ keyStrategy: 'hash-sharded' }).migrate({ files: [record], source: { root } });
+
+    expect(report).toEqual({ migrated: 1, skipped: 0, failed: [] });
+    const key = getPathKey(record, 'uploads', 'hash-sharded');
+    expect(mockBucket.upload).toHaveBeenCalledWith(key, Buffer.from('original'), expect.objectContaining({ contentType: 'image/jpeg' }));
+    expect(record).toMatchObject({
+      url: `https://test.supabase.co/storage/v1/object/public/test-bucket/${key}`,
+      provider: 'strapi-provider-upload-supabase-bucket',
+      provider_metadata: { bucket: 'test-bucket', key },
+    });
+    expect(record.formats!.thumbnail.provider_metadata).toEqual({
+      bucket: 'test-bucket',
+      key: getPathKey(record.formats!.thumbnail, 'uploads', 'hash-sharded'),
+    });
+  });
+
+  it('should store keys as urls for private buckets', async () => {
+    const record = createRecord();
+
+    await init({ publicFiles: false }).migrate({ files: [record], source: { root }, provider: 'supabase' });
+
+    expect(record).toMatchObject({ url: 'uploads/photo_abc123.jpg', provider: 'supabase' });
+    expect(record.formats!.thumbnail.url).toBe('uploads/thumbnail_photo_abc123.jpg');
+  });
+
+  it('should point formats at the original when they are rendered on the fly', async () => {
+    const record = createRecord();
+
+    await init({ imageTransformations: true }).migrate({ files: [record], source: { root } });
+
+    expect(mockBucket.upload).toHaveBeenCalledTimes(1);
+    expect(record.formats!.thumbnail.provider_metadata).toMatchObject({ key: 'uploads/photo_abc123.jpg', transform: { width: 245 } });
+  });
+});
+
+describe('Soft Delete', () => {
+  let stored: Map<string, { metadata?: Record<string, unknown>; updated_at: string }>;
+  let mockBucket: any;
+  let fetchSpy: any;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'photo.jpg',
+    hash: 'photo_abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 0.01,
+    url: 'https://test.supabase.co/storage/v1/object/public/test-bucket/uploads/photo_abc123.jpg',
+    provider_metadata: { bucket: 'test-bucket', key: 'uploads/photo_abc123.jpg' },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const old = new Date(Date.now() - 40 * 86400 * 1000).toISOString();
+    stored = new Map([['uploads/photo_abc123.jpg', { metadata: { originalName: 'photo.jpg' }, updated_at: old }]]);
+    const notFound = { data: null, error: { statusCode: '404', error: 'not_found', message: 'Object not found' } };
+    mockBucket = {
+      move: vi.fn(async (from: string, to: string) => {
+        if (!stored.has(from)) {
+          return notFound;
+        }
+        if (stored.has(to)) {
+          return { data: null, error: { statusCode: '409', error: 'Duplicate', message: 'The resource already exists' } };
+        }
+        stored.set(to, stored.get(from)!);
+        stored.delete(from);
+        return { data: { message: 'Successfully moved' }, error: null };
+      }),
+      info: vi.fn(async (path: string) => (stored.has(path) ? { data: { metadata: stored.get(path)!.metadata }, error: null } : notFound)),
+      exists: vi.fn(async (path: string) => ({ data: stored.has(path), error: null })),
+      upload: vi.fn(async (path: string) => {
+        stored.set(path, { updated_at: new Date().toISOString() });
+        return { data: { path }, error: null };
+      }),
+      remove: vi.fn(async (paths: string[]) => {
+        paths.forEach((path) => stored.delete(path));
+        return { data: [], error: null };
+      }),
+      list: vi.fn(async (folder: string) => {
+        const entries = new Map<string, object>();
+        for (const [key, object] of stored) {
+          if (key.startsWith(`${folder}/`)) {
+            const [name, ...rest] = key.slice(folder.length + 1).split('/');
+            entries.set(name, rest.length ? { name, id: null } : { name, id: key, updated_at: object.updated_at });
+          }
+        }
+        return { data: [...entries.values()], error: null };
+      }),
+    };
+
+    // Server-side copy: applies the x-metadata header to the destination, unless the source's metadata is copied
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url: any, init: any) => {
+      const { sourceKey, destinationKey, copyMetadata = true } = JSON.parse(init.body);
+      if (!stored.has(sourceKey)) {
+        return new Response(JSON.stringify({ statusCode: '404', message: 'Object not found' }), { status: 400 });
+      }
+      const metadata = JSON.parse(Buffer.from(init.headers['x-metadata'], 'base64').toString('utf8'));
+      stored.set(destinationKey, { ...stored.get(sourceKey)!, ...(!copyMetadata && { metadata }) });
+      return new Response(JSON.stringify({ Key: destinationKey }));
+    });
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  const init = (options: any = { softDelete: true }) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        directory: 'uploads',
+        retry: false,
+        ...options,
+      })
+    );
+
+  it('should move deleted files to the trash with their deletion time', async () => {
+    await init().delete(createMockFile());
+
+    expect(mockBucket.move).toHaveBeenCalledWith('uploads/photo_abc123.jpg', '.trash/uploads/photo_abc123.jpg');
+    expect(mockBucket.remove).not.toHaveBeenCalledWith(['uploads/photo_abc123.jpg']);
+    expect(stored.has('uploads/photo_abc123.jpg')).toBe(false);
+    expect(stored.get('.trash/uploads/photo_abc123.jpg')!.metadata).toEqual({
+      originalName: 'photo.jpg',
+      deletedAt: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+    });
+  });
+
+  it('should replace an earlier trashed copy of the same key', async () => {
+    stored.set('.trash/uploads/photo_abc123.jpg', { metadata: { stale: true }, updated_at: new Date().toISOString() });
+
+    await init({ softDelete: { prefix: '/.trash/' } }).delete(createMockFile());
+
+    expect(mockBucket.move).toHaveBeenCalledTimes(2);
+    expect(stored.get('.trash/uploads/photo_abc123.jpg')!.metadata).toMatchObject({ originalName: 'photo.jpg' });
+  });
+
+  it('should still trash the file when the deletion time cannot be recorded', async () => {
+    fetchSpy.mockResolvedValue(new Response('{}', { status: 500 }));
+
+    await expect(init().delete(createMockFile())).resolves.toBeUndefined();
+
+    expect(stored.has('.trash/uploads/photo_abc123.jpg')).toBe(true);
+  });
+
+  it('should resolve when the object is already gone', async () => {
+    stored.clear();
+
+    await expect(init().delete(createMockFile())).resolves.toBeUndefined();
+  });
+
+  it('should restore the file and its formats and clear the deletion time', async () => {
+    stored.set('uploads/thumbnail_photo_abc123.jpg', { updated_at: new Date().toISOString() });
+    const file = createMockFile({
+      formats: {
+        thumbnail: createMockFile({
+          hash: 'thumbnail_photo_abc123',
+          url: 'https://test.supabase.co/storage/v1/object/public/test-bucket/uploads/thumbnail_photo_abc123.jpg',
+          provider_metadata: null,
+        }),
+      },
+    });
+    const provider = init();
+    await provider.delete(file);
+    await provider.delete(file.formats!.thumbnail);
+
+    await provider.restore(file);
+
+    expect(stored.get('uploads/photo_abc123.jpg')!.metadata).toEqual({ originalName: 'photo.jpg' });
+    expect(stored.has('uploads/thumbnail_photo_abc123.jpg')).toBe(true);
+    expect([...stored.keys()].some((key) => key.startsWith('.trash/'))).toBe(false);
+  });
+
+  it('should not restore over a file stored at the same key since', async () => {
+    const provider = init();
+    await provider.delete(createMockFile());
+    stored.set('uploads/photo_abc123.jpg', { updated_at: new Date().toISOString() });
+
+    const error = await provider.restore(createMockFile()).catch((e) => e);
+
+    expect(error).toBeInstanceOf(initProvider.ConflictError);
+    expect(stored.has('.trash/uploads/photo_abc123.jpg')).toBe(true);
+  });
+
+  it('should give shared content its reference back', async () => {
+    const file = createMockFile({ provider_metadata: { bucket: 'test-bucket', key: 'uploads/photo_abc123.jpg', dedup: true } });
+
+    // Still referenced by another file, so it was never trashed
+    await init({ softDelete: true, dedup: true }).restore(file);
+
+    expect(mockBucket.move).not.toHaveBeenCalled();
+    expect(mockBucket.upload).toHaveBeenCalledWith(
+      '.refs/uploads/photo_abc123.jpg/photo_abc123',
+      expect.anything(),
+      expect.anything()
+    );
+  });
+
+  it('should purge trashed objects older than the retention period', async () => {
+    stored.set('.trash/uploads/old.jpg', stored.get('uploads/photo_abc123.jpg')!);
+    stored.set('.trash/uploads/recent.jpg', { updated_at: new Date(Date.now() - 1000).toISOString() });
+
+    const report = await init().purgeTrash();
+
+    expect(report).toEqual({ bucket: 'test-bucket', scanned: 2, purged: ['.trash/uploads/old.jpg'], failed: [] });
+    expect(stored.has('uploads/photo_abc123.jpg')).toBe(true);
+    expect((await init().purgeTrash({ retention: 0 })).purged).toEqual(['.trash/uploads/recent.jpg']);
+  });
+
+  it('should require softDelete for restore and purgeTrash', async () => {
+    await expect(init({}).restore(createMockFile())).rejects.toThrow('restore requires the softDelete option.');
+    await expect(init({}).purgeTrash()).rejects.toBeInstanceOf(initProvider.ConfigError);
+    expect(() => init({ softDelete: { prefix: '/' } })).toThrow('softDelete.prefix must not be empty.');
+  });
+});
+
+describe('Versioning', () => {
+  let stored: Map<string, { content: string; metadata?: Record<string, unknown> }>;
+  let mockBucket: any;
+  let fetchSpy: any;
+
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'photo.jpg',
+    hash: 'photo_abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 0.01,
+    url: '',
+    buffer: Buffer.from('new'),
+    ...overrides,
+  });
+
+  const notFound = { data: null, error: { statusCode: '404', error: 'not_found', message: 'Object not found' } };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    stored = new Map([['uploads/photo_abc123.jpg', { content: 'old', metadata: { originalName: 'photo.jpg' } }]]);
+    mockBucket = {
+      upload: vi.fn(async (path: string, body: Buffer) => {
+        stored.set(path, { content: body.toString() });
+        return { data: { path }, error: null };
+      }),
+      copy: vi.fn(async (from: string, to: string) => {
+        if (!stored.has(from)) {
+          return notFound;
+        }
+        if (stored.has(to)) {
+          return { data: null, error: { statusCode: '409', error: 'Duplicate', message: 'The resource already exists' } };
+        }
+        stored.set(to, { ...stored.get(from)! });
+        return { data: { path: to }, error: null };
+      }),
+      info: vi.fn(async (path: string) => (stored.has(path) ? { data: { metadata: stored.get(path)!.metadata }, error: null } : notFound)),
+      exists: vi.fn(async (path: string) => ({ data: stored.has(path), error: null })),
+      remove: vi.fn(async (paths: string[]) => {
+        paths.forEach((path) => stored.delete(path));
+        return { data: [], error: null };
+      }),
+      list: vi.fn(async (folder: string) => ({
+        data: [...stored.keys()]
+          .filter((key) => key.startsWith(`${folder}/`))
+          .map((key) => ({ name: key.slice(folder.length + 1), id: key, metadata: { size: 3 } })),
+        error: null,
+      })),
+      getPublicUrl: vi.fn((path: string) => ({
+        data: { publicUrl: `https://test.supabase.co/storage/v1/object/public/test-bucket/${path}` },
+      })),
+    };
+
+    // Server-side copy with metadata, used to restore versions; the source's metadata wins when it is copied
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url: any, init: any) => {
+      const { sourceKey, destinationKey, copyMetadata = true } = JSON.parse(init.body);
+      if (!stored.has(sourceKey)) {
+        return new Response(JSON.stringify({ statusCode: '404', message: 'Object not found' }), { status: 400 });
+      }
+      const source = stored.get(sourceKey)!;
+      const metadata = JSON.parse(Buffer.from(init.headers['x-metadata'], 'base64').toString('utf8'));
+      stored.set(destinationKey, { content: source.content, metadata: copyMetadata ? source.metadata : metadata });
+      return new Response(JSON.stringify({ Key: destinationKey }));
+    });
+
+    vi.resetModules();
+    const storageMock = await import('@supabase/storage-js');
+    vi.mocked(storageMock.StorageClient).mockImplementation(() => ({ from: vi.fn(() => mockBucket) }) as any);
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  const init = (options: any = { versioning: true }) =>
+    initProvider.init(
+      createMockConfig({
+        apiUrl: 'https://test.supabase.co',
+        apiKey: 'test-key',
+        bucket: 'test-bucket',
+        directory: 'uploads',
+        retry: false,
+        ...options,
+      })
+    );
+
+  const versionKeys = (key: string) => [...stored.keys()].filter((candidate) => candidate.startsWith(`${key}.versions/`)).sort();
+
+  it('should keep the previous object as a version before overwriting it', async () => {
+    await init().upload(createMockFile());
+
+    const [version] = versionKeys('uploads/photo_abc123.jpg');
+    expect(version).toMatch(/^uploads\/photo_abc123\.jpg\.versions\/\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/);
+    expect(stored.get(version)!.content).toBe('old');
+    expect(stored.get('uploads/photo_abc123.jpg')!.content).toBe('new');
+    expect(mockBucket.copy.mock.invocationCallOrder[0]).toBeLessThan(mockBucket.upload.mock.invocationCallOrder[0]);
+  });
+
+  it('should upload new keys without a version', async () => {
+    await init().upload(createMockFile({ hash: 'other_abc123' }));
+
+    expect(versionKeys('uploads/other_abc123.jpg')).toEqual([]);
+    expect(stored.has('uploads/other_abc123.jpg')).toBe(true);
+  });
+
+  it('should fail the upload when the previous version cannot be kept', async () => {
+    mockBucket.copy.mockResolvedValue({ data: null, error: { statusCode: '403', message: 'Permission denied' } });
+
+    await expect(init().upload(createMockFile())).rejects.toThrow('Failed to keep the previous version');
+    expect(mockBucket.upload).not.toHaveBeenCalled();
+  });
+
+  it('should not version uploads that never overwrite', async () => {
+    await init({ versioning: true, onConflict: 'rename' }).upload(createMockFile());
+
+    expect(mockBucket.copy).not.toHaveBeenCalled();
+  });
+
+  it('should prune to maxVersions after each overwrite', async () => {
+    stored.set('uploads/photo_abc123.jpg.versions/2025-01-01T00-00-00-000Z', { content: 'oldest' });
+    stored.set('uploads/photo_abc123.jpg.versions/2025-02-01T00-00-00-000Z', { content: 'older' });
+
+    await init({ versioning: { maxVersions: 2 } }).upload(createMockFile());
+
+    const versions = versionKeys('uploads/photo_abc123.jpg');
+    expect(versions).toHaveLength(2);
+    expect(versions[0]).toBe('uploads/photo_abc123.jpg.versions/2025-02-01T00-00-00-000Z');
+    expect(() => init({ versioning: { maxVersions: 0 } })).toThrow('versioning.maxVersions must be a positive integer');
+  });
+
+  it('should list versions newest first', async () => {
+    stored.set('uploads/photo_abc123.jpg.versions/2025-01-01T00-00-00-000Z', { content: 'a' });
+    stored.set('uploads/photo_abc123.jpg.versions/2025-02-01T00-00-00-000Z', { content: 'b' });
+
+    const versions = await init().listVersions(createMockFile());
+
+    expect(versions.map((version) => version.id)).toEqual(['2025-02-01T00-00-00-000Z', '2025-01-01T00-00-00-000Z']);
+    expect(versions[0]).toMatchObject({ key: 'uploads/photo_abc123.jpg.versions/2025-02-01T00-00-00-000Z', size: 3 });
+  });
+
+  it('should restore a version and the format versions from the same upload', async () => {
+    const thumbnail = 'uploads/thumbnail_photo_abc123.jpg';
+    stored.set('uploads/photo_abc123.jpg.versions/2025-01-01T00-00-00-000Z', { content: 'v1', metadata: { originalName: 'v1.jpg' } });
+    stored.set('uploads/photo_abc123.jpg.versions/2025-02-01T00-00-00-000Z', { content: 'v2' });
+    stored.set(thumbnail, { content: 'thumb current' });
+    stored.set(`${thumbnail}.versions/2025-01-01T00-00-00-500Z`, { content: 'thumb v1' });
+    stored.set(`${thumbnail}.versions/2025-02-01T00-00-00-500Z`, { content: 'thumb v2' });
+    const file = createMockFile({
+      buffer: undefined,
+      provider_metadata: { bucket: 'test-bucket', key: 'uploads/photo_abc123.jpg' },
+      formats: { thumbnail: createMockFile({ hash: 'thumbnail_photo_abc123', buffer: undefined }) },
+    });
+
+    await init().restoreVersion(file, '2025-01-01T00-00-00-000Z');
+
+    expect(stored.get('uploads/photo_abc123.jpg')).toEqual({ content: 'v1', metadata: { originalName: 'v1.jpg' } });
+    expect(stored.get(thumbnail)!.content).toBe('thumb v1');
+    // The replaced objects are kept as versions of their own
+    expect(versionKeys('uploads/photo_abc123.jpg').map((key) => stored.get(key)!.content)).toContain('old');
+    expect(versionKeys(thumbnail).map((key) => stored.get(key)!.content)).toContain('thumb current');
+  });
+
+  it('should reject unknown versions', async () => {
+    const error = await init().restoreVersion(createMockFile(), '2025-01-01T00-00-00-000Z').catch((e) => e);
+
+    expect(error).toBeInstanceOf(initProvider.NotFoundError);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should prune the versions of a file and its formats', async () => {
+    stored.set('uploads/photo_abc123.jpg.versions/2025-01-01T00-00-00-000Z', { content: 'a' });
+    stored.set('uploads/photo_abc123.jpg.versions/2025-02-01T00-00-00-000Z', { content: 'b' });
+    stored.set('uploads/small_photo_abc123.jpg.versions/2025-01-01T00-00-00-500Z', { content: 'c' });
+    stored.set('uploads/small_photo_abc123.jpg.versions/2025-02-01T00-00-00-500Z', { content: 'd' });
+    const file = createMockFile({ formats: { small: createMockFile({ hash: 'small_photo_abc123' }) } });
+
+    const removed = await init({}).pruneVersions(file, 1);
+
+    expect(removed.map((version) => version.key).sort()).toEqual([
+      'uploads/photo_abc123.jpg.versions/2025-01-01T00-00-00-000Z',
+      'uploads/small_photo_abc123.jpg.versions/2025-01-01T00-00-00-500Z',
+    ]);
+    expect(versionKeys('uploads/photo_abc123.jpg')).toEqual(['uploads/photo_abc123.jpg.versions/2025-02-01T00-00-00-000Z']);
+    await expect(init({}).pruneVersions(file, -1)).rejects.toBeInstanceOf(initProvider.InvalidOptionsError);
+  });
+
+  it('should remove the versions of deleted files', async () => {
+    stored.set('uploads/photo_abc123.jpg.versions/2025-01-01T00-00-00-000Z', { content: 'a' });
+
+    await init().delete(createMockFile({ provider_metadata: { bucket: 'test-bucket', key: 'uploads/photo_abc123.jpg' } }));
+
+    expect([...stored.keys()]).toEqual([]);
+  });
+
+  it('should keep the deleted object as a version with keepDeleted', async () => {
+    stored.set('uploads/photo_abc123.jpg.versions/2025-01-01T00-00-00-000Z', { content: 'a' });
+
+    await init({ versioning: { keepDeleted: true } }).delete(createMockFile({ provider_metadata: { bucket: 'test-bucket', key: 'uploads/photo_abc123.jpg' } }));
+
+    expect(stored.has('uploads/photo_abc123.jpg')).toBe(false);
+    expect(versionKeys('uploads/photo_abc123.jpg').map((key) => stored.get(key)!.content)).toEqual(['a', 'old']);
+  });
+
+  it('should keep history with keepDeleted when Strapi replaces a file by deleting then uploading it', async () => {
+    const thumbnail = 'uploads/thumbnail_photo_abc123.jpg';
+    stored.set(thumbnail, { content: 'old thumb' });
+    const dbFile = createMockFile({
+      buffer: undefined,
+      url: 'https://test.supabase.co/storage/v1/object/public/test-bucket/uploads/photo_abc123.jpg',
+      provider_metadata: { bucket: 'test-bucket', key: 'uploads/photo_abc123.jpg' },
+      formats: { thumbnail: createMockFile({ hash: 'thumbnail_photo_abc123', buffer: undefined, provider_metadata: { bucket: 'test-bucket', key: thumbnail } }) },
+    });
+    const provider = init({ versioning: { maxVersions: 5, keepDeleted: true } });
+
+    // @strapi/upload replace: delete the file and its formats, then upload with the same hash and ext
+    await provider.delete(dbFile);
+    await provider.delete(dbFile.formats!.thumbnail);
+    await provider.upload(createMockFile());
+    await provider.upload(createMockFile({ hash: 'thumbnail_photo_abc123', buffer: Buffer.from('new thumb') }));
+
+    const versions = await provider.listVersions(createMockFile());
+    expect(versions.map((version) => stored.get(version.key)!.content)).toEqual(['old']);
+    expect(stored.get('uploads/photo_abc123.jpg')!.content).toBe('new');
+
+    await provider.restoreVersion(dbFile, versions[0].id);
+
+    expect(stored.get('uploads/photo_abc123.jpg')!.content).toBe('old');
+    expect(stored.get(thumbnail)!.content).toBe('old thumb');
+  });
+
+  it('should give snapshots taken in the same millisecond distinct versions', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2025-06-01T12:00:00Z') });
+    try {
+      const provider = init();
+      await provider.upload(createMockFile({ buffer: Buffer.from('second') }));
+      await provider.upload(createMockFile({ buffer: Buffer.from('third') }));
+
+      expect(versionKeys('uploads/photo_abc123.jpg')).toEqual([
+        'uploads/photo_abc123.jpg.versions/2025-06-01T12-00-00-000Z',
+        'uploads/photo_abc123.jpg.versions/2025-06-01T12-00-00-001Z',
+      ]);
+      expect(versionKeys('uploads/photo_abc123.jpg').map((key) => stored.get(key)!.content)).toEqual(['old', 'second']);
+      expect(stored.get('uploads/photo_abc123.jpg')!.content).toBe('third');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
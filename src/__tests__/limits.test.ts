@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { createSizePolicy, createSizeLimitError, limitStream } from '../limits.js';
+import { PayloadTooLargeError } from '../errors.js';
+import { StrapiFile } from '../types.js';
+
+const MB = 1000 * 1000;
+
+const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+  name: 'photo.jpg',
+  hash: 'photo_abc123',
+  ext: '.jpg',
+  mime: 'image/jpeg',
+  size: 100,
+  url: '',
+  ...overrides,
+});
+
+const route = { bucket: 'media', directory: '', publicFiles: true };
+
+describe('createSizePolicy', () => {
+  const policy = createSizePolicy([
+    { mime: 'image/gif', maxSize: 20 * MB },
+    { mime: 'image/*', maxSize: 10 * MB },
+    { ext: ['pdf', '.PDF'], maxSize: 25 * MB },
+  ]);
+
+  it('should apply the first matching entry', () => {
+    expect(policy.resolve(createMockFile({ mime: 'image/gif', ext: '.gif' }), route)).toEqual({
+      maxSize: 20 * MB,
+      label: 'for image/gif files',
+    });
+    expect(policy.resolve(createMockFile(), route)).toEqual({ maxSize: 10 * MB, label: 'for image/* files' });
+    expect(policy.resolve(createMockFile({ mime: 'application/pdf', ext: '.pdf' }), route)?.label).toBe(
+      'for .pdf or .PDF files'
+    );
+  });
+
+  it('should return undefined when nothing applies', () => {
+    expect(policy.resolve(createMockFile({ mime: 'video/mp4', ext: '.mp4' }), route)).toBeUndefined();
+  });
+
+  it('should pick the strictest of global, entry and route limits', () => {
+    expect(policy.resolve(createMockFile(), route, 5 * MB)).toEqual({ maxSize: 5 * MB });
+    expect(policy.resolve(createMockFile(), { ...route, directory: 'images', sizeLimit: 2 * MB }, 500 * MB)).toEqual({
+      maxSize: 2 * MB,
+      label: 'for uploads to media/images',
+    });
+  });
+});
+
+describe('createSizeLimitError', () => {
+  it('should explain the rule with human readable sizes', () => {
+    const error = createSizeLimitError(createMockFile(), { maxSize: 10 * MB, label: 'for image/* files' }, 12 * MB);
+
+    expect(error).toBeInstanceOf(PayloadTooLargeError);
+    expect(error.status).toBe(413);
+    expect(error.message).toBe('photo.jpg exceeds size limit of 10.00 MB for image/* files (12.00 MB)');
+  });
+});
+
+describe('limitStream', () => {
+  const read = async (stream: Readable) => {
+    const chunks: Buffer[] = [];
+    for await (const piece of stream) {
+      chunks.push(piece);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  it('should pass streams under the limit through', async () => {
+    const guard = limitStream(Readable.from([Buffer.alloc(6), Buffer.alloc(4)]), createMockFile(), { maxSize: 10 });
+
+    expect((await read(guard.stream)).length).toBe(10);
+    expect(guard.error).toBeUndefined();
+  });
+
+  it('should fail once more bytes than allowed are read', async () => {
+    const source = Readable.from([Buffer.alloc(6), Buffer.alloc(6), Buffer.alloc(6)]);
+    const guard = limitStream(source, createMockFile(), { maxSize: 10, label: 'for image/* files' });
+
+    await expect(read(guard.stream)).rejects.toThrow('photo.jpg exceeds size limit of 10.00 Bytes for image/* files');
+    expect(guard.error).toBeInstanceOf(PayloadTooLargeError);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(source.destroyed).toBe(true);
+  });
+});
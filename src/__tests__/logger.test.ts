@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createLogger, getErrorFields } from '../logger.js';
+import { NotFoundError } from '../errors.js';
+
+const createTarget = () => ({ error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() });
+
+describe('createLogger', () => {
+  afterEach(() => {
+    delete (globalThis as any).strapi;
+    vi.restoreAllMocks();
+  });
+
+  it('should prefix messages and pass fields to the configured logger', () => {
+    const target = createTarget();
+    const logger = createLogger(target);
+
+    logger.debug('Upload complete', { operation: 'upload', bucket: 'media', path: 'a.jpg', duration: 12 });
+
+    expect(target.debug).toHaveBeenCalledWith('[Supabase Provider] Upload complete', {
+      operation: 'upload',
+      bucket: 'media',
+      path: 'a.jpg',
+      duration: 12,
+    });
+  });
+
+  it('should default to strapi.log once Strapi is loaded', () => {
+    const logger = createLogger();
+    const strapiLog = createTarget();
+    (globalThis as any).strapi = { log: strapiLog };
+
+    logger.warn('Failed to generate signed URL', { code: 'NOT_FOUND' });
+
+    expect(strapiLog.warn).toHaveBeenCalledWith('[Supabase Provider] Failed to generate signed URL', { code: 'NOT_FOUND' });
+  });
+
+  it('should fall back to console and skip debug entries', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => {});
+    const logger = createLogger();
+
+    logger.error('Upload failed', { path: 'a.jpg' });
+    logger.debug('Upload complete');
+
+    expect(error).toHaveBeenCalledWith('[Supabase Provider] Upload failed', { path: 'a.jpg' });
+    expect(debug).not.toHaveBeenCalled();
+  });
+});
+
+describe('getErrorFields', () => {
+  it('should include the provider error code', () => {
+    expect(getErrorFields(new NotFoundError('Object not found'))).toEqual({ error: 'Object not found', code: 'NOT_FOUND' });
+  });
+
+  it('should handle plain values', () => {
+    expect(getErrorFields('boom')).toEqual({ error: 'boom' });
+  });
+});
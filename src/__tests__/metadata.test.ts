@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createMetadataMapper, copyObjectWithMetadata, hasStoredMetadata, MAX_METADATA_VALUE_LENGTH } from '../metadata.js';
+import { StrapiFile } from '../types.js';
+
+const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+  name: 'photo.jpg',
+  hash: 'photo_abc123',
+  ext: '.jpg',
+  mime: 'image/jpeg',
+  size: 100,
+  url: '',
+  ...overrides,
+});
+
+describe('createMetadataMapper', () => {
+  it('should be off unless configured', () => {
+    expect(createMetadataMapper()).toBeUndefined();
+    expect(createMetadataMapper(false)).toBeUndefined();
+  });
+
+  it('should copy the Strapi fields that are set', () => {
+    const map = createMetadataMapper(true)!;
+    const file = createMockFile({ id: 7, documentId: 'doc1', caption: 'Sunset', alternativeText: '', createdBy: { id: 3 } });
+
+    expect(map(file)).toEqual({
+      originalName: 'photo.jpg',
+      hash: 'photo_abc123',
+      fileId: 7,
+      documentId: 'doc1',
+      caption: 'Sunset',
+      uploadedBy: 3,
+    });
+  });
+
+  it('should limit fields and merge the mapper output', () => {
+    const map = createMetadataMapper({
+      fields: ['name'],
+      map: (file) => ({ tenant: 'acme', originalName: file.name.toUpperCase(), skipped: undefined }),
+    })!;
+
+    expect(map(createMockFile({ caption: 'ignored' }))).toEqual({ originalName: 'PHOTO.JPG', tenant: 'acme' });
+  });
+
+  it('should truncate long values', () => {
+    const map = createMetadataMapper({ fields: ['caption'] })!;
+
+    expect((map(createMockFile({ caption: 'x'.repeat(5000) })).caption as string).length).toBe(MAX_METADATA_VALUE_LENGTH);
+  });
+});
+
+describe('hasStoredMetadata', () => {
+  it('should compare with the camel-cased keys storage-js returns', () => {
+    expect(hasStoredMetadata({ altText: 'a', fileId: 1, extra: true }, { alt_text: 'a', fileId: 1 })).toBe(true);
+    expect(hasStoredMetadata({ fileId: 2 }, { fileId: 1 })).toBe(false);
+    expect(hasStoredMetadata(undefined, { fileId: 1 })).toBe(false);
+  });
+});
+
+describe('copyObjectWithMetadata', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const options = {
+    endpoint: 'https://test.supabase.co/storage/v1',
+    headers: { apikey: 'test-key', Authorization: 'Bearer test-key' },
+    bucket: 'media',
+    sourceKey: 'a.jpg',
+    destinationKey: 'b.jpg',
+    metadata: { caption: 'Café' },
+  };
+
+  it('should post a copy with the metadata header instead of the source metadata', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify({ Key: 'media/b.jpg' })));
+    const copy = { ...options, contentType: 'image/jpeg', cacheControl: 'max-age=3600' };
+
+    await expect(copyObjectWithMetadata(copy)).resolves.toEqual({ data: { path: 'b.jpg' }, error: null });
+
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe('https://test.supabase.co/storage/v1/object/copy');
+    expect(JSON.parse(Buffer.from(headers['x-metadata'], 'base64').toString('utf8'))).toEqual({ caption: 'Café' });
+    expect(headers['x-upsert']).toBe('true');
+    expect(headers.Authorization).toBe('Bearer test-key');
+    expect(JSON.parse(init.body as string)).toEqual({
+      bucketId: 'media',
+      sourceKey: 'a.jpg',
+      destinationKey: 'b.jpg',
+      copyMetadata: false,
+      metadata: { mimetype: 'image/jpeg', cacheControl: 'max-age=3600' },
+    });
+  });
+
+  it('should resolve with the storage error body', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ statusCode: '404', error: 'not_found', message: 'Object not found' }), { status: 400 })
+    );
+
+    const { error } = await copyObjectWithMetadata(options);
+
+    expect(error).toMatchObject({ message: 'Object not found', statusCode: '404', status: 400 });
+  });
+
+  it('should resolve with network failures', async () => {
+    const failure = new TypeError('fetch failed');
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(failure);
+
+    await expect(copyObjectWithMetadata(options)).resolves.toEqual({ data: null, error: failure });
+  });
+});
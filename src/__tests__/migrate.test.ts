@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { createSourceReader, migrateFiles, MigrationRun } from '../migrate.js';
+import { InvalidOptionsError, NotFoundError } from '../errors.js';
+import { StrapiFile } from '../types.js';
+
+const silent = { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+
+const createRecord = (id: number, overrides?: Partial<StrapiFile>): StrapiFile => ({
+  id,
+  name: `photo-${id}.jpg`,
+  hash: `photo_${id}`,
+  ext: '.jpg',
+  mime: 'image/jpeg',
+  size: 1,
+  url: `/uploads/photo_${id}.jpg`,
+  provider: 'local',
+  ...overrides,
+});
+
+describe('createSourceReader', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'migrate-'));
+    await mkdir(join(root, 'uploads'));
+    await writeFile(join(root, 'uploads', 'photo 1.jpg'), 'local bytes');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should read relative urls from the local folder', async () => {
+    const read = createSourceReader({ root });
+
+    const content = await read(createRecord(1, { url: '/uploads/photo%201.jpg' }));
+
+    expect(content.toString()).toBe('local bytes');
+  });
+
+  it('should refuse paths outside of the local folder and report missing files', async () => {
+    const read = createSourceReader({ root });
+
+    await expect(read(createRecord(1, { url: '/uploads/../../etc/passwd' }))).rejects.toThrow('outside of');
+    await expect(read(createRecord(2))).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should fetch absolute urls and relative ones under baseUrl', async () => {
+    const fetchMock = vi.fn(async () => new Response('remote bytes'));
+    vi.stubGlobal('fetch', fetchMock);
+    const read = createSourceReader({ baseUrl: 'https://cdn.example.com/media/', headers: { authorization: 'token' } });
+
+    await read(createRecord(1, { url: 'https://bucket.s3.amazonaws.com/photo_1.jpg' }));
+    const content = await read(createRecord(2));
+
+    expect(content.toString()).toBe('remote bytes');
+    expect(fetchMock).toHaveBeenNthCalledWith(1, 'https://bucket.s3.amazonaws.com/photo_1.jpg', { headers: { authorization: 'token' } });
+    expect(fetchMock).toHaveBeenNthCalledWith(2, 'https://cdn.example.com/media/uploads/photo_2.jpg', expect.anything());
+  });
+
+  it('should map failed HTTP responses to typed errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })));
+    const read = createSourceReader({});
+
+    await expect(read(createRecord(1, { url: 'https://bucket.s3.amazonaws.com/gone.jpg' }))).rejects.toBeInstanceOf(NotFoundError);
+    await expect(read(createRecord(2))).rejects.toThrow('set source.root or source.baseUrl');
+  });
+
+  it('should prefer the custom reader', async () => {
+    const read = createSourceReader({ root, read: async () => Readable.from(['custom']) });
+
+    expect(await read(createRecord(1))).toBeInstanceOf(Readable);
+    expect(() => createSourceReader({ baseUrl: 'not a url' })).toThrow(InvalidOptionsError);
+  });
+});
+
+describe('migrateFiles', () => {
+  let copied: string[];
+  let run: MigrationRun;
+
+  beforeEach(() => {
+    copied = [];
+    run = {
+      read: vi.fn(async (file: StrapiFile) => Buffer.from(file.url)),
+      copy: vi.fn(async (file: StrapiFile) => {
+        copied.push(file.hash);
+        file.url = `https://example.supabase.co/uploads/${file.hash}${file.ext}`;
+        file.provider_metadata = { bucket: 'media', key: `uploads/${file.hash}${file.ext}` };
+      }),
+      concurrency: 2,
+      provider: 'strapi-provider-upload-supabase-bucket',
+      logger: silent,
+    };
+  });
+
+  it('should copy originals before their formats and rewrite the records', async () => {
+    const record = createRecord(1, {
+      provider_metadata: { legacy: true },
+      formats: { thumbnail: createRecord(1, { hash: 'thumbnail_photo_1', url: '/uploads/thumbnail_photo_1.jpg' }) },
+    });
+
+    const report = await migrateFiles([record], run);
+
+    expect(report).toEqual({ migrated: 1, skipped: 0, failed: [] });
+    expect(copied).toEqual(['photo_1', 'thumbnail_photo_1']);
+    expect(record).toMatchObject({
+      url: 'https://example.supabase.co/uploads/photo_1.jpg',
+      provider: 'strapi-provider-upload-supabase-bucket',
+      provider_metadata: { bucket: 'media', key: 'uploads/photo_1.jpg' },
+      formats: { thumbnail: { url: 'https://example.supabase.co/uploads/thumbnail_photo_1.jpg' } },
+    });
+    expect(record.provider_metadata).not.toHaveProperty('legacy');
+    expect(record).not.toHaveProperty('buffer');
+  });
+
+  it('should keep at most `concurrency` records in flight', async () => {
+    let active = 0;
+    let peak = 0;
+    run.copy = async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+    };
+
+    async function* records() {
+      for (let id = 1; id <= 6; id++) {
+        yield createRecord(id);
+      }
+    }
+    const report = await migrateFiles(records(), run);
+
+    expect(report.migrated).toBe(6);
+    expect(peak).toBe(2);
+  });
+
+  it('should report failures and leave failed records untouched', async () => {
+    const record = createRecord(1, {
+      formats: { thumbnail: createRecord(1, { hash: 'thumbnail_photo_1', url: '/uploads/missing.jpg' }) },
+    });
+    run.read = async (file) => {
+      if (file.url === '/uploads/missing.jpg') {
+        throw new NotFoundError('Failed to read /uploads/missing.jpg: file not found');
+      }
+      return Buffer.from('bytes');
+    };
+
+    const report = await migrateFiles([record, createRecord(2)], run);
+
+    expect(report.migrated).toBe(1);
+    expect(report.failed).toEqual([
+      { id: 1, name: 'photo-1.jpg', url: '/uploads/photo_1.jpg', error: 'Failed to read /uploads/missing.jpg: file not found', code: 'NOT_FOUND' },
+    ]);
+    expect(record).toMatchObject({ url: '/uploads/photo_1.jpg', provider: 'local' });
+    expect(silent.warn).toHaveBeenCalledWith('Migration failed', expect.objectContaining({ operation: 'migrate', code: 'NOT_FOUND' }));
+  });
+
+  it('should resume from the checkpoint file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'migrate-'));
+    const checkpoint = join(dir, 'checkpoint');
+    const onMigrated = vi.fn();
+    try {
+      await writeFile(checkpoint, '1\n2\n3');
+
+      const report = await migrateFiles([1, 2, 3, 4].map((id) => createRecord(id)), { ...run, checkpoint, onMigrated });
+
+      expect(report).toEqual({ migrated: 2, skipped: 2, failed: [] });
+      expect(copied.sort()).toEqual(['photo_3', 'photo_4']);
+      expect(onMigrated).toHaveBeenCalledTimes(2);
+      expect((await readFile(checkpoint, 'utf8')).split('\n').filter(Boolean).sort()).toEqual(['1', '2', '3', '3', '4']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should not checkpoint records that could not be saved', async () => {
+    const report = await migrateFiles([createRecord(1)], {
+      ...run,
+      onMigrated: async () => {
+        throw new Error('Database unavailable');
+      },
+    });
+
+    expect(report.failed).toEqual([expect.objectContaining({ id: 1, url: '/uploads/photo_1.jpg', error: 'Database unavailable' })]);
+  });
+
+  it('should reject invalid concurrency', async () => {
+    await expect(migrateFiles([], { ...run, concurrency: 0 })).rejects.toThrow(InvalidOptionsError);
+  });
+});
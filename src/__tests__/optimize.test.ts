@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { createImageOptimizer, DEFAULT_OPTIMIZATION_RULES } from '../optimize.js';
+import { ConfigError, FileValidationError } from '../errors.js';
+import { StrapiFile } from '../types.js';
+
+const createImage = (width: number, height: number, format: 'jpeg' | 'png' | 'gif' = 'jpeg') =>
+  sharp({ create: { width, height, channels: 3, background: '#3366ff' } }).toFormat(format).toBuffer();
+
+const createFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+  name: 'photo.jpg',
+  hash: 'photo_abc123',
+  ext: '.jpg',
+  mime: 'image/jpeg',
+  size: 10,
+  url: '',
+  ...overrides,
+});
+
+describe('createImageOptimizer', () => {
+  const optimizer = createImageOptimizer(DEFAULT_OPTIMIZATION_RULES);
+
+  it('should convert JPEGs to WebP within the maximum dimensions', async () => {
+    const result = await optimizer.optimize(createFile(), await createImage(3000, 1500));
+
+    expect(result).toMatchObject({ mime: 'image/webp', ext: '.webp', width: 2560, height: 1280 });
+    expect((await sharp(result!.buffer).metadata()).format).toBe('webp');
+  });
+
+  it('should never enlarge small images', async () => {
+    const result = await optimizer.optimize(createFile(), await createImage(40, 30));
+
+    expect(result).toMatchObject({ width: 40, height: 30 });
+  });
+
+  it('should skip formats that are already optimized', async () => {
+    expect(optimizer.applies(createFile({ mime: 'image/gif', ext: '.gif' }))).toBe(false);
+    expect(await optimizer.optimize(createFile({ mime: 'image/webp', ext: '.webp' }), Buffer.alloc(0))).toBeUndefined();
+    expect(optimizer.applies(createFile({ mime: 'application/pdf', ext: '.pdf' }))).toBe(false);
+  });
+
+  it('should strip metadata and apply the EXIF orientation', async () => {
+    const rotated = await sharp(await createImage(60, 20)).withMetadata({ orientation: 6 }).jpeg().toBuffer();
+
+    const result = await optimizer.optimize(createFile(), rotated);
+    const metadata = await sharp(result!.buffer).metadata();
+
+    expect(result).toMatchObject({ width: 20, height: 60 });
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+  });
+
+  it('should keep metadata when asked to', async () => {
+    const tagged = await sharp(await createImage(20, 20)).withExif({ IFD0: { Copyright: 'Example' } }).jpeg().toBuffer();
+    const keeping = createImageOptimizer([{ stripMetadata: false, format: 'original' }]);
+
+    const result = await keeping.optimize(createFile(), tagged);
+
+    expect(result).toMatchObject({ mime: 'image/jpeg', ext: '.jpg' });
+    expect((await sharp(result!.buffer).metadata()).exif).toBeDefined();
+  });
+
+  it('should apply the first matching rule', async () => {
+    const rules = createImageOptimizer([
+      { mime: 'image/png', format: 'avif', quality: 50 },
+      { ext: '.jpg', format: 'jpeg', maxWidth: 100 },
+    ]);
+
+    const png = await rules.optimize(createFile({ name: 'a.png', ext: '.png', mime: 'image/png' }), await createImage(20, 20, 'png'));
+    const jpeg = await rules.optimize(createFile(), await createImage(400, 200));
+
+    expect(png).toMatchObject({ mime: 'image/avif', ext: '.avif' });
+    expect(jpeg).toMatchObject({ mime: 'image/jpeg', ext: '.jpg', width: 100, height: 50 });
+  });
+
+  it('should reject content that cannot be decoded', async () => {
+    const error = await optimizer.optimize(createFile(), Buffer.from('not an image')).catch((e) => e);
+
+    expect(error).toBeInstanceOf(FileValidationError);
+    expect(error.reason).toBe('image');
+  });
+
+  it('should reject invalid rules', () => {
+    expect(() => createImageOptimizer([{ format: 'bmp' as never }])).toThrow(ConfigError);
+    expect(() => createImageOptimizer([{ quality: 0 }])).toThrow('quality must be between 1 and 100');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { listObjects, reconcileBucket } from '../reconcile.js';
+import { resolveRetryPolicy } from '../retry.js';
+
+const DAY = 86400 * 1000;
+const now = Date.parse('2025-06-01T00:00:00Z');
+const silent = { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+
+/** Bucket stand-in listing one folder level at a time, like the storage API */
+const createBucket = (objects: Record<string, number>) => {
+  const stored = new Map(Object.entries(objects));
+  const bucket = {
+    list: vi.fn(async (folder: string, { limit, offset }: { limit: number; offset: number }) => {
+      const prefix = folder ? `${folder}/` : '';
+      const entries = new Map<string, { name: string; id: string | null; updated_at?: string; metadata?: { size: number } }>();
+      for (const [key, age] of stored) {
+        if (!key.startsWith(prefix)) {
+          continue;
+        }
+        const [name, ...rest] = key.slice(prefix.length).split('/');
+        entries.set(
+          name,
+          rest.length
+            ? { name, id: null }
+            : { name, id: key, updated_at: new Date(now - age).toISOString(), metadata: { size: 100 } }
+        );
+      }
+      const page = [...entries.values()].sort((a, b) => a.name.localeCompare(b.name)).slice(offset, offset + limit);
+      return { data: page, error: null };
+    }),
+    remove: vi.fn(async (keys: string[]) => {
+      keys.forEach((key) => stored.delete(key));
+      return { data: [], error: null };
+    }),
+  };
+  return { client: { from: () => bucket } as any, bucket, stored };
+};
+
+const options = (overrides = {}) => ({
+  pageSize: 2,
+  exclude: ['.refs'],
+  retryPolicy: resolveRetryPolicy(false),
+  logger: silent,
+  now: () => now,
+  ...overrides,
+});
+
+describe('listObjects', () => {
+  it('should walk nested folders page by page, skipping excluded prefixes and placeholders', async () => {
+    const { client, bucket } = createBucket({
+      'uploads/a.jpg': 0,
+      'uploads/b.jpg': 0,
+      'uploads/c.jpg': 0,
+      'uploads/2025/d.jpg': 0,
+      'uploads/empty/.emptyFolderPlaceholder': 0,
+      '.refs/uploads/x.jpg/hash': 0,
+      'other/e.jpg': 0,
+    });
+
+    const keys: string[] = [];
+    for await (const object of listObjects(client, 'media', '', options())) {
+      keys.push(object.key);
+    }
+
+    expect(keys.sort()).toEqual(['other/e.jpg', 'uploads/2025/d.jpg', 'uploads/a.jpg', 'uploads/b.jpg', 'uploads/c.jpg']);
+    expect(bucket.list).toHaveBeenCalledWith('uploads', expect.objectContaining({ limit: 2, offset: 2 }));
+    expect(bucket.list).not.toHaveBeenCalledWith('.refs', expect.anything());
+  });
+});
+
+describe('reconcileBucket', () => {
+  let bucket: ReturnType<typeof createBucket>;
+
+  beforeEach(() => {
+    bucket = createBucket({
+      'uploads/kept.jpg': 10 * DAY,
+      'uploads/old-orphan.jpg': 10 * DAY,
+      'uploads/new-orphan.jpg': 60 * 1000,
+      'elsewhere/ignored.jpg': 10 * DAY,
+    });
+  });
+
+  const target = (overrides = {}) => ({
+    bucket: 'media',
+    prefix: 'uploads',
+    known: new Set(['uploads/kept.jpg', 'uploads/gone.jpg', 'elsewhere/untracked.jpg']),
+    dryRun: true,
+    gracePeriod: 86400,
+    ...overrides,
+  });
+
+  it('should report orphans and missing objects without deleting on dry runs', async () => {
+    const report = await reconcileBucket(bucket.client, target(), options());
+
+    expect(report).toMatchObject({ bucket: 'media', prefix: 'uploads', dryRun: true, scanned: 3, deleted: [], failed: [] });
+    expect(report.orphans.map(({ key, expired }) => ({ key, expired }))).toEqual(
+      expect.arrayContaining([
+        { key: 'uploads/old-orphan.jpg', expired: true },
+        { key: 'uploads/new-orphan.jpg', expired: false },
+      ])
+    );
+    expect(report.missing).toEqual(['uploads/gone.jpg']);
+    expect(bucket.bucket.remove).not.toHaveBeenCalled();
+  });
+
+  it('should delete only orphans past the grace period', async () => {
+    const report = await reconcileBucket(bucket.client, target({ dryRun: false }), options());
+
+    expect(report.deleted).toEqual(['uploads/old-orphan.jpg']);
+    expect(bucket.stored.has('uploads/new-orphan.jpg')).toBe(true);
+    expect(bucket.stored.has('uploads/kept.jpg')).toBe(true);
+  });
+
+  it('should keep versions of known keys and report those of unknown ones', async () => {
+    bucket.stored.set('uploads/kept.jpg.versions/2025-05-01T00-00-00-000Z', 10 * DAY);
+    bucket.stored.set('uploads/gone.jpg.versions/2025-05-01T00-00-00-000Z', 10 * DAY);
+    bucket.stored.set('uploads/deleted.jpg.versions/2025-05-01T00-00-00-000Z', 10 * DAY);
+
+    const report = await reconcileBucket(bucket.client, target(), options());
+
+    expect(report.orphans.map((orphan) => orphan.key)).toContain('uploads/deleted.jpg.versions/2025-05-01T00-00-00-000Z');
+    expect(report.orphans.map((orphan) => orphan.key)).not.toContain('uploads/kept.jpg.versions/2025-05-01T00-00-00-000Z');
+    expect(report.orphans.map((orphan) => orphan.key)).not.toContain('uploads/gone.jpg.versions/2025-05-01T00-00-00-000Z');
+  });
+
+  it('should report orphans whose removal failed', async () => {
+    bucket.bucket.remove.mockResolvedValue({ data: null, error: { message: 'Permission denied', statusCode: '403' } } as any);
+
+    const report = await reconcileBucket(bucket.client, target({ dryRun: false }), options());
+
+    expect(report.deleted).toEqual([]);
+    expect(report.failed).toEqual(['uploads/old-orphan.jpg']);
+    expect(silent.warn).toHaveBeenCalledWith('Failed to delete orphaned objects', expect.objectContaining({ code: 'UNAUTHORIZED' }));
+  });
+
+  it('should fail when the bucket cannot be listed', async () => {
+    bucket.bucket.list.mockResolvedValue({ data: null, error: { message: 'Bucket not found', statusCode: '404' } } as any);
+
+    await expect(reconcileBucket(bucket.client, target(), options())).rejects.toThrow('Failed to list bucket');
+  });
+});
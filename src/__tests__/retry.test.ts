@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { resolveRetryPolicy, isRetriableError, getRetryDelay, withRetry, DEFAULT_RETRY_POLICY } from '../retry.js';
+import { createLogger } from '../logger.js';
+import { NetworkError, toProviderError } from '../errors.js';
+
+const noDelay = resolveRetryPolicy({ baseDelay: 0, jitter: false });
+
+describe('resolveRetryPolicy', () => {
+  it('should return defaults when no config is given', () => {
+    expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+  });
+
+  it('should disable retries when set to false', () => {
+    expect(resolveRetryPolicy(false).maxAttempts).toBe(1);
+  });
+
+  it('should override individual options', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 5, retryOnStatus: [503] });
+    expect(policy.maxAttempts).toBe(5);
+    expect(policy.retryOnStatus).toEqual([503]);
+    expect(policy.baseDelay).toBe(DEFAULT_RETRY_POLICY.baseDelay);
+  });
+
+  it('should never allow fewer than one attempt', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 0 }).maxAttempts).toBe(1);
+  });
+});
+
+describe('isRetriableError', () => {
+  it('should retry configured status codes', () => {
+    expect(isRetriableError({ message: 'Bad gateway', status: 502 }, noDelay)).toBe(true);
+    expect(isRetriableError({ message: 'Not found', status: 404 }, noDelay)).toBe(false);
+  });
+
+  it('should retry socket errors found in the cause chain', () => {
+    const error = new TypeError('fetch failed', { cause: { code: 'ECONNRESET' } });
+    expect(isRetriableError(error, noDelay)).toBe(true);
+    expect(isRetriableError({ message: 'x', originalError: { code: 'ETIMEDOUT' } }, noDelay)).toBe(true);
+  });
+
+  it('should retry the failures mapped to NetworkError', () => {
+    const error = { message: 'getaddrinfo ENOTFOUND test.supabase.co', cause: { code: 'ENOTFOUND' } };
+    expect(isRetriableError(error, noDelay)).toBe(true);
+    expect(toProviderError(error)).toBeInstanceOf(NetworkError);
+  });
+
+  it('should retry storage-js unknown errors', () => {
+    expect(isRetriableError({ name: 'StorageUnknownError', message: 'Unexpected token <' }, noDelay)).toBe(true);
+  });
+
+  it('should not retry plain errors', () => {
+    expect(isRetriableError({ message: 'Bucket not found' }, noDelay)).toBe(false);
+    expect(isRetriableError(null, noDelay)).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy = resolveRetryPolicy({ baseDelay: 100, maxDelay: 1000, jitter: false });
+
+  it('should double the delay on each attempt', () => {
+    expect(getRetryDelay(1, policy)).toBe(100);
+    expect(getRetryDelay(2, policy)).toBe(200);
+    expect(getRetryDelay(3, policy)).toBe(400);
+  });
+
+  it('should cap the delay at maxDelay', () => {
+    expect(getRetryDelay(10, policy)).toBe(1000);
+  });
+
+  it('should stay within the backoff when jitter is on', () => {
+    const jittered = { ...policy, jitter: true };
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(3, jittered);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(400);
+    }
+  });
+});
+
+describe('withRetry', () => {
+  type Result = { data: string | null; error: unknown };
+  it('should return the first successful result', async () => {
+    const operation = vi.fn<() => Promise<Result>>().mockResolvedValue({ data: 'ok', error: null });
+    const result = await withRetry('Test', noDelay, operation);
+    expect(result.data).toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry retriable error results and log each attempt', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const operation = vi.fn<() => Promise<Result>>()
+      .mockResolvedValueOnce({ data: null, error: { message: 'Service unavailable', status: 503 } })
+      .mockResolvedValueOnce({ data: 'ok', error: null });
+
+    const result = await withRetry('Test', noDelay, operation);
+
+    expect(result.data).toBe('ok');
+    expect(operation).toHaveBeenNthCalledWith(2, 2);
+    expect(warn).toHaveBeenCalledWith('[Supabase Provider] Test failed (attempt 1/3), retrying in 0ms', {
+      error: 'Service unavailable',
+      attempt: 1,
+      delay: 0,
+    });
+    warn.mockRestore();
+  });
+
+  it('should send retry warnings with fields to the given logger', async () => {
+    const target = { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+    const operation = vi.fn<() => Promise<Result>>()
+      .mockResolvedValueOnce({ data: null, error: { message: 'Bad gateway', status: 502 } })
+      .mockResolvedValueOnce({ data: 'ok', error: null });
+
+    await withRetry('Upload of a.jpg', noDelay, operation, {
+      logger: createLogger(target),
+      fields: { operation: 'upload', bucket: 'media', path: 'a.jpg' },
+    });
+
+    expect(target.warn).toHaveBeenCalledWith('[Supabase Provider] Upload of a.jpg failed (attempt 1/3), retrying in 0ms', {
+      operation: 'upload',
+      bucket: 'media',
+      path: 'a.jpg',
+      error: 'Bad gateway',
+      attempt: 1,
+      delay: 0,
+    });
+  });
+
+  it('should return the last error result when attempts run out', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const operation = vi.fn().mockResolvedValue({ data: null, error: { message: 'Bad gateway', status: 502 } });
+
+    const result = await withRetry('Test', noDelay, operation);
+
+    expect(result.error).toEqual({ message: 'Bad gateway', status: 502 });
+    expect(operation).toHaveBeenCalledTimes(3);
+    vi.mocked(console.warn).mockRestore();
+  });
+
+  it('should not retry permanent errors', async () => {
+    const operation = vi.fn().mockResolvedValue({ data: null, error: { message: 'Forbidden', status: 403 } });
+    await withRetry('Test', noDelay, operation);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry thrown network errors and rethrow the last one', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    const operation = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry('Test', noDelay, operation)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(3);
+    vi.mocked(console.warn).mockRestore();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRouter, matchesRoute } from '../routing.js';
+import { StrapiFile } from '../types.js';
+
+const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+  name: 'test.jpg',
+  hash: 'abc123',
+  ext: '.jpg',
+  mime: 'image/jpeg',
+  size: 100,
+  url: '',
+  ...overrides,
+});
+
+const defaults = { bucket: 'media', directory: '', publicFiles: true };
+
+describe('matchesRoute', () => {
+  it('should match mime patterns', () => {
+    expect(matchesRoute(createMockFile(), { mime: 'image/*' })).toBe(true);
+    expect(matchesRoute(createMockFile(), { mime: ['application/pdf', 'video/*'] })).toBe(false);
+  });
+
+  it('should match extensions case-insensitively', () => {
+    expect(matchesRoute(createMockFile({ ext: '.PDF' }), { ext: 'pdf' })).toBe(true);
+    expect(matchesRoute(createMockFile(), { ext: ['.png', '.gif'] })).toBe(false);
+  });
+
+  it('should match size ranges in bytes', () => {
+    const file = createMockFile({ size: 100 }); // 100000 bytes
+    expect(matchesRoute(file, { minSize: 100000 })).toBe(true);
+    expect(matchesRoute(file, { maxSize: 99999 })).toBe(false);
+    expect(matchesRoute(file, { minSize: 1000, maxSize: 200000 })).toBe(true);
+  });
+
+  it('should require every criterion to match', () => {
+    expect(matchesRoute(createMockFile(), { mime: 'image/*', ext: '.png' })).toBe(false);
+  });
+
+  it('should call a custom predicate', () => {
+    const match = vi.fn(() => true);
+    const file = createMockFile();
+    expect(matchesRoute(file, { match })).toBe(true);
+    expect(match).toHaveBeenCalledWith(file);
+  });
+
+  it('should match everything when no criteria are set', () => {
+    expect(matchesRoute(createMockFile(), { bucket: 'other' })).toBe(true);
+  });
+});
+
+describe('createRouter', () => {
+  const router = createRouter(
+    [
+      { ext: '.pdf', bucket: 'contracts', publicFiles: false },
+      { mime: 'image/*', directory: 'images' },
+      { mime: 'video/*', bucket: 'contracts', directory: 'videos' },
+    ],
+    defaults
+  );
+
+  it('should use the first matching route and inherit unset fields', () => {
+    expect(router.resolve(createMockFile({ ext: '.pdf', mime: 'application/pdf' }))).toEqual({
+      bucket: 'contracts',
+      directory: '',
+      publicFiles: false,
+    });
+    expect(router.resolve(createMockFile())).toEqual({ bucket: 'media', directory: 'images', publicFiles: true });
+  });
+
+  it('should fall back to the default route', () => {
+    expect(router.resolve(createMockFile({ mime: 'text/plain', ext: '.txt' }))).toEqual(defaults);
+  });
+
+  it('should treat a bucket as private when any route targeting it is private', () => {
+    expect(router.isBucketPublic('media')).toBe(true);
+    expect(router.isBucketPublic('contracts')).toBe(false);
+  });
+
+  it('should use the default mode for unknown buckets', () => {
+    expect(router.isBucketPublic('legacy')).toBe(true);
+  });
+
+  it('should report private buckets', () => {
+    expect(router.hasPrivateBuckets()).toBe(true);
+    expect(createRouter([{ mime: 'image/*', bucket: 'images' }], defaults).hasPrivateBuckets()).toBe(false);
+  });
+});
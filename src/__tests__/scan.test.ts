@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Readable } from 'stream';
+import { resolveScanner, scanContent, teeStream } from '../scan.js';
+import { ConfigError, InfectedFileError, ScanFailedError } from '../errors.js';
+import { readStream } from '../utils.js';
+import { StrapiFile } from '../types.js';
+
+const file: StrapiFile = { name: 'report.pdf', hash: 'report', ext: '.pdf', mime: 'application/pdf', size: 1, url: '' };
+
+describe('resolveScanner', () => {
+  it('should prefer a custom scanner', () => {
+    const scanner = vi.fn();
+    expect(resolveScanner({ scanner, clamav: {} })).toBe(scanner);
+  });
+
+  it('should build a ClamAV scanner', () => {
+    expect(resolveScanner({ clamav: { port: 3310 } })).toBeTypeOf('function');
+  });
+
+  it('should require one of them', () => {
+    expect(resolveScanner()).toBeUndefined();
+    expect(() => resolveScanner({ quarantine: 'quarantine' })).toThrow(ConfigError);
+  });
+});
+
+describe('scanContent', () => {
+  const content = () => Readable.from([Buffer.from('data')]);
+
+  it('should pass clean files', async () => {
+    await expect(scanContent(async () => ({ clean: true }), file, content())).resolves.toBeUndefined();
+  });
+
+  it('should throw InfectedFileError with the threat', async () => {
+    const error = await scanContent(async () => ({ clean: false, threat: 'Eicar-Test-Signature' }), file, content()).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(InfectedFileError);
+    expect(error.threat).toBe('Eicar-Test-Signature');
+    expect(error.message).toBe('report.pdf was rejected: Eicar-Test-Signature detected');
+  });
+
+  it('should fail closed when the scanner fails', async () => {
+    const scanner = async () => {
+      throw new Error('connect ECONNREFUSED 127.0.0.1:3310');
+    };
+
+    await expect(scanContent(scanner, file, content())).rejects.toThrow(ScanFailedError);
+    await expect(scanContent(scanner, file, content())).rejects.toThrow(
+      'Virus scan failed for report.pdf: connect ECONNREFUSED 127.0.0.1:3310'
+    );
+  });
+});
+
+describe('teeStream', () => {
+  it('should deliver the same bytes to both branches', async () => {
+    const chunks = Array.from({ length: 20 }, (_, i) => Buffer.alloc(10000, i));
+    const [a, b] = teeStream(Readable.from(chunks));
+
+    const [left, right] = await Promise.all([readStream(a), readStream(b)]);
+
+    expect(left.equals(Buffer.concat(chunks))).toBe(true);
+    expect(right.equals(left)).toBe(true);
+  });
+
+  it('should keep one branch flowing when the other is destroyed', async () => {
+    const chunks = Array.from({ length: 20 }, () => Buffer.alloc(10000));
+    const [a, b] = teeStream(Readable.from(chunks));
+
+    b.destroy();
+
+    expect((await readStream(a)).length).toBe(200000);
+  });
+
+  it('should propagate source errors and release the source', async () => {
+    const source = new Readable({
+      read() {
+        this.destroy(new Error('disk read failed'));
+      },
+    });
+    const [a, b] = teeStream(source);
+
+    const results = await Promise.allSettled([readStream(a), readStream(b)]);
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect((results[0] as PromiseRejectedResult).reason.message).toBe('disk read failed');
+  });
+
+  it('should release the source when both branches are gone', async () => {
+    const source = Readable.from([Buffer.alloc(10)]);
+    const [a, b] = teeStream(source);
+
+    a.destroy();
+    b.destroy();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(source.destroyed).toBe(true);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { resolveSignedUrlOptions } from '../signedUrlOptions.js';
+import { InvalidOptionsError } from '../errors.js';
+import { StrapiFile } from '../types.js';
+
+const file: StrapiFile = {
+  name: 'Annual report.pdf',
+  hash: 'report_abc123',
+  ext: '.pdf',
+  mime: 'application/pdf',
+  size: 12,
+  url: 'report_abc123.pdf',
+};
+
+describe('resolveSignedUrlOptions', () => {
+  it('should apply the provider defaults', () => {
+    expect(resolveSignedUrlOptions(file, undefined, 3600)).toEqual({ expiresIn: 3600, download: undefined, transform: undefined });
+    expect(
+      resolveSignedUrlOptions({ ...file, provider_metadata: { transform: { width: 245 } } }, {}, 3600).transform
+    ).toEqual({ width: 245 });
+  });
+
+  it('should resolve download names', () => {
+    expect(resolveSignedUrlOptions(file, { download: true }, 3600).download).toBe('Annual report.pdf');
+    expect(resolveSignedUrlOptions({ ...file, name: '' }, { download: true }, 3600).download).toBe('report_abc123.pdf');
+    expect(resolveSignedUrlOptions(file, { download: 'report.pdf' }, 3600).download).toBe('report.pdf');
+    expect(resolveSignedUrlOptions(file, { download: false }, 3600).download).toBeUndefined();
+  });
+
+  it('should reject invalid expiries', () => {
+    for (const expiresIn of [0, -60, 1.5, NaN, '60' as never]) {
+      expect(() => resolveSignedUrlOptions(file, { expiresIn }, 3600)).toThrow(InvalidOptionsError);
+    }
+  });
+
+  it('should reject invalid download names', () => {
+    for (const download of ['', '  ', 'a\nb.pdf', 42 as never]) {
+      expect(() => resolveSignedUrlOptions(file, { download }, 3600)).toThrow(InvalidOptionsError);
+    }
+  });
+
+  it('should validate transforms', () => {
+    expect(
+      resolveSignedUrlOptions(file, { transform: { width: 100, height: 80, resize: 'fill', quality: 20, format: 'origin' } }, 3600)
+        .transform
+    ).toEqual({ width: 100, height: 80, resize: 'fill', quality: 20, format: 'origin' });
+    expect(() => resolveSignedUrlOptions(file, { transform: { width: 0 } }, 3600)).toThrow('Invalid transform.width: 0.');
+    expect(() => resolveSignedUrlOptions(file, { transform: { quality: 101 } }, 3600)).toThrow(InvalidOptionsError);
+    expect(() => resolveSignedUrlOptions(file, { transform: { resize: 'crop' as never } }, 3600)).toThrow(InvalidOptionsError);
+    expect(() => resolveSignedUrlOptions(file, { transform: { blur: 5 } as never }, 3600)).toThrow('Unknown transform option "blur".');
+    expect(() => resolveSignedUrlOptions(file, { transform: null as never }, 3600)).toThrow('transform must be an object.');
+  });
+});
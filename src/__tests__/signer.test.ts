@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { createHash, createHmac } from 'crypto';
+import { createUrlSigner } from '../signer.js';
+import { ConfigError } from '../errors.js';
+
+const secret = 'top-secret';
+const now = () => 1_700_000_000_000;
+const expires = 1_700_000_000 + 600;
+const location = { bucket: 'private', key: 'docs/my report.pdf' };
+const path = '/private/docs/my%20report.pdf';
+
+describe('createUrlSigner', () => {
+  it('should sign the query scheme with a hex HMAC of path and expiry', () => {
+    const sign = createUrlSigner({ scheme: 'query', url: 'https://cdn.example.com/', secret }, { expiresIn: 600, now });
+    const signature = createHmac('sha256', secret).update(`${path}:${expires}`).digest('hex');
+
+    expect(sign(location)).toBe(`https://cdn.example.com${path}?expires=${expires}&signature=${signature}`);
+  });
+
+  it('should sign the cloudflare scheme in the verify parameter', () => {
+    const sign = createUrlSigner({ scheme: 'cloudflare', url: 'https://cdn.example.com', secret }, { expiresIn: 600, now });
+    const url = new URL(sign(location));
+    const [timestamp, mac] = url.searchParams.get('verify')!.split('-');
+
+    expect(url.pathname).toBe(path);
+    expect(Number(timestamp)).toBe(expires);
+    expect(mac).toBe(createHmac('sha256', secret).update(`${path}${expires}`).digest('base64'));
+  });
+
+  it('should sign the bunny scheme with a base64url SHA-256 token', () => {
+    const sign = createUrlSigner({ scheme: 'bunny', url: 'https://media.b-cdn.net', secret }, { expiresIn: 600, now });
+    const token = createHash('sha256').update(`${secret}${path}${expires}`).digest('base64url');
+
+    expect(sign(location)).toBe(`https://media.b-cdn.net${path}?token=${token}&expires=${expires}`);
+  });
+
+  it('should fill templates and keep their query string', () => {
+    const sign = createUrlSigner(
+      { scheme: 'query', url: 'https://files.example.com/{key}?v=1', secret },
+      { expiresIn: 60, now }
+    );
+    const url = new URL(sign(location));
+
+    expect(url.pathname).toBe('/docs/my%20report.pdf');
+    expect(url.searchParams.get('v')).toBe('1');
+    expect(url.searchParams.get('signature')).toBe(
+      createHmac('sha256', secret).update(`/docs/my%20report.pdf:${1_700_000_060}`).digest('hex')
+    );
+  });
+
+  it('should compute the expiry at signing time', () => {
+    let time = 0;
+    const sign = createUrlSigner({ scheme: 'query', url: 'https://cdn.example.com', secret }, { expiresIn: 60, now: () => time });
+
+    expect(new URL(sign(location)).searchParams.get('expires')).toBe('60');
+    time = 30_500;
+    expect(new URL(sign(location)).searchParams.get('expires')).toBe('90');
+  });
+
+  it('should reject invalid configuration', () => {
+    const options = { expiresIn: 60 };
+    expect(() => createUrlSigner({ scheme: 'akamai' as never, url: 'https://cdn.example.com', secret }, options)).toThrow(ConfigError);
+    expect(() => createUrlSigner({ scheme: 'query', url: 'https://cdn.example.com', secret: '' }, options)).toThrow(
+      'urlSigner.secret is required.'
+    );
+    expect(() => createUrlSigner({ scheme: 'query', url: 'https://cdn.example.com/{bucket}', secret }, options)).toThrow(
+      'must be a base URL or a URL template containing {key}'
+    );
+    expect(() => createUrlSigner({ scheme: 'query', url: 'cdn.example.com', secret }, options)).toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { sniffSignature, peekStream, acceptsMime } from '../sniff.js';
+
+const bytes = (...values: number[]) => Buffer.from(values);
+const ftyp = (brand: string) => Buffer.concat([bytes(0, 0, 0, 0x18), Buffer.from(`ftyp${brand}`)]);
+
+describe('sniffSignature', () => {
+  it.each([
+    ['image/jpeg', bytes(0xff, 0xd8, 0xff, 0xe0)],
+    ['image/png', bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)],
+    ['image/gif', Buffer.from('GIF89a')],
+    ['image/webp', Buffer.from('RIFF\x00\x00\x00\x00WEBPVP8 ', 'latin1')],
+    ['image/avif', ftyp('avif')],
+    ['image/heic', ftyp('heic')],
+    ['video/mp4', ftyp('isom')],
+    ['application/pdf', Buffer.from('%PDF-1.7')],
+    ['application/zip', bytes(0x50, 0x4b, 0x03, 0x04)],
+    ['application/x-msdownload', Buffer.from('MZ\x90\x00', 'latin1')],
+    ['application/x-executable', bytes(0x7f, 0x45, 0x4c, 0x46)],
+    ['text/html', Buffer.from('\n  <!DOCTYPE html><html></html>')],
+    ['text/html', Buffer.from('<script>alert(1)</script>')],
+    ['image/svg+xml', Buffer.from('<?xml version="1.0"?>\n<!-- icon -->\n<svg xmlns="http://www.w3.org/2000/svg"></svg>')],
+    ['image/svg+xml', Buffer.from('﻿<svg viewBox="0 0 1 1"/>')],
+    ['text/x-shellscript', Buffer.from('#!/bin/sh\necho hi')],
+  ])('should detect %s', (mime, head) => {
+    expect(sniffSignature(head)?.mime).toBe(mime);
+  });
+
+  it('should not detect plain text or unknown binaries', () => {
+    expect(sniffSignature(Buffer.from('name,size\nphoto,12'))).toBeUndefined();
+    expect(sniffSignature(bytes(0x01, 0x02, 0x03))).toBeUndefined();
+    expect(sniffSignature(Buffer.alloc(0))).toBeUndefined();
+  });
+});
+
+describe('acceptsMime', () => {
+  it('should support exact, prefix and suffix patterns', () => {
+    expect(acceptsMime('image/jpeg', 'IMAGE/JPEG')).toBe(true);
+    expect(acceptsMime('application/vnd.openxmlformats-officedocument.*', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBe(true);
+    expect(acceptsMime('*+xml', 'application/rss+xml')).toBe(true);
+    expect(acceptsMime('image/jpeg', 'image/png')).toBe(false);
+  });
+});
+
+describe('peekStream', () => {
+  it('should return the head and replay the whole stream', async () => {
+    const source = Readable.from([Buffer.from('hello '), Buffer.from('wide '), Buffer.from('world')]);
+
+    const { head, stream } = await peekStream(source, 8);
+    const chunks: Buffer[] = [];
+    for await (const piece of stream) {
+      chunks.push(piece);
+    }
+
+    expect(head.toString()).toBe('hello wi');
+    expect(Buffer.concat(chunks).toString()).toBe('hello wide world');
+  });
+
+  it('should handle streams shorter than the peek size', async () => {
+    const { head, stream } = await peekStream(Readable.from([Buffer.from('tiny')]), 100);
+    const chunks: Buffer[] = [];
+    for await (const piece of stream) {
+      chunks.push(piece);
+    }
+
+    expect(head.toString()).toBe('tiny');
+    expect(Buffer.concat(chunks).toString()).toBe('tiny');
+  });
+
+  it('should release the source when the replay is destroyed', async () => {
+    const source = Readable.from([Buffer.from('abc'), Buffer.from('def')]);
+    const { stream } = await peekStream(source, 2);
+
+    stream.destroy();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(source.destroyed).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { createFormatVariantTracker, DEFAULT_FORMAT_TRANSFORMS } from '../transform.js';
+import { StrapiFile } from '../types.js';
+
+const createMockFile = (hash: string, mime = 'image/jpeg'): StrapiFile => ({
+  name: `${hash}.jpg`,
+  hash,
+  ext: '.jpg',
+  mime,
+  size: 100,
+  url: '',
+});
+
+describe('createFormatVariantTracker', async () => {
+  it('should match formats of a registered original', async () => {
+    const tracker = createFormatVariantTracker(DEFAULT_FORMAT_TRANSFORMS);
+    tracker.registerOriginal(createMockFile('photo_abc123'), { bucket: 'media', key: 'uploads/photo_abc123.jpg' });
+
+    expect(await tracker.match(createMockFile('thumbnail_photo_abc123'))).toEqual({
+      format: 'thumbnail',
+      transform: DEFAULT_FORMAT_TRANSFORMS.thumbnail,
+      original: { bucket: 'media', key: 'uploads/photo_abc123.jpg' },
+    });
+    expect((await tracker.match(createMockFile('large_photo_abc123')))?.format).toBe('large');
+  });
+
+  it('should not match originals whose name starts with a format prefix', async () => {
+    const tracker = createFormatVariantTracker(DEFAULT_FORMAT_TRANSFORMS);
+    expect(await tracker.match(createMockFile('thumbnail_banner_abc123'))).toBeUndefined();
+  });
+
+  it('should ignore formats without a configured transform', async () => {
+    const tracker = createFormatVariantTracker({ small: { width: 320 } });
+    tracker.registerOriginal(createMockFile('photo_abc123'), { bucket: 'media', key: 'photo_abc123.jpg' });
+
+    expect(await tracker.match(createMockFile('large_photo_abc123'))).toBeUndefined();
+    expect((await tracker.match(createMockFile('small_photo_abc123')))?.transform).toEqual({ width: 320 });
+  });
+
+  it('should ignore non-image files', async () => {
+    const tracker = createFormatVariantTracker(DEFAULT_FORMAT_TRANSFORMS);
+    tracker.registerOriginal(createMockFile('doc_abc123'), { bucket: 'media', key: 'doc_abc123.pdf' });
+
+    expect(await tracker.match(createMockFile('small_doc_abc123', 'application/pdf'))).toBeUndefined();
+  });
+
+  it('should wait for originals whose location is only known once written', async () => {
+    const tracker = createFormatVariantTracker(DEFAULT_FORMAT_TRANSFORMS);
+    let locate: (location?: { bucket: string; key: string }) => void = () => {};
+    tracker.registerOriginal(createMockFile('photo_abc123'), new Promise((resolve) => (locate = resolve)));
+    tracker.registerOriginal(createMockFile('failed_abc123'), Promise.resolve(undefined));
+
+    const matching = tracker.match(createMockFile('small_photo_abc123'));
+    locate({ bucket: 'media', key: 'uploads/3a7bd3e2.jpg' });
+
+    expect((await matching)?.original).toEqual({ bucket: 'media', key: 'uploads/3a7bd3e2.jpg' });
+    expect(await tracker.match(createMockFile('small_failed_abc123'))).toBeUndefined();
+  });
+
+  it('should forget the oldest originals beyond its bound', async () => {
+    const tracker = createFormatVariantTracker(DEFAULT_FORMAT_TRANSFORMS);
+    for (let i = 0; i <= 1000; i++) {
+      tracker.registerOriginal(createMockFile(`photo_${i}`), { bucket: 'media', key: `photo_${i}.jpg` });
+    }
+
+    expect(await tracker.match(createMockFile('small_photo_0'))).toBeUndefined();
+    expect(await tracker.match(createMockFile('small_photo_1000'))).toBeDefined();
+  });
+});
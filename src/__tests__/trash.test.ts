@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getTrashKey, purgeTrash } from '../trash.js';
+import { resolveRetryPolicy } from '../retry.js';
+
+const DAY = 86400 * 1000;
+const now = Date.parse('2025-06-01T00:00:00Z');
+const silent = { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+
+/** Trash folder stand-in: "{key}" → age in ms, listed one level at a time */
+const createBucket = (objects: Record<string, number>) => {
+  const stored = new Map(Object.entries(objects));
+  const bucket = {
+    list: vi.fn(async (folder: string) => {
+      const entries = new Map<string, object>();
+      for (const [key, age] of stored) {
+        if (!key.startsWith(`${folder}/`)) {
+          continue;
+        }
+        const [name, ...rest] = key.slice(folder.length + 1).split('/');
+        entries.set(name, rest.length ? { name, id: null } : { name, id: key, updated_at: new Date(now - age).toISOString() });
+      }
+      return { data: [...entries.values()], error: null };
+    }),
+    remove: vi.fn(async (keys: string[]) => {
+      keys.forEach((key) => stored.delete(key));
+      return { data: [], error: null };
+    }),
+  };
+  return { client: { from: () => bucket } as any, bucket, stored };
+};
+
+const options = { pageSize: 100, retryPolicy: resolveRetryPolicy(false), logger: silent, now: () => now };
+
+describe('getTrashKey', () => {
+  it('should keep the key under the trash prefix', () => {
+    expect(getTrashKey('.trash', 'uploads/photo.jpg')).toBe('.trash/uploads/photo.jpg');
+  });
+});
+
+describe('purgeTrash', () => {
+  it('should remove only objects trashed before the retention period', async () => {
+    const { client, stored } = createBucket({
+      '.trash/uploads/old.jpg': 40 * DAY,
+      '.trash/uploads/2025/older.pdf': 90 * DAY,
+      '.trash/uploads/recent.jpg': 2 * DAY,
+    });
+
+    const report = await purgeTrash(client, { bucket: 'media', prefix: '.trash', retention: 30 * 86400 }, options);
+
+    expect(report).toEqual({
+      bucket: 'media',
+      scanned: 3,
+      purged: expect.arrayContaining(['.trash/uploads/old.jpg', '.trash/uploads/2025/older.pdf']),
+      failed: [],
+    });
+    expect([...stored.keys()]).toEqual(['.trash/uploads/recent.jpg']);
+  });
+
+  it('should report objects whose removal failed', async () => {
+    const { client, bucket } = createBucket({ '.trash/old.jpg': 40 * DAY });
+    bucket.remove.mockResolvedValue({ data: null, error: { message: 'Permission denied', statusCode: '403' } } as any);
+
+    const report = await purgeTrash(client, { bucket: 'media', prefix: '.trash', retention: 86400 }, options);
+
+    expect(report.failed).toEqual(['.trash/old.jpg']);
+    expect(silent.warn).toHaveBeenCalledWith('Failed to delete trashed objects', expect.objectContaining({ operation: 'purge' }));
+  });
+});
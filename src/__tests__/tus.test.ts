@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Readable } from 'stream';
+import initProvider from '../index.js';
+import { tusUpload, readChunks, encodeTusMetadata } from '../tus.js';
+import { startTusStandIn, TusStandIn } from './helpers/tusServer.js';
+
+const streamOf = (data: Buffer, pieceSize: number): Readable => {
+  const pieces: Buffer[] = [];
+  for (let i = 0; i < data.length; i += pieceSize) {
+    pieces.push(data.subarray(i, i + pieceSize));
+  }
+  return Readable.from(pieces);
+};
+
+const collect = async (iterable: AsyncIterable<Buffer>): Promise<Buffer[]> => {
+  const result: Buffer[] = [];
+  for await (const chunk of iterable) {
+    result.push(chunk);
+  }
+  return result;
+};
+
+describe('encodeTusMetadata', () => {
+  it('should base64 encode each value', () => {
+    expect(encodeTusMetadata({ bucketName: 'media', objectName: 'a/b.jpg' })).toBe(
+      'bucketName bWVkaWE=,objectName YS9iLmpwZw=='
+    );
+  });
+});
+
+describe('readChunks', () => {
+  it('should slice buffers into fixed-size chunks', async () => {
+    const chunks = await collect(readChunks(Buffer.from('abcdefghij'), 4));
+    expect(chunks.map(String)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('should regroup stream pieces into fixed-size chunks', async () => {
+    const chunks = await collect(readChunks(streamOf(Buffer.from('abcdefghij'), 3), 4));
+    expect(chunks.map(String)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('should yield nothing for empty input', async () => {
+    expect(await collect(readChunks(Buffer.alloc(0), 4))).toEqual([]);
+  });
+});
+
+describe('tusUpload', () => {
+  let server: TusStandIn;
+  const data = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+
+  const baseOptions = () => ({
+    endpoint: `${server.url}/storage/v1/upload/resumable`,
+    headers: { apikey: 'test-key', Authorization: 'Bearer test-key' },
+    bucket: 'test-bucket',
+    objectName: 'uploads/abc123.mp4',
+    contentType: 'video/mp4',
+    upsert: true,
+    chunkSize: 10,
+    retryDelays: [0, 0],
+  });
+
+  beforeEach(async () => {
+    server = await startTusStandIn();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should upload a buffer in chunks with metadata', async () => {
+    await tusUpload({ ...baseOptions(), body: data });
+
+    const upload = server.uploads.get('1')!;
+    expect(upload.data.equals(data)).toBe(true);
+    expect(upload.length).toBe(data.length);
+    expect(upload.metadata).toEqual({
+      bucketName: 'test-bucket',
+      objectName: 'uploads/abc123.mp4',
+      contentType: 'video/mp4',
+    });
+    expect(upload.headers['x-upsert']).toBe('true');
+    expect(upload.headers.authorization).toBe('Bearer test-key');
+    expect(server.requests.filter((r) => r.method === 'PATCH').map((r) => r.bytes)).toEqual([10, 10, 10, 6]);
+  });
+
+  it('should send user metadata as JSON', async () => {
+    await tusUpload({ ...baseOptions(), body: data, metadata: { sha256: 'abc' } });
+
+    expect(JSON.parse(server.uploads.get('1')!.metadata.metadata)).toEqual({ sha256: 'abc' });
+  });
+
+  it('should stream chunks with a deferred length', async () => {
+    await tusUpload({ ...baseOptions(), body: streamOf(data, 7) });
+
+    const upload = server.uploads.get('1')!;
+    expect(upload.headers['upload-defer-length']).toBe('1');
+    expect(upload.data.equals(data)).toBe(true);
+    expect(upload.length).toBe(data.length);
+  });
+
+  it('should resume from the server offset after a dropped chunk', async () => {
+    server.failNextPatch(4);
+    await tusUpload({ ...baseOptions(), body: streamOf(data, 5) });
+
+    expect(server.uploads.get('1')!.data.equals(data)).toBe(true);
+    const patches = server.requests.filter((r) => r.method === 'PATCH');
+    expect(patches[0]).toMatchObject({ offset: 0, bytes: 10 });
+    expect(patches[1]).toMatchObject({ offset: 4, bytes: 6 });
+    expect(server.requests.some((r) => r.method === 'HEAD')).toBe(true);
+  });
+
+  it('should fail after exhausting retry delays', async () => {
+    server.failNextPatch(0);
+    await expect(
+      tusUpload({ ...baseOptions(), retryDelays: [], body: data })
+    ).rejects.toThrow('TUS chunk upload failed at offset 0');
+  });
+
+  it('should fail when the upload cannot be created', async () => {
+    await expect(
+      tusUpload({ ...baseOptions(), endpoint: `${server.url}/missing`, body: data })
+    ).rejects.toThrow('TUS upload creation failed');
+  });
+});
+
+describe('Provider resumable uploads', () => {
+  let server: TusStandIn;
+
+  beforeEach(async () => {
+    server = await startTusStandIn();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should use the TUS endpoint for files above the threshold', async () => {
+    const provider = initProvider.init({
+      apiUrl: server.url,
+      apiKey: 'test-key',
+      bucket: 'private-bucket',
+      directory: 'uploads',
+      publicFiles: false,
+      resumable: { threshold: 16, chunkSize: 8, retryDelays: [0] },
+    });
+    const buffer = Buffer.from('a large video file body');
+    const file = {
+      name: 'video.mp4',
+      hash: 'abc123',
+      ext: '.mp4',
+      mime: 'video/mp4',
+      size: 0.02,
+      url: '',
+      buffer,
+    };
+
+    await provider.upload(file);
+
+    const upload = server.uploads.get('1')!;
+    expect(upload.metadata.objectName).toBe('uploads/abc123.mp4');
+    expect(upload.data.equals(buffer)).toBe(true);
+    expect(file.url).toBe('uploads/abc123.mp4');
+  });
+
+  it('should wrap TUS failures in the provider upload error', async () => {
+    const provider = initProvider.init({
+      apiUrl: `${server.url}/missing`,
+      apiKey: 'test-key',
+      bucket: 'test-bucket',
+      resumable: { threshold: 1 },
+    });
+    const stream = Readable.from([Buffer.from('streamed')]);
+    const file = { name: 'a.bin', hash: 'h', ext: '.bin', mime: 'application/octet-stream', size: 1, url: '', stream };
+
+    await expect(provider.uploadStream(file)).rejects.toThrow('Failed to upload file to Supabase: TUS upload creation failed');
+  });
+});
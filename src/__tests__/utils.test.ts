@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest';
-import { getBearerToken, getStorageEndpoint, getPathKey, kbytesToBytes, bytesToHumanReadable } from '../utils.js';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getBearerToken, getStorageEndpoint, getPathKey, getSuffixedKey, getObjectName, getStoredLocation, parsePublicUrl, matchesMimePattern, matchesExtension, chunk, slugify, shortHash, getFileByteSize, kbytesToBytes, bytesToKbytes, bytesToHumanReadable } from '../utils.js';
 import { StrapiFile } from '../types.js';
 
 describe('getBearerToken', () => {
@@ -83,6 +83,167 @@ describe('getPathKey', () => {
   });
 });
 
+describe('getObjectName', () => {
+  const file: StrapiFile = {
+    name: 'Summer Photo É.JPG',
+    hash: 'summer_photo_a1b2c3',
+    ext: '.JPG',
+    mime: 'image/jpeg',
+    size: 100,
+    url: '',
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should default to hash and extension', () => {
+    expect(getObjectName(file)).toBe('summer_photo_a1b2c3.JPG');
+  });
+
+  it('should partition by UTC upload date', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-07T23:30:00Z'));
+    expect(getObjectName(file, 'date')).toBe('2025/03/07/summer_photo_a1b2c3.JPG');
+  });
+
+  it('should shard by a stable hash prefix', () => {
+    const result = getObjectName(file, 'hash-sharded');
+    const digest = shortHash(file.hash);
+    expect(result).toBe(`${digest.slice(0, 2)}/${digest.slice(2, 4)}/summer_photo_a1b2c3.JPG`);
+    expect(getObjectName(file, 'hash-sharded')).toBe(result);
+  });
+
+  it('should slugify the original name and keep the random hash suffix', () => {
+    expect(getObjectName(file, 'filename')).toBe('summer-photo-e-a1b2c3.JPG');
+  });
+
+  it('should fall back to the hash when the name has no usable characters', () => {
+    expect(getObjectName({ ...file, name: '???.JPG' }, 'filename')).toBe('summer_photo_a1b2c3.JPG');
+  });
+
+  it('should group by mime type', () => {
+    expect(getObjectName(file, 'mime-folder')).toBe('images/summer_photo_a1b2c3.JPG');
+    expect(getObjectName({ ...file, mime: 'video/mp4' }, 'mime-folder')).toContain('videos/');
+    expect(getObjectName({ ...file, mime: 'application/pdf' }, 'mime-folder')).toContain('documents/');
+    expect(getObjectName({ ...file, mime: 'application/zip' }, 'mime-folder')).toContain('files/');
+  });
+
+  it('should call a custom strategy and strip leading slashes', () => {
+    const strategy = vi.fn((f: StrapiFile) => `/custom/${f.hash}`);
+    expect(getObjectName(file, strategy)).toBe('custom/summer_photo_a1b2c3');
+    expect(strategy).toHaveBeenCalledWith(file);
+  });
+
+  it('should prefix the strategy result with the directory', () => {
+    expect(getPathKey(file, 'uploads/', 'mime-folder')).toBe('uploads/images/summer_photo_a1b2c3.JPG');
+  });
+});
+
+describe('getSuffixedKey', () => {
+  it('should insert the suffix before the extension', () => {
+    expect(getSuffixedKey('uploads/photo.jpg', 2)).toBe('uploads/photo-2.jpg');
+    expect(getSuffixedKey('archive.tar.gz', 1)).toBe('archive.tar-1.gz');
+  });
+
+  it('should append the suffix to keys without an extension', () => {
+    expect(getSuffixedKey('uploads.d/README', 1)).toBe('uploads.d/README-1');
+    expect(getSuffixedKey('uploads/.env', 1)).toBe('uploads/.env-1');
+  });
+});
+
+describe('slugify', () => {
+  it('should lowercase, strip accents and collapse separators', () => {
+    expect(slugify('  Héllo,  World!! ')).toBe('hello-world');
+  });
+});
+
+describe('parsePublicUrl', () => {
+  it('should extract bucket and decoded key', () => {
+    const url = 'https://test.supabase.co/storage/v1/object/public/media/uploads/my%20file.jpg?v=1';
+    expect(parsePublicUrl(url)).toEqual({ bucket: 'media', key: 'uploads/my file.jpg' });
+  });
+
+  it('should return undefined for non-storage URLs', () => {
+    expect(parsePublicUrl('https://cdn.example.com/abc123.jpg')).toBeUndefined();
+  });
+});
+
+describe('getStoredLocation', () => {
+  const createMockFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+    name: 'test.jpg',
+    hash: 'abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 100,
+    url: '',
+    ...overrides,
+  });
+
+  it('should prefer provider_metadata', () => {
+    const file = createMockFile({
+      url: 'https://test.supabase.co/storage/v1/object/public/old/abc123.jpg',
+      provider_metadata: { bucket: 'media', key: 'uploads/abc123.jpg' },
+    });
+    expect(getStoredLocation(file, 'default')).toEqual({ bucket: 'media', key: 'uploads/abc123.jpg' });
+  });
+
+  it('should use the default bucket when metadata has no bucket', () => {
+    const file = createMockFile({ provider_metadata: { key: 'abc123.jpg' } });
+    expect(getStoredLocation(file, 'default')).toEqual({ bucket: 'default', key: 'abc123.jpg' });
+  });
+
+  it('should return the path stored for private files', () => {
+    const file = createMockFile({ url: '2025/01/02/abc123.jpg' });
+    expect(getStoredLocation(file, 'default')).toEqual({ bucket: 'default', key: '2025/01/02/abc123.jpg' });
+  });
+
+  it('should parse legacy public URLs', () => {
+    const file = createMockFile({ url: 'https://test.supabase.co/storage/v1/object/public/media/abc123.jpg' });
+    expect(getStoredLocation(file, 'default')).toEqual({ bucket: 'media', key: 'abc123.jpg' });
+  });
+
+  it('should return undefined when nothing was stored', () => {
+    expect(getStoredLocation(createMockFile({ url: 'https://cdn.example.com/abc123.jpg' }), 'default')).toBeUndefined();
+    expect(getStoredLocation(createMockFile(), 'default')).toBeUndefined();
+  });
+});
+
+describe('matchesMimePattern', () => {
+  it('should match exact types case-insensitively', () => {
+    expect(matchesMimePattern('Application/PDF', 'application/pdf')).toBe(true);
+    expect(matchesMimePattern('application/pdf', 'application/zip')).toBe(false);
+  });
+
+  it('should match type wildcards', () => {
+    expect(matchesMimePattern('image/png', 'image/*')).toBe(true);
+    expect(matchesMimePattern('video/mp4', 'image/*')).toBe(false);
+  });
+
+  it('should match everything with *', () => {
+    expect(matchesMimePattern('application/octet-stream', '*')).toBe(true);
+    expect(matchesMimePattern(undefined, '*/*')).toBe(true);
+  });
+});
+
+describe('matchesExtension', () => {
+  it('should ignore case and the leading dot', () => {
+    expect(matchesExtension('.JPG', 'jpg')).toBe(true);
+    expect(matchesExtension('jpg', '.jpg')).toBe(true);
+    expect(matchesExtension('.jpeg', '.jpg')).toBe(false);
+  });
+});
+
+describe('chunk', () => {
+  it('should split items into groups of the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('should return no groups for an empty list', () => {
+    expect(chunk([], 3)).toEqual([]);
+  });
+});
+
 describe('kbytesToBytes', () => {
   it('should convert 1 KB to 1000 bytes', () => {
     const result = kbytesToBytes(1);
@@ -110,6 +271,35 @@ describe('kbytesToBytes', () => {
   });
 });
 
+describe('bytesToKbytes', () => {
+  it('should convert bytes to KB with two decimals', () => {
+    expect(bytesToKbytes(1000)).toBe(1);
+    expect(bytesToKbytes(1536)).toBe(1.54);
+    expect(bytesToKbytes(4)).toBe(0);
+  });
+});
+
+describe('getFileByteSize', () => {
+  const baseFile: StrapiFile = {
+    name: 'test.jpg',
+    hash: 'abc123',
+    ext: '.jpg',
+    mime: 'image/jpeg',
+    size: 12.5,
+    url: '',
+  };
+
+  it('should use the buffer length when available', () => {
+    const result = getFileByteSize({ ...baseFile, buffer: Buffer.from('12345') });
+    expect(result).toBe(5);
+  });
+
+  it('should fall back to the KB size for streams', () => {
+    const result = getFileByteSize(baseFile);
+    expect(result).toBe(12500);
+  });
+});
+
 describe('bytesToHumanReadable', () => {
   it('should format 0 bytes', () => {
     const result = bytesToHumanReadable(0);
@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { resolveValidation, validateFile, sanitizeSvg } from '../validation.js';
+import { FileValidationError, PayloadTooLargeError } from '../errors.js';
+import { StrapiFile } from '../types.js';
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const HTML = Buffer.from('<!doctype html><script>alert(document.cookie)</script>');
+
+const createFile = (overrides?: Partial<StrapiFile>): StrapiFile => ({
+  name: 'photo.jpg',
+  hash: 'photo_abc123',
+  ext: '.jpg',
+  mime: 'image/jpeg',
+  size: 0.01,
+  url: '',
+  buffer: JPEG,
+  ...overrides,
+});
+
+const defaults = resolveValidation(true)!;
+
+const readStream = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const piece of stream) {
+    chunks.push(piece);
+  }
+  return Buffer.concat(chunks);
+};
+
+describe('resolveValidation', () => {
+  it('should be off unless configured', () => {
+    expect(resolveValidation()).toBeUndefined();
+    expect(resolveValidation(false)).toBeUndefined();
+  });
+
+  it('should apply defaults', () => {
+    expect(resolveValidation(true)).toEqual({ sniff: true, svg: 'sanitize' });
+    expect(resolveValidation({ svg: 'reject' })).toEqual({ sniff: true, svg: 'reject' });
+  });
+});
+
+describe('validateFile', () => {
+  it('should accept content matching its type and return the detected mime', async () => {
+    await expect(validateFile(createFile(), defaults)).resolves.toBe('image/jpeg');
+  });
+
+  it('should reject a .jpg that is actually HTML', async () => {
+    const error = await validateFile(createFile({ buffer: HTML }), defaults).catch((e) => e);
+
+    expect(error).toBeInstanceOf(FileValidationError);
+    expect(error.reason).toBe('content-mismatch');
+    expect(error.message).toBe('photo.jpg was rejected: content is text/html but was uploaded as image/jpeg');
+  });
+
+  it('should reject executables disguised by extension', async () => {
+    const file = createFile({ name: 'invoice.pdf', ext: '.pdf', mime: 'application/octet-stream', buffer: Buffer.from('MZ\x90\x00', 'latin1') });
+    await expect(validateFile(file, defaults)).rejects.toThrow('content is application/x-msdownload but has extension .pdf');
+  });
+
+  it('should reject types whose signature is missing', async () => {
+    const file = createFile({ buffer: Buffer.from('not really a jpeg') });
+    await expect(validateFile(file, defaults)).rejects.toThrow('content does not match image/jpeg');
+  });
+
+  it('should accept compatible types and unknown text', async () => {
+    const docx = createFile({
+      name: 'report.docx',
+      ext: '.docx',
+      mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      buffer: Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+    });
+    const csv = createFile({ name: 'data.csv', ext: '.csv', mime: 'text/csv', buffer: Buffer.from('a,b\n1,2') });
+
+    await expect(validateFile(docx, defaults)).resolves.toBe('application/zip');
+    await expect(validateFile(csv, defaults)).resolves.toBeUndefined();
+  });
+
+  it('should skip content checks when sniffing is off', async () => {
+    const file = createFile({ buffer: Buffer.from('anything') });
+    await expect(validateFile(file, { ...defaults, sniff: false })).resolves.toBeUndefined();
+  });
+
+  it('should enforce extension lists', async () => {
+    await expect(validateFile(createFile(), { ...defaults, deniedExtensions: ['JPG'] })).rejects.toMatchObject({ reason: 'extension' });
+    await expect(validateFile(createFile(), { ...defaults, allowedExtensions: ['png'] })).rejects.toMatchObject({ reason: 'extension' });
+    await expect(validateFile(createFile(), { ...defaults, allowedExtensions: ['.jpg'] })).resolves.toBe('image/jpeg');
+  });
+
+  it('should check mime lists against the declared and detected type', async () => {
+    const disguised = createFile({ name: 'a.bin', ext: '.bin', mime: 'application/octet-stream', buffer: HTML });
+
+    await expect(validateFile(createFile(), { ...defaults, allowedMimeTypes: ['image/*'] })).resolves.toBe('image/jpeg');
+    await expect(validateFile(disguised, { ...defaults, deniedMimeTypes: ['text/html'] })).rejects.toThrow(
+      'a.bin was rejected: text/html files are not allowed'
+    );
+    await expect(validateFile(disguised, { ...defaults, allowedMimeTypes: ['application/*'] })).rejects.toMatchObject({
+      reason: 'mime-type',
+    });
+  });
+
+  it('should peek streams without consuming them', async () => {
+    const content = Buffer.concat([JPEG, Buffer.alloc(10000, 1)]);
+    const file = createFile({ buffer: undefined, stream: Readable.from([content.subarray(0, 3), content.subarray(3)]) });
+
+    await expect(validateFile(file, defaults)).resolves.toBe('image/jpeg');
+    expect((await readStream(file.stream!)).equals(content)).toBe(true);
+  });
+
+  it('should release rejected streams', async () => {
+    const source = Readable.from([HTML]);
+    const file = createFile({ buffer: undefined, stream: source });
+
+    await expect(validateFile(file, defaults)).rejects.toBeInstanceOf(FileValidationError);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(source.destroyed).toBe(true);
+  });
+
+  describe('SVG', () => {
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"><script>alert(2)</script><rect width="10"/></svg>';
+    const createSvgFile = (overrides?: Partial<StrapiFile>) =>
+      createFile({ name: 'logo.svg', ext: '.svg', mime: 'image/svg+xml', buffer: Buffer.from(svg), ...overrides });
+
+    it('should sanitize by default', async () => {
+      const file = createSvgFile();
+
+      await expect(validateFile(file, defaults)).resolves.toBe('image/svg+xml');
+
+      const content = file.buffer!.toString();
+      expect(content).toBe('<svg xmlns="http://www.w3.org/2000/svg"><rect width="10"/></svg>');
+      expect(file.size).toBe(Math.round(file.buffer!.length / 10) / 100);
+    });
+
+    it('should sanitize streamed SVGs into a buffer', async () => {
+      const file = createSvgFile({ buffer: undefined, stream: Readable.from([Buffer.from(svg)]) });
+
+      await validateFile(file, defaults);
+
+      expect(file.stream).toBeUndefined();
+      expect(file.buffer!.toString()).not.toContain('alert');
+    });
+
+    it('should apply the size rule to SVGs before sanitizing them', async () => {
+      const rule = { maxSize: 50 };
+      const stream = Readable.from([Buffer.from(svg.slice(0, 40)), Buffer.from(svg.slice(40))]);
+      const file = createSvgFile({ buffer: undefined, stream });
+
+      await expect(validateFile(file, defaults, rule)).rejects.toBeInstanceOf(PayloadTooLargeError);
+      await expect(validateFile(createSvgFile(), defaults, rule)).rejects.toThrow(`exceeds size limit of 50.00 Bytes (${svg.length}.00 Bytes)`);
+    });
+
+    it('should reject when configured', async () => {
+      await expect(validateFile(createSvgFile(), { ...defaults, svg: 'reject' })).rejects.toMatchObject({ reason: 'svg' });
+    });
+
+    it('should leave SVGs untouched when allowed', async () => {
+      const file = createSvgFile();
+      await validateFile(file, { ...defaults, svg: 'allow' });
+      expect(file.buffer!.toString()).toBe(svg);
+    });
+
+    it('should reject SVG content uploaded as another image type', async () => {
+      const file = createFile({ buffer: Buffer.from(svg) });
+      await expect(validateFile(file, defaults)).rejects.toThrow('content is image/svg+xml but was uploaded as image/jpeg');
+    });
+  });
+});
+
+describe('sanitizeSvg', () => {
+  it('should remove scripts, embedded HTML and event handlers', () => {
+    const result = sanitizeSvg(
+      '<svg><foreignObject><iframe src="https://evil"></iframe></foreignObject><g ONCLICK="x()" fill="red"><script href="x.js"/></g></svg>'
+    );
+    expect(result).toBe('<svg><g fill="red"></g></svg>');
+  });
+
+  it('should remove tags formed by joining the fragments around a removed one', () => {
+    expect(sanitizeSvg('<svg><scr<script>ipt>alert(1)</scr<script>ipt></svg>')).toBe('<svg></svg>');
+    expect(sanitizeSvg('<svg><scr<scr<script>ipt>ipt>alert(1)</scr<scr<script>ipt>ipt></svg>')).toBe('<svg></svg>');
+    expect(sanitizeSvg('<svg><g o<script/>nload="alert(1)"/></svg>')).toBe('<svg><g/></svg>');
+  });
+
+  it('should remove nested and namespaced embedded content', () => {
+    const result = sanitizeSvg(
+      '<svg xmlns:s="http://www.w3.org/2000/svg"><foreignObject><foreignObject></foreignObject><iframe src="https://evil"></iframe></foreignObject>' +
+        '<ifr<iframe></iframe>ame srcdoc="<p>x</p>"></iframe><s:script>alert(1)</s:script><rect/></svg>'
+    );
+    expect(result).toBe('<svg xmlns:s="http://www.w3.org/2000/svg"><rect/></svg>');
+  });
+
+  it('should drop scriptable links, including obfuscated ones', () => {
+    const result = sanitizeSvg(
+      '<svg><a href="java&#x09;script:alert(1)"><text>x</text></a><a xlink:href="https://example.com"/><use href="#icon"/><image href="data:image/svg+xml;base64,PHN2Zz4="/></svg>'
+    );
+    expect(result).toBe('<svg><a><text>x</text></a><a xlink:href="https://example.com"/><use href="#icon"/><image/></svg>');
+  });
+
+  it('should drop entity declarations and stylesheets', () => {
+    const result = sanitizeSvg(
+      '<?xml version="1.0"?><?xml-stylesheet href="evil.xsl"?><!DOCTYPE svg [<!ENTITY x SYSTEM "file:///etc/passwd">]><svg>&x;</svg>'
+    );
+    expect(result).toBe('<?xml version="1.0"?><svg>&x;</svg>');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { createVersionId, findMatchingVersion, getVersionedKey, getVersionFolder } from '../versions.js';
+
+describe('getVersionFolder', () => {
+  it('should keep versions next to their key', () => {
+    expect(getVersionFolder('uploads/photo.jpg')).toBe('uploads/photo.jpg.versions');
+  });
+});
+
+describe('createVersionId', () => {
+  it('should build ids that sort chronologically and hold no colons', () => {
+    const earlier = createVersionId(new Date('2025-06-01T09:59:59.999Z'));
+    const later = createVersionId(new Date('2025-06-01T10:00:00.000Z'));
+
+    expect(earlier).toBe('2025-06-01T09-59-59-999Z');
+    expect([later, earlier].sort()).toEqual([earlier, later]);
+  });
+});
+
+describe('getVersionedKey', () => {
+  it('should recover the key of a version', () => {
+    expect(getVersionedKey('uploads/photo.jpg.versions/2025-06-01T10-00-00-000Z')).toBe('uploads/photo.jpg');
+  });
+
+  it('should ignore other keys', () => {
+    expect(getVersionedKey('uploads/photo.jpg')).toBeUndefined();
+    expect(getVersionedKey('.versions/a')).toBeUndefined();
+    expect(getVersionedKey('uploads/a.versions/b/c.jpg')).toBeUndefined();
+  });
+});
+
+describe('findMatchingVersion', () => {
+  const ids = ['2025-06-01T10-00-00-100Z', '2025-06-02T10-00-00-100Z', '2025-06-03T10-00-00-100Z'];
+
+  it('should pick the first version taken after the original one', () => {
+    expect(findMatchingVersion(ids, '2025-06-02T10-00-00-000Z', '2025-06-03T10-00-00-000Z')).toBe('2025-06-02T10-00-00-100Z');
+    expect(findMatchingVersion(ids, '2025-06-03T10-00-00-000Z')).toBe('2025-06-03T10-00-00-100Z');
+  });
+
+  it('should not reach into the next upload', () => {
+    expect(findMatchingVersion(ids, '2025-06-02T11-00-00-000Z', '2025-06-03T10-00-00-000Z')).toBeUndefined();
+  });
+});
@@ -0,0 +1,58 @@
+import { SignedUrlResult } from './types.js';
+
+export const DEFAULT_SIGN_BATCH_SIZE = 100;
+
+export type SignPaths = (bucket: string, paths: string[]) => Promise<Map<string, SignedUrlResult>>;
+
+interface Waiter {
+  resolve: (result: SignedUrlResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Collects single sign requests for `windowMs` and sends them as one batch per bucket.
+ * Each caller receives its own result; a thrown batch failure rejects every caller of that bucket.
+ */
+export function createSignCoalescer(windowMs: number, signPaths: SignPaths) {
+  let pending = new Map<string, Map<string, Waiter[]>>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    const batches = pending;
+    pending = new Map();
+    timer = undefined;
+
+    for (const [bucket, waitersByPath] of batches) {
+      signPaths(bucket, [...waitersByPath.keys()]).then(
+        (results) => {
+          for (const [path, waiters] of waitersByPath) {
+            const result = results.get(path) ?? { url: null, error: new Error(`No signed URL returned for ${path}`) };
+            waiters.forEach((waiter) => waiter.resolve(result));
+          }
+        },
+        (error) => {
+          for (const waiters of waitersByPath.values()) {
+            waiters.forEach((waiter) => waiter.reject(error));
+          }
+        }
+      );
+    }
+  };
+
+  return {
+    sign(bucket: string, path: string): Promise<SignedUrlResult> {
+      return new Promise((resolve, reject) => {
+        let waitersByPath = pending.get(bucket);
+        if (!waitersByPath) {
+          waitersByPath = new Map();
+          pending.set(bucket, waitersByPath);
+        }
+        const waiters = waitersByPath.get(path) ?? [];
+        waiters.push({ resolve, reject });
+        waitersByPath.set(path, waiters);
+
+        timer ??= setTimeout(flush, windowMs);
+      });
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import { ImageTransform, Logger, SignedUrlCacheEntry, SignedUrlStore } from './types.js';
+import { createLogger, getErrorFields } from './logger.js';
+
+export const DEFAULT_CACHE_MAX_SIZE = 1000;
+export const DEFAULT_CACHE_SAFETY_MARGIN = 60;
+
+export interface LruStore extends SignedUrlStore {
+  get(key: string): SignedUrlCacheEntry | undefined;
+  set(key: string, entry: SignedUrlCacheEntry): void;
+  size(): number;
+}
+
+/** In-memory LRU store: Map iteration order doubles as recency order */
+export function createLruStore(maxSize: number = DEFAULT_CACHE_MAX_SIZE): LruStore {
+  const entries = new Map<string, SignedUrlCacheEntry>();
+
+  return {
+    get(key: string): SignedUrlCacheEntry | undefined {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+
+    set(key: string, entry: SignedUrlCacheEntry): void {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxSize) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    size(): number {
+      return entries.size;
+    },
+  };
+}
+
+export interface SignedUrlCacheOptions {
+  store: SignedUrlStore;
+  safetyMargin: number;     // seconds before expiry when an entry stops being served
+  now?: () => number;       // ms, injectable for tests
+  logger?: Logger;
+}
+
+/** Cache key: object location plus everything that changes the signed URL */
+export function getSignedUrlCacheKey(
+  bucket: string,
+  path: string,
+  expiresIn: number,
+  transform?: ImageTransform,
+  download?: string
+): string {
+  const transformKey = transform
+    ? Object.keys(transform).sort().map((k) => `${k}=${transform[k as keyof ImageTransform]}`).join('&')
+    : '';
+  const key = `${bucket}/${path}|${expiresIn}|${transformKey}`;
+  return download === undefined ? key : `${key}|${encodeURIComponent(download)}`;
+}
+
+/**
+ * Reuses signed URLs until `safetyMargin` seconds before they expire.
+ * Store failures are logged and treated as misses so signing never breaks on a cache outage.
+ */
+export function createSignedUrlCache(options: SignedUrlCacheOptions) {
+  const now = options.now ?? Date.now;
+  const logger = options.logger ?? createLogger();
+  const stats = { hits: 0, misses: 0 };
+
+  return {
+    stats,
+
+    async get(key: string): Promise<string | undefined> {
+      let entry: SignedUrlCacheEntry | undefined;
+      try {
+        entry = await options.store.get(key);
+      } catch (error) {
+        logger.warn('Signed URL cache read failed', { operation: 'cache', ...getErrorFields(error) });
+      }
+
+      if (entry && entry.expiresAt - options.safetyMargin * 1000 > now()) {
+        stats.hits++;
+        return entry.url;
+      }
+      stats.misses++;
+      return undefined;
+    },
+
+    async set(key: string, url: string, expiresIn: number): Promise<void> {
+      // Not worth caching when the URL would never be served
+      if (expiresIn <= options.safetyMargin) {
+        return;
+      }
+      try {
+        await options.store.set(key, { url, expiresAt: now() + expiresIn * 1000 }, expiresIn);
+      } catch (error) {
+        logger.warn('Signed URL cache write failed', { operation: 'cache', ...getErrorFields(error) });
+      }
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { CacheControlConfig, CacheControlValue, StrapiFile } from './types.js';
+import { matchesRoute } from './routing.js';
+
+export const DEFAULT_CACHE_CONTROL = 3600;
+
+/**
+ * Cache-Control as storage uploads take it: `maxAge` is the seconds value sent as
+ * `cacheControl` (and in TUS metadata, which only carries max-age), `header` the full
+ * value when it holds more than "max-age={n}".
+ */
+export interface ResolvedCacheControl {
+  maxAge: string;
+  header?: string;
+}
+
+const toCacheControl = (value: CacheControlValue): ResolvedCacheControl => {
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return { maxAge: text };
+  }
+  const maxAge = /(?:^|[\s,])max-age=(\d+)/i.exec(text)?.[1] ?? '0';
+  return { maxAge, header: text };
+};
+
+/** Resolves a file's Cache-Control: a fixed value, the first matching rule, or the function's answer */
+export function createCacheControlResolver(config: CacheControlConfig = DEFAULT_CACHE_CONTROL) {
+  const fallback = toCacheControl(DEFAULT_CACHE_CONTROL);
+
+  return (file: StrapiFile): ResolvedCacheControl => {
+    let value: CacheControlValue | undefined;
+    if (typeof config === 'function') {
+      value = config(file);
+    } else if (Array.isArray(config)) {
+      value = config.find((rule) => matchesRoute(file, { mime: rule.mime, ext: rule.ext }))?.value;
+    } else {
+      value = config;
+    }
+    return value === undefined ? fallback : toCacheControl(value);
+  };
+}
@@ -0,0 +1,66 @@
+import { CdnConfig, CdnUrlContext, StorageLocation } from './types.js';
+import { parsePublicUrl } from './utils.js';
+import { ConfigError } from './errors.js';
+
+const PLACEHOLDER = /\{(bucket|key)\}/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Rewrites storage URLs to the configured CDN and maps CDN URLs back to their object, so
+ * records holding rewritten URLs can still be deleted and signed.
+ */
+export function createCdnUrls(config: CdnConfig, storageEndpoint: string, defaultBucket: string) {
+  const target = config.url;
+  const base = typeof target === 'string' && !PLACEHOLDER.test(target) ? target.replace(/\/+$/, '') : undefined;
+  const template = typeof target === 'string' && !base ? target : undefined;
+  if (template && !template.includes('{key}')) {
+    throw new ConfigError(`cdn.url template "${template}" must contain {key}.`);
+  }
+
+  // Template placeholders become capture groups: {bucket} one segment, {key} the rest
+  const templatePattern = template
+    ? new RegExp(
+        `^${template
+          .split(/(\{bucket\}|\{key\})/)
+          .map((part) => (part === '{bucket}' ? '(?<bucket>[^/?#]+)' : part === '{key}' ? '(?<key>[^?#]+)' : escapeRegExp(part)))
+          .join('')}(?:[?#]|$)`
+      )
+    : undefined;
+
+  return {
+    signedUrls: config.signedUrls ?? false,
+
+    rewrite(url: string, context: Omit<CdnUrlContext, 'url'>): string {
+      if (typeof target === 'function') {
+        return target({ url, ...context });
+      }
+      if (base) {
+        return url.startsWith(`${storageEndpoint}/`) ? `${base}${url.slice(storageEndpoint.length)}` : url;
+      }
+      // A template addresses stored objects; rendered formats keep their Supabase URL
+      if (context.rendered) {
+        return url;
+      }
+      const query = /[?#].*$/.exec(url)?.[0] ?? '';
+      return `${template!.replace('{bucket}', encodeURIComponent(context.bucket)).replace('{key}', encodeURI(context.key))}${query}`;
+    },
+
+    parse(url: string): StorageLocation | undefined {
+      if (config.parse) {
+        return config.parse(url);
+      }
+      if (base) {
+        return url.startsWith(`${base}/`) ? parsePublicUrl(`${storageEndpoint}${url.slice(base.length)}`) : undefined;
+      }
+      const groups = templatePattern?.exec(url)?.groups;
+      if (!groups) {
+        return undefined;
+      }
+      return {
+        bucket: groups.bucket ? decodeURIComponent(groups.bucket) : defaultBucket,
+        key: decodeURI(groups.key),
+      };
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { createHash } from 'crypto';
+import { Readable, Transform, pipeline } from 'stream';
+
+// Digests of the bytes actually sent to storage
+export interface Digests {
+  sha256: string;  // hex
+  md5: string;     // hex, comparable with single-part S3 ETags
+  bytes: number;
+}
+
+// What storage reports about a stored object (storage-js `info`)
+export interface StoredObjectInfo {
+  size?: number;
+  etag?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export function hashBuffer(buffer: Buffer): Digests {
+  return {
+    sha256: createHash('sha256').update(buffer).digest('hex'),
+    md5: createHash('md5').update(buffer).digest('hex'),
+    bytes: buffer.length,
+  };
+}
+
+/**
+ * Hashes a stream as it is read. `digests()` returns undefined until the stream has
+ * ended, so a partially sent file never yields a checksum.
+ */
+export function hashStream(stream: Readable) {
+  const sha256 = createHash('sha256');
+  const md5 = createHash('md5');
+  let bytes = 0;
+  let result: Digests | undefined;
+
+  const hasher = new Transform({
+    transform(piece: Buffer, _encoding, callback) {
+      sha256.update(piece);
+      md5.update(piece);
+      bytes += piece.length;
+      callback(null, piece);
+    },
+    flush(callback) {
+      result = { sha256: sha256.digest('hex'), md5: md5.digest('hex'), bytes };
+      callback();
+    },
+  });
+  // Destroys the source (temp file handle) when the upload aborts
+  pipeline(stream, hasher, () => {});
+
+  return {
+    stream: hasher as Readable,
+    digests: (): Digests | undefined => result,
+  };
+}
+
+/**
+ * Compares local digests with what storage reports: size always, the ETag when it is a
+ * plain MD5 (multipart and resumable uploads use "{md5}-{parts}"), and the stored sha256
+ * metadata when present. Returns a description of the first mismatch.
+ */
+export function findChecksumMismatch(info: StoredObjectInfo, digests: Digests): string | undefined {
+  if (typeof info.size === 'number' && info.size !== digests.bytes) {
+    return `stored size ${info.size} bytes, sent ${digests.bytes} bytes`;
+  }
+  const etag = info.etag?.replace(/"/g, '').toLowerCase();
+  if (etag && /^[0-9a-f]{32}$/.test(etag) && etag !== digests.md5) {
+    return `stored MD5 ${etag}, sent ${digests.md5}`;
+  }
+  const storedSha256 = info.metadata?.sha256;
+  if (typeof storedSha256 === 'string' && storedSha256 !== digests.sha256) {
+    return `stored SHA-256 ${storedSha256}, sent ${digests.sha256}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,103 @@
+import net from 'net';
+import { Readable } from 'stream';
+import { ClamAvOptions, ScanResult, Scanner } from './types.js';
+
+export const DEFAULT_CLAMAV_PORT = 3310;
+export const DEFAULT_CLAMAV_TIMEOUT = 60000;
+export const DEFAULT_CLAMAV_CHUNK_SIZE = 64 * 1024;
+
+/** Parses a clamd reply: "stream: OK", "stream: {signature} FOUND" or "... ERROR" */
+export function parseClamAvReply(reply: string): ScanResult {
+  const text = reply.replace(/[\0\n]+$/g, '').trim();
+  if (/^stream: OK$/.test(text)) {
+    return { clean: true };
+  }
+  const found = /^stream: (.+) FOUND$/.exec(text);
+  if (found) {
+    return { clean: false, threat: found[1] };
+  }
+  throw new Error(`clamd error: ${text || 'empty reply'}`);
+}
+
+/**
+ * Streams `content` to clamd with the INSTREAM command: "zINSTREAM\0", then chunks
+ * prefixed with their 4-byte big-endian length, then a zero-length chunk. clamd answers
+ * once and closes; it may answer early (e.g. size limit exceeded), which ends the upload.
+ */
+export function clamAvScan(content: Readable, options: ClamAvOptions = {}): Promise<ScanResult> {
+  const timeout = options.timeout ?? DEFAULT_CLAMAV_TIMEOUT;
+  const chunkSize = options.chunkSize ?? DEFAULT_CLAMAV_CHUNK_SIZE;
+
+  return new Promise<ScanResult>((resolve, reject) => {
+    const socket = options.socketPath
+      ? net.createConnection(options.socketPath)
+      : net.createConnection(options.port ?? DEFAULT_CLAMAV_PORT, options.host ?? '127.0.0.1');
+
+    let reply = '';
+    let settled = false;
+
+    const finish = (error?: unknown) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      socket.destroy();
+      content.destroy();
+      if (reply) {
+        // A reply wins over write errors caused by clamd closing early
+        try {
+          resolve(parseClamAvReply(reply));
+        } catch (parseError) {
+          reject(parseError);
+        }
+        return;
+      }
+      reject(error ?? new Error('clamd closed the connection without a reply'));
+    };
+
+    socket.setTimeout(timeout, () => finish(new Error(`clamd did not answer within ${timeout}ms`)));
+    socket.on('data', (data) => {
+      reply += data.toString('utf8');
+      if (reply.includes('\0')) {
+        finish();
+      }
+    });
+    socket.on('error', (error) => finish(error));
+    socket.on('close', () => finish());
+
+    const write = async (data: Buffer): Promise<void> => {
+      if (!socket.write(data)) {
+        await new Promise<void>((resume) => {
+          socket.once('drain', resume);
+          socket.once('close', resume);
+        });
+      }
+    };
+
+    socket.once('connect', async () => {
+      try {
+        await write(Buffer.from('zINSTREAM\0'));
+        for await (const piece of content) {
+          const buf: Buffer = Buffer.isBuffer(piece) ? piece : Buffer.from(piece);
+          for (let start = 0; start < buf.length && !settled; start += chunkSize) {
+            const part = buf.subarray(start, start + chunkSize);
+            const header = Buffer.alloc(4);
+            header.writeUInt32BE(part.length);
+            await write(Buffer.concat([header, part]));
+          }
+          if (settled) {
+            return;
+          }
+        }
+        await write(Buffer.alloc(4));
+      } catch (error) {
+        finish(error);
+      }
+    });
+  });
+}
+
+/** Built-in scanner backed by a clamd daemon */
+export function createClamAvScanner(options: ClamAvOptions = {}): Scanner {
+  return (_file, content) => clamAvScan(content, options);
+}
@@ -0,0 +1,75 @@
+import { StorageClient } from '@supabase/storage-js';
+import { Logger } from './types.js';
+import { RetryPolicy, withRetry } from './retry.js';
+import { toProviderError } from './errors.js';
+
+export const DEFAULT_REFS_PREFIX = '.refs';
+
+/** Key shared by every upload of the same content to the same directory: "{directory}/{sha256}{ext}" */
+export function getContentKey(directory: string, sha256: string, ext?: string): string {
+  const name = `${sha256}${(ext ?? '').toLowerCase()}`;
+  const cleanDir = directory.replace(/^\/+|\/+$/g, '');
+  return cleanDir ? `${cleanDir}/${name}` : name;
+}
+
+/**
+ * Reference counting with one empty marker object per Strapi file, stored at
+ * "{prefix}/{contentKey}/{file hash}". References are listed rather than counted, so
+ * concurrent uploads and deletes of the same content cannot lose an update. Uploads add their
+ * marker before checking for the content; deletes list again once the content is moved away,
+ * and put it back when an upload referenced it meanwhile.
+ */
+export function createRefCounter(storageClient: StorageClient, prefix: string, retryPolicy: RetryPolicy, logger: Logger) {
+  const getFolder = (contentKey: string) => `${prefix}/${contentKey}`;
+
+  /** Resolves true while any file references the content */
+  const has = async (bucket: string, contentKey: string): Promise<boolean> => {
+    const folder = getFolder(contentKey);
+    const { data, error } = await withRetry(
+      `Listing of ${folder}`,
+      retryPolicy,
+      () => storageClient.from(bucket).list(folder, { limit: 1 }),
+      { logger, fields: { operation: 'dedup', bucket, path: folder } }
+    );
+    if (error) {
+      throw toProviderError(error, 'Failed to count file references');
+    }
+    return data.length > 0;
+  };
+
+  return {
+    async add(bucket: string, contentKey: string, ref: string): Promise<void> {
+      const markerKey = `${getFolder(contentKey)}/${ref}`;
+      const { error } = await withRetry(
+        `Reference ${markerKey}`,
+        retryPolicy,
+        () =>
+          storageClient
+            .from(bucket)
+            .upload(markerKey, Buffer.alloc(0), { contentType: 'application/octet-stream', upsert: true }),
+        { logger, fields: { operation: 'dedup', bucket, path: markerKey } }
+      );
+      if (error) {
+        throw toProviderError(error, 'Failed to record file reference');
+      }
+    },
+
+    /** Removes the file's marker; resolves true while other references remain */
+    async release(bucket: string, contentKey: string, ref: string): Promise<boolean> {
+      const folder = getFolder(contentKey);
+      const fields = { operation: 'dedup', bucket, path: folder };
+      const { error } = await withRetry(
+        `Release of ${folder}/${ref}`,
+        retryPolicy,
+        () => storageClient.from(bucket).remove([`${folder}/${ref}`]),
+        { logger, fields }
+      );
+      if (error) {
+        throw toProviderError(error, 'Failed to release file reference');
+      }
+      return has(bucket, contentKey);
+    },
+
+    has,
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Error hierarchy thrown by the provider.
+ * Every error carries a stable `code`, the HTTP `status` when storage reported one,
+ * and the original storage-js error as `cause`.
+ */
+export class SupabaseProviderError extends Error {
+  readonly code: string = 'STORAGE_ERROR';
+  readonly status?: number;
+
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+  }
+}
+
+/** Object or bucket does not exist */
+export class NotFoundError extends SupabaseProviderError {
+  readonly code = 'NOT_FOUND';
+  readonly resource: 'object' | 'bucket';
+
+  constructor(message: string, options: { status?: number; cause?: unknown; resource?: 'object' | 'bucket' } = {}) {
+    super(message, options);
+    this.resource = options.resource ?? 'object';
+  }
+}
+
+/** Invalid or insufficient credentials (e.g. anon key instead of service_role) */
+export class UnauthorizedError extends SupabaseProviderError {
+  readonly code = 'UNAUTHORIZED';
+}
+
+/** Project storage quota or rate limit reached */
+export class QuotaExceededError extends SupabaseProviderError {
+  readonly code = 'QUOTA_EXCEEDED';
+}
+
+/** File larger than the bucket or project upload limit */
+export class PayloadTooLargeError extends SupabaseProviderError {
+  readonly code = 'PAYLOAD_TOO_LARGE';
+}
+
+/** Connection failures, timeouts and unparseable gateway responses */
+export class NetworkError extends SupabaseProviderError {
+  readonly code = 'NETWORK_ERROR';
+}
+
+/** Object key already taken and the conflict policy forbids replacing it */
+export class ConflictError extends SupabaseProviderError {
+  readonly code = 'CONFLICT';
+}
+
+/** Invalid provider configuration */
+export class ConfigError extends SupabaseProviderError {
+  readonly code = 'CONFIG_ERROR';
+}
+
+/** Invalid arguments passed to a provider method, such as getSignedUrl options */
+export class InvalidOptionsError extends SupabaseProviderError {
+  readonly code = 'INVALID_OPTIONS';
+
+  constructor(message: string) {
+    super(message, { status: 400 });
+  }
+}
+
+export type FileValidationReason = 'extension' | 'mime-type' | 'content-mismatch' | 'svg' | 'image';
+
+/** Upload rejected before reaching storage: blocked type, content not matching its type, or SVG policy */
+export class FileValidationError extends SupabaseProviderError {
+  readonly code = 'INVALID_FILE';
+  readonly reason: FileValidationReason;
+
+  constructor(message: string, options: { reason: FileValidationReason; cause?: unknown }) {
+    super(message, { status: 400, cause: options.cause });
+    this.reason = options.reason;
+  }
+}
+
+/** Virus scanner reported a threat; the object was not published */
+export class InfectedFileError extends SupabaseProviderError {
+  readonly code = 'INFECTED_FILE';
+  readonly threat: string;
+
+  constructor(message: string, options: { threat: string }) {
+    super(message, { status: 422 });
+    this.threat = options.threat;
+  }
+}
+
+/** Scanner unreachable or failing; uploads are refused rather than published unscanned */
+export class ScanFailedError extends SupabaseProviderError {
+  readonly code = 'SCAN_FAILED';
+}
+
+/** Stored object does not match the bytes that were sent; the object was removed */
+export class ChecksumMismatchError extends SupabaseProviderError {
+  readonly code = 'CHECKSUM_MISMATCH';
+}
+
+/** Socket-level codes of network failures, mapped to `NetworkError` and retried by default */
+export const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND', 'UND_ERR_SOCKET'];
+
+/** Fields read from storage-js errors, fetch failures and their causes */
+interface ErrorLike {
+  code?: unknown;
+  cause?: unknown;
+  originalError?: unknown;
+  name?: unknown;
+  message?: unknown;
+  error?: unknown;       // storage API error name, e.g. "not_found"
+  status?: unknown;
+  statusCode?: unknown;  // storage API body status, often a string
+}
+
+/** Collects error codes from the error and its nested causes (fetch wraps socket errors) */
+export function getErrorCodes(error: unknown): string[] {
+  const codes: string[] = [];
+  let current = error;
+  for (let depth = 0; current && typeof current === 'object' && depth < 4; depth++) {
+    const { code, cause, originalError } = current as ErrorLike;
+    if (typeof code === 'string') {
+      codes.push(code);
+    }
+    current = cause ?? originalError;
+  }
+  return codes;
+}
+
+/** storage-js "unknown" errors (non-JSON 5xx pages, fetch failures) and fetch's own "fetch failed" */
+export function isFetchFailure(error: unknown): boolean {
+  return (error as ErrorLike | undefined)?.name === 'StorageUnknownError' || (error instanceof TypeError && error.message === 'fetch failed');
+}
+
+/** Reads the HTTP status; Supabase often answers 400 with the real status in the body's statusCode */
+const getStatus = (error: ErrorLike | undefined): number | undefined => {
+  const bodyStatus = Number(error?.statusCode);
+  if (Number.isInteger(bodyStatus) && bodyStatus >= 400) {
+    return bodyStatus;
+  }
+  return typeof error?.status === 'number' ? error.status : undefined;
+};
+
+const isNetworkFailure = (error: unknown): boolean =>
+  getErrorCodes(error).some((code) => NETWORK_ERROR_CODES.includes(code)) || isFetchFailure(error);
+
+/**
+ * Maps a storage-js error (or anything thrown) to the provider error hierarchy.
+ * `prefix` keeps the message format callers rely on: "{prefix}: {original message}".
+ */
+export function toProviderError(error: unknown, prefix?: string): SupabaseProviderError {
+  if (error instanceof SupabaseProviderError) {
+    return error;
+  }
+
+  const err = error as ErrorLike | undefined;
+  const original = String(err?.message ?? error);
+  const message = prefix ? `${prefix}: ${original}` : original;
+  const status = getStatus(err);
+  const options = { status, cause: error };
+  const text = `${err?.error ?? ''} ${err?.statusCode ?? ''} ${original}`.toLowerCase();
+
+  if (status === 413 || /payload too large|entitytoolarge|maximum allowed size|exceeded the maximum/.test(text)) {
+    return new PayloadTooLargeError(message, options);
+  }
+  if (status === 402 || status === 429 || /quota|too many requests|rate limit/.test(text)) {
+    return new QuotaExceededError(message, options);
+  }
+  if (status === 401 || status === 403 || /unauthorized|forbidden|invalid jwt|permission|access denied/.test(text)) {
+    return new UnauthorizedError(message, options);
+  }
+  if (status === 409 || /already exists/.test(text)) {
+    return new ConflictError(message, options);
+  }
+  if (status === 404 || /not[ _]found|nosuchkey|nosuchbucket|does not exist/.test(text)) {
+    const resource = /bucket/.test(text) ? 'bucket' : 'object';
+    return new NotFoundError(message, { ...options, resource });
+  }
+  if (isNetworkFailure(err)) {
+    return new NetworkError(message, options);
+  }
+  return new SupabaseProviderError(message, options);
+}
@@ -1,11 +1,88 @@
+import { Readable } from 'stream';
 import { StorageClient } from '@supabase/storage-js';
-import { ProviderConfig, UploadProvider, StrapiFile } from './types.js';
-import { getBearerToken, getStorageEndpoint, getPathKey, kbytesToBytes, bytesToHumanReadable } from './utils.js';
+import {
+  ProviderConfig,
+  UploadProvider,
+  StrapiFile,
+  StorageLocation,
+  SignedUrlResult,
+  ImageTransform,
+  ObjectMetadata,
+  SignedUrlOptions,
+  SignedUploadUrl,
+  ReconcileOptions,
+  ReconcileReport,
+  MigrationOptions,
+  MigrationReport,
+  PurgeTrashOptions,
+  PurgeTrashReport,
+  FileVersion,
+} from './types.js';
+import {
+  getBearerToken,
+  getStorageEndpoint,
+  getPathKey,
+  getSuffixedKey,
+  getStoredLocation,
+  getFileByteSize,
+  chunk,
+  kbytesToBytes,
+  bytesToKbytes,
+  readStream,
+} from './utils.js';
+import { tusUpload, DEFAULT_TUS_CHUNK_SIZE } from './tus.js';
+import { resolveRetryPolicy, withRetry } from './retry.js';
+import { createFormatVariantTracker, DEFAULT_FORMAT_TRANSFORMS, FormatVariant } from './transform.js';
+import { createRouter } from './routing.js';
+import { createLruStore, createSignedUrlCache, getSignedUrlCacheKey, DEFAULT_CACHE_SAFETY_MARGIN } from './cache.js';
+import { createSignCoalescer, DEFAULT_SIGN_BATCH_SIZE } from './batch.js';
+import { createLogger, getErrorFields, elapsed } from './logger.js';
+import { resolveValidation, validateFile, validateDeclaredType } from './validation.js';
+import { createSizePolicy, createSizeLimitError, limitStream } from './limits.js';
+import { resolveScanner, scanContent, teeStream } from './scan.js';
+import { createClamAvScanner } from './clamav.js';
+import { Digests, hashBuffer, hashStream, findChecksumMismatch } from './checksum.js';
+import { createRefCounter, getContentKey, DEFAULT_REFS_PREFIX } from './dedup.js';
+import { createCacheControlResolver } from './cacheControl.js';
+import { CopyObjectOptions, createMetadataMapper, copyObjectWithMetadata, hasStoredMetadata } from './metadata.js';
+import { createCdnUrls } from './cdn.js';
+import { createUrlSigner } from './signer.js';
+import { resolveSignedUrlOptions, ResolvedSignedUrlOptions } from './signedUrlOptions.js';
+import { createImageOptimizer, DEFAULT_OPTIMIZATION_RULES } from './optimize.js';
+import { reconcileBucket, listObjects, DEFAULT_RECONCILE_PAGE_SIZE, DEFAULT_ORPHAN_GRACE_PERIOD } from './reconcile.js';
+import { createSourceReader, migrateFiles, DEFAULT_MIGRATION_CONCURRENCY } from './migrate.js';
+import { getTrashKey, purgeTrash, DEFAULT_TRASH_PREFIX, DEFAULT_TRASH_RETENTION } from './trash.js';
+import { getVersionFolder, createVersionId, findMatchingVersion } from './versions.js';
+import {
+  SupabaseProviderError,
+  NotFoundError,
+  UnauthorizedError,
+  QuotaExceededError,
+  PayloadTooLargeError,
+  NetworkError,
+  ConflictError,
+  ConfigError,
+  FileValidationError,
+  InfectedFileError,
+  ScanFailedError,
+  ChecksumMismatchError,
+  InvalidOptionsError,
+  toProviderError,
+} from './errors.js';
+
+// Highest "-{n}" suffix tried by the 'rename' conflict policy
+const MAX_RENAME_SUFFIX = 100;
+
+// Milliseconds a version id moves on when snapshots of one key collide
+const MAX_VERSION_ID_ATTEMPTS = 10;
+
+// Package name, as set in `config.upload.provider`; migrated records are given it
+const PROVIDER_NAME = 'strapi-provider-upload-supabase-bucket';
 
 export default {
   init(config: ProviderConfig): UploadProvider {
     if (!config.apiUrl || !config.apiKey || !config.bucket) {
-      throw new Error(
+      throw new ConfigError(
         'Supabase provider requires apiUrl, apiKey, and bucket configuration. ' +
         'Please check your plugin configuration.'
       );
@@ -14,45 +91,1104 @@ export default {
     const directory = config.directory ?? '';
     const publicFiles = config.publicFiles ?? true;
     const signedUrlExpires = config.signedUrlExpires ?? 3600;
+    const signedUrlErrors = config.signedUrlErrors ?? 'fallback';
+    const keyStrategy = config.keyStrategy ?? 'hash';
+    const conflictPolicy = config.onConflict ?? 'overwrite';
+    const resolveCacheControl = createCacheControlResolver(config.cacheControl);
+    const mapMetadata = createMetadataMapper(config.objectMetadata);
 
-    const storageEndpoint = getStorageEndpoint(config.apiUrl);
+    const logger = createLogger(config.logger);
 
-    const storageClient = new StorageClient(storageEndpoint, {
+    const storageEndpoint = getStorageEndpoint(config.apiUrl);
+    const authHeaders = {
       apikey: config.apiKey,
       Authorization: getBearerToken(config.apiKey),
+    };
+
+    const storageClient = new StorageClient(storageEndpoint, authHeaders);
+
+    const cdnUrls = config.cdn ? createCdnUrls(config.cdn, storageEndpoint, config.bucket) : undefined;
+
+    /** Location recorded at upload, or recovered from a Supabase or CDN URL */
+    const getLocation = (file: StrapiFile): StorageLocation | undefined =>
+      getStoredLocation(file, config.bucket, cdnUrls?.parse);
+
+    /** Public URL of an object, through the CDN when configured */
+    const getPublicUrl = (bucket: string, key: string, transform?: ImageTransform): string => {
+      const { data } = transform
+        ? storageClient.from(bucket).getPublicUrl(key, { transform })
+        : storageClient.from(bucket).getPublicUrl(key);
+      return cdnUrls ? cdnUrls.rewrite(data.publicUrl, { bucket, key, signed: false, rendered: !!transform }) : data.publicUrl;
+    };
+
+    /** Signed URLs go through the CDN only with `cdn.signedUrls`, since the CDN must forward the token */
+    const toSignedUrl = (url: string, bucket: string, key: string, transform?: ImageTransform): string =>
+      cdnUrls?.signedUrls ? cdnUrls.rewrite(url, { bucket, key, signed: true, rendered: !!transform }) : url;
+
+    const signLocally = config.urlSigner ? createUrlSigner(config.urlSigner, { expiresIn: signedUrlExpires }) : undefined;
+
+    const router = createRouter(config.routes ?? [], {
+      bucket: config.bucket,
+      directory,
+      publicFiles,
     });
 
+    const retryPolicy = resolveRetryPolicy(config.retry);
+    const resumableThreshold = config.resumable?.threshold ?? DEFAULT_TUS_CHUNK_SIZE;
+
+    /** Large files go through the TUS endpoint so a dropped connection resumes instead of restarting */
+    const shouldUseResumable = (file: StrapiFile): boolean =>
+      !!config.resumable && getFileByteSize(file) >= resumableThreshold;
+
+    const formatTransforms = config.imageTransformations === true
+      ? DEFAULT_FORMAT_TRANSFORMS
+      : config.imageTransformations || undefined;
+    const formatVariants = formatTransforms ? createFormatVariantTracker(formatTransforms) : undefined;
+
+    const validation = resolveValidation(config.validation);
+
+    const imageOptimizer = config.imageOptimization
+      ? createImageOptimizer(config.imageOptimization === true ? DEFAULT_OPTIMIZATION_RULES : config.imageOptimization)
+      : undefined;
+
+    const sizePolicy = createSizePolicy(config.sizeLimits ?? []);
+    // Strapi passes its global sizeLimit to checkFileSize only; remembered for upload-time checks
+    let globalSizeLimit: number | undefined;
+
+    const scanner = resolveScanner(config.scan);
+    const quarantinePrefix = config.scan?.quarantine?.replace(/^\/+|\/+$/g, '');
+
+    const checksumConfig = config.checksum === true ? {} : config.checksum || undefined;
+    const dedupConfig = config.dedup === true ? {} : config.dedup || undefined;
+    // Dedup addresses content by its hash, so it always computes checksums
+    const checksums = checksumConfig || dedupConfig ? { verify: checksumConfig?.verify ?? true } : undefined;
+    const refsPrefix = (dedupConfig?.refsPrefix ?? DEFAULT_REFS_PREFIX).replace(/^\/+|\/+$/g, '');
+    // Also used by delete, so files stored while dedup was on are released after it is turned off
+    const refs = createRefCounter(storageClient, refsPrefix, retryPolicy, logger);
+
+    const softDeleteConfig = config.softDelete === true ? {} : config.softDelete || undefined;
+    const trashPrefix = softDeleteConfig && (softDeleteConfig.prefix ?? DEFAULT_TRASH_PREFIX).replace(/^\/+|\/+$/g, '');
+    if (trashPrefix === '') {
+      throw new ConfigError('softDelete.prefix must not be empty.');
+    }
+    const trashRetention = softDeleteConfig?.retention ?? DEFAULT_TRASH_RETENTION;
+
+    const versioningConfig = config.versioning === true ? {} : config.versioning || undefined;
+    const maxVersions = versioningConfig?.maxVersions;
+    if (maxVersions !== undefined && !(Number.isInteger(maxVersions) && maxVersions >= 1)) {
+      throw new ConfigError(`versioning.maxVersions must be a positive integer, got ${maxVersions}.`);
+    }
+
+    const cacheConfig = config.signedUrlCache === true ? {} : config.signedUrlCache || undefined;
+    const signedUrlCache = cacheConfig
+      ? createSignedUrlCache({
+          store: cacheConfig.store ?? createLruStore(cacheConfig.maxSize),
+          safetyMargin: cacheConfig.safetyMargin ?? DEFAULT_CACHE_SAFETY_MARGIN,
+          logger,
+        })
+      : undefined;
+
+    const signBatchSize = config.signedUrlBatch?.maxBatchSize ?? DEFAULT_SIGN_BATCH_SIZE;
+
+    /** Signs paths of one bucket with createSignedUrls, `signBatchSize` paths per request */
+    const signPaths = async (bucket: string, paths: string[]): Promise<Map<string, SignedUrlResult>> => {
+      const results = new Map<string, SignedUrlResult>();
+      if (signLocally) {
+        paths.forEach((path) => results.set(path, { url: signLocally({ bucket, key: path }), error: null }));
+        logger.debug('Signed URLs generated locally', { operation: 'signBatch', bucket, count: paths.length });
+        return results;
+      }
+
+      for (const group of chunk(paths, signBatchSize)) {
+        const fields = { operation: 'signBatch', bucket, count: group.length };
+        const start = performance.now();
+        const { data, error } = await withRetry(
+          `Batch signing of ${group.length} files`,
+          retryPolicy,
+          () => storageClient.from(bucket).createSignedUrls(group, signedUrlExpires),
+          { logger, fields }
+        );
+
+        if (error) {
+          const batchError = toProviderError(error);
+          logger.warn('Batch signing failed', { ...fields, duration: elapsed(start), ...getErrorFields(batchError) });
+          group.forEach((path) => results.set(path, { url: null, error: batchError }));
+          continue;
+        }
+        logger.debug('Batch signed', { ...fields, duration: elapsed(start) });
+        for (const item of data) {
+          if (!item.path) {
+            continue;
+          }
+          results.set(
+            item.path,
+            item.error || !item.signedUrl
+              ? { url: null, error: toProviderError({ message: item.error ?? 'No signed URL returned' }) }
+              : { url: toSignedUrl(item.signedUrl, bucket, item.path), error: null }
+          );
+        }
+      }
+      return results;
+    };
+
+    const signCoalescer = config.signedUrlBatch?.coalesceWindow !== undefined
+      ? createSignCoalescer(config.signedUrlBatch.coalesceWindow, signPaths)
+      : undefined;
+
+    /**
+     * Signs one object. Transforms and download names cannot go through createSignedUrls or a
+     * local signer, so they always take a createSignedUrl request; the coalescer only batches
+     * URLs with the default expiry.
+     */
+    const signOne = async (
+      bucket: string,
+      path: string,
+      options: Partial<ResolvedSignedUrlOptions> = {}
+    ): Promise<SignedUrlResult> => {
+      const { expiresIn = signedUrlExpires, download, transform } = options;
+      const plain = !transform && download === undefined;
+      if (signLocally && plain) {
+        logger.debug('Signed URL generated locally', { operation: 'sign', bucket, path });
+        return { url: signLocally({ bucket, key: path }, expiresIn), error: null };
+      }
+      if (signCoalescer && plain && expiresIn === signedUrlExpires) {
+        return signCoalescer.sign(bucket, path);
+      }
+      const fields = { operation: 'sign', bucket, path };
+      const start = performance.now();
+      const { data, error } = await withRetry(
+        `Signing of ${path}`,
+        retryPolicy,
+        () =>
+          transform
+            ? storageClient.from(bucket).createSignedUrl(path, expiresIn, { transform })
+            : storageClient.from(bucket).createSignedUrl(path, expiresIn),
+        { logger, fields }
+      );
+      if (error) {
+        return { url: null, error: toProviderError(error) };
+      }
+      logger.debug('Signed URL generated', { ...fields, duration: elapsed(start) });
+      // storage-js would pass the name through encodeURI, which leaves "&", "#" and "+" intact
+      const signedUrl = download === undefined ? data.signedUrl : `${data.signedUrl}&download=${encodeURIComponent(download)}`;
+      return { url: toSignedUrl(signedUrl, bucket, path, transform), error: null };
+    };
+
+    /**
+     * A file record and its formats, each as a file of its own. Formats keep the record's other
+     * fields (id, caption...) but only their own provider_metadata, never the original's location.
+     */
+    const withFormats = (file: StrapiFile): StrapiFile[] => [
+      file,
+      ...Object.values(file.formats ?? {}).map((format) => ({
+        ...file,
+        provider_metadata: null,
+        ...format,
+        formats: null,
+      })),
+    ];
+
+    /** Stored location first; otherwise recompute with the route the file matches today */
+    const resolveLocation = (file: StrapiFile): StorageLocation => {
+      const stored = getLocation(file);
+      if (stored) {
+        return stored;
+      }
+      const route = router.resolve(file);
+      return { bucket: route.bucket, key: getPathKey(file, route.directory, keyStrategy) };
+    };
+
+    /**
+     * Points a Strapi format (thumbnail, small, ...) at the original rendered through
+     * /render/image/ instead of storing the resized copy.
+     */
+    const applyFormatVariant = (file: StrapiFile, variant: FormatVariant): void => {
+      // Nothing is uploaded, release the temp file handle
+      file.stream?.destroy();
+
+      const { bucket, key } = variant.original;
+      if (router.isBucketPublic(bucket)) {
+        file.url = getPublicUrl(bucket, key, variant.transform);
+      } else {
+        file.url = key;
+      }
+      file.provider_metadata = {
+        ...file.provider_metadata,
+        bucket,
+        key,
+        transform: variant.transform,
+      };
+      logger.debug('Format rendered from original', { operation: 'upload', bucket, path: key, format: variant.format });
+    };
+
+    /**
+     * Writes one object, through TUS for large files. `replay` is the buffer re-sent on
+     * retries; streams are not retried. A tripped size guard wins over the storage error.
+     * `upsert` defaults to true: staged, quarantined and content-addressed keys are always replaced.
+     */
+    const writeObject = async (
+      file: StrapiFile,
+      target: {
+        bucket: string;
+        key: string;
+        body: Buffer | Readable;
+        replay?: Buffer;
+        sizeGuard?: { error?: Error };
+        metadata?: ObjectMetadata;
+        upsert?: boolean;
+      }
+    ): Promise<void> => {
+      const { bucket, key, body, replay, sizeGuard, metadata, upsert = true } = target;
+      const cacheControl = resolveCacheControl(file);
+      const resumable = shouldUseResumable(file);
+      const fields = { operation: 'upload', bucket, path: key, bytes: getFileByteSize(file), resumable };
+      const start = performance.now();
+
+      if (resumable) {
+        try {
+          await tusUpload({
+            endpoint: `${storageEndpoint}/upload/resumable`,
+            headers: authHeaders,
+            bucket,
+            objectName: key,
+            contentType: file.mime,
+            cacheControl: cacheControl.maxAge,
+            upsert,
+            metadata,
+            chunkSize: config.resumable?.chunkSize,
+            retryDelays: config.resumable?.retryDelays,
+            body,
+          });
+        } catch (error) {
+          const providerError = sizeGuard?.error ?? toProviderError(error, 'Failed to upload file to Supabase');
+          logger.error('Resumable upload failed', { ...fields, duration: elapsed(start), ...getErrorFields(providerError) });
+          throw providerError;
+        }
+      } else {
+        // A consumed stream cannot be replayed, so only buffer-backed files are retried
+        const policy = replay ? retryPolicy : { ...retryPolicy, maxAttempts: 1 };
+        const { error } = await withRetry(
+          `Upload of ${key}`,
+          policy,
+          (attempt) =>
+            storageClient
+              .from(bucket)
+              .upload(key, attempt > 1 ? replay! : body, {
+                contentType: file.mime,
+                duplex: 'half',
+                upsert,
+                cacheControl: cacheControl.maxAge,
+                metadata,
+                // storage-js only sends "max-age={cacheControl}"; other directives need the raw header
+                ...(cacheControl.header && { headers: { 'cache-control': cacheControl.header } }),
+              }),
+          { logger, fields }
+        );
+
+        if (error) {
+          const providerError = sizeGuard?.error ?? toProviderError(error, 'Failed to upload file to Supabase');
+          logger.error('Upload failed', { ...fields, duration: elapsed(start), ...getErrorFields(providerError) });
+          throw providerError;
+        }
+      }
+      logger.debug('Upload complete', { ...fields, duration: elapsed(start) });
+    };
+
+    /** Best-effort removal of an object that must not stay around (rejected or staged uploads) */
+    const removeQuietly = async (bucket: string, key: string, operation = 'scan'): Promise<void> => {
+      const { error } = await storageClient.from(bucket).remove([key]).catch((e) => ({ error: e }));
+      if (error) {
+        logger.warn('Failed to remove rejected object', { operation, bucket, path: key, ...getErrorFields(error) });
+      }
+    };
+
+    /** Drops the reference of an upload that failed; no Strapi record will ever release it */
+    const releaseQuietly = async (bucket: string, contentKey: string, ref: string): Promise<void> => {
+      await refs.release(bucket, contentKey, ref).catch((error) =>
+        logger.warn('Failed to release file reference', { operation: 'dedup', bucket, path: contentKey, ...getErrorFields(error) })
+      );
+    };
+
+    /**
+     * Compares the stored object with the bytes that were sent, when verification is on.
+     * An object that cannot be verified or does not match is removed.
+     */
+    const verifyUpload = async (bucket: string, key: string, digests: Digests): Promise<void> => {
+      if (!checksums?.verify) {
+        return;
+      }
+      const fields = { operation: 'verify', bucket, path: key };
+      const start = performance.now();
+      const { data, error } = await withRetry(
+        `Verification of ${key}`,
+        retryPolicy,
+        () => storageClient.from(bucket).info(key),
+        { logger, fields }
+      );
+      const mismatch = error ? undefined : findChecksumMismatch(data, digests);
+      if (error || mismatch) {
+        const verifyError = error
+          ? toProviderError(error, 'Failed to verify uploaded file')
+          : new ChecksumMismatchError(`Checksum mismatch for ${key}: ${mismatch}`);
+        logger.error('Upload verification failed', { ...fields, duration: elapsed(start), ...getErrorFields(verifyError) });
+        await removeQuietly(bucket, key, 'verify');
+        throw verifyError;
+      }
+      logger.debug('Upload verified', { ...fields, duration: elapsed(start), sha256: digests.sha256 });
+    };
+
+    /** Scans content, logging the verdict; throws InfectedFileError or ScanFailedError */
+    const runScan = async (file: StrapiFile, content: Readable, location: StorageLocation): Promise<void> => {
+      const fields = { operation: 'scan', bucket: location.bucket, path: location.key };
+      const start = performance.now();
+      try {
+        await scanContent(scanner!, file, content);
+      } catch (error) {
+        logger.warn('Upload rejected by virus scan', { ...fields, duration: elapsed(start), ...getErrorFields(error) });
+        throw error;
+      }
+      logger.debug('Virus scan clean', { ...fields, duration: elapsed(start) });
+    };
+
+    /**
+     * Moves a staged object to its final key. An existing object is replaced like upsert
+     * does, kept (deduplicated content is identical) or left alone with a ConflictError.
+     */
+    const publishObject = async (
+      bucket: string,
+      from: string,
+      to: string,
+      onConflict: 'replace' | 'keep' | 'fail' = 'replace'
+    ): Promise<void> => {
+      const fields = { operation: 'publish', bucket, path: to };
+      const move = () =>
+        withRetry(`Publish of ${to}`, retryPolicy, () => storageClient.from(bucket).move(from, to), { logger, fields });
+
+      let { error } = await move();
+      if (error && onConflict !== 'fail' && toProviderError(error) instanceof ConflictError) {
+        if (onConflict === 'keep') {
+          await removeQuietly(bucket, from, 'dedup');
+          return;
+        }
+        await storageClient.from(bucket).remove([to]);
+        ({ error } = await move());
+      }
+      if (error) {
+        await removeQuietly(bucket, from);
+        throw toProviderError(error, 'Failed to publish scanned file');
+      }
+    };
+
+    /**
+     * Uploads to `quarantineKey` while the scanner reads the same bytes; infected or
+     * unscanned objects are removed. The caller publishes the object once this resolves.
+     */
+    const uploadQuarantined = async (
+      file: StrapiFile,
+      location: StorageLocation,
+      quarantineKey: string,
+      options: { sizeGuard?: { error?: Error }; metadata?: ObjectMetadata } = {}
+    ): Promise<void> => {
+      const { bucket } = location;
+      const { sizeGuard, metadata } = options;
+      const [uploadBody, scanBody] = file.buffer
+        ? [file.buffer, Readable.from([file.buffer])]
+        : teeStream(file.stream!);
+
+      const scanning = runScan(file, scanBody, location).then(
+        // Drain whatever the scanner left unread so the upload branch keeps flowing
+        () => {
+          scanBody.resume();
+        },
+        (error) => {
+          if (!Buffer.isBuffer(uploadBody)) {
+            uploadBody.destroy();
+          }
+          throw error;
+        }
+      );
+      const writing = writeObject(file, {
+        bucket,
+        key: quarantineKey,
+        body: uploadBody,
+        replay: file.buffer,
+        sizeGuard,
+        metadata,
+      }).catch(
+        (error) => {
+          scanBody.destroy();
+          throw error;
+        }
+      );
+
+      const [written, scanned] = await Promise.allSettled([writing, scanning]);
+      if (scanned.status === 'rejected' && (scanned.reason instanceof InfectedFileError || written.status === 'fulfilled')) {
+        await removeQuietly(bucket, quarantineKey);
+        throw scanned.reason;
+      }
+      if (written.status === 'rejected') {
+        throw written.reason;
+      }
+    };
+
+    /** Reads a stream into `file.buffer`; the size guard's error wins over the read error */
+    const bufferStream = async (file: StrapiFile, sizeGuard?: { error?: Error }): Promise<Buffer> => {
+      if (!file.buffer) {
+        file.buffer = await readStream(file.stream!).catch((error) => {
+          throw sizeGuard?.error ?? error;
+        });
+        file.stream = undefined;
+      }
+      return file.buffer;
+    };
+
+    /**
+     * Applies the size rule to content read before the upload's own check, which only sees what
+     * is left afterwards: buffers are measured, streams fail once they pass the limit.
+     */
+    const limitInput = (file: StrapiFile): void => {
+      const sizeRule = sizePolicy.resolve(file, router.resolve(file), globalSizeLimit);
+      if (!sizeRule) {
+        return;
+      }
+      if (file.buffer && file.buffer.length > sizeRule.maxSize) {
+        throw createSizeLimitError(file, sizeRule, file.buffer.length);
+      }
+      if (!file.buffer && file.stream) {
+        file.stream = limitStream(file.stream, file, sizeRule).stream;
+      }
+    };
+
+    /**
+     * Replaces an image with its optimized encoding before its key is computed, so the key,
+     * name, extension, mime type, size and dimensions all describe what is stored.
+     */
+    const optimizeImage = async (file: StrapiFile): Promise<void> => {
+      const fields = { operation: 'optimize', path: file.name };
+      const start = performance.now();
+      let content: Buffer;
+      let optimized;
+      try {
+        // The input is limited before it is decoded: the upload's size check only sees the output
+        limitInput(file);
+        content = await bufferStream(file);
+        optimized = await imageOptimizer!.optimize(file, content);
+      } catch (error) {
+        logger.warn('Upload rejected', { ...fields, duration: elapsed(start), ...getErrorFields(error) });
+        throw error;
+      }
+      if (!optimized) {
+        return;
+      }
+
+      if (optimized.ext !== file.ext && file.name.toLowerCase().endsWith(file.ext.toLowerCase())) {
+        file.name = `${file.name.slice(0, file.name.length - file.ext.length)}${optimized.ext}`;
+      }
+      file.buffer = optimized.buffer;
+      file.ext = optimized.ext;
+      file.mime = optimized.mime;
+      file.size = bytesToKbytes(optimized.buffer.length);
+      file.width = optimized.width;
+      file.height = optimized.height;
+      logger.debug('Image optimized', {
+        ...fields,
+        duration: elapsed(start),
+        bytes: optimized.buffer.length,
+        originalBytes: content.length,
+        mime: optimized.mime,
+      });
+    };
+
+    const exists = async (bucket: string, key: string): Promise<boolean> => {
+      const { data } = await storageClient.from(bucket).exists(key).catch(() => ({ data: false }));
+      return data === true;
+    };
+
+    /**
+     * First free key among `key`, "{name}-1{ext}", "{name}-2{ext}", ... for the 'rename'
+     * policy. Uploads still use upsert: false, so a key taken meanwhile fails with ConflictError.
+     */
+    const findFreeKey = async (bucket: string, key: string): Promise<string> => {
+      for (let n = 0; n <= MAX_RENAME_SUFFIX; n++) {
+        const candidate = n === 0 ? key : getSuffixedKey(key, n);
+        if (!(await exists(bucket, candidate))) {
+          return candidate;
+        }
+      }
+      throw new ConflictError(`No free key for ${key}: ${MAX_RENAME_SUFFIX} renamed copies already exist`, { status: 409 });
+    };
+
+    /** Reads an object back, for checks on content that never passed through Strapi */
+    const downloadObject = async (bucket: string, key: string): Promise<Buffer> => {
+      const { data, error } = await withRetry(
+        `Download of ${key}`,
+        retryPolicy,
+        () => storageClient.from(bucket).download(key),
+        { logger, fields: { operation: 'finalize', bucket, path: key } }
+      );
+      if (error) {
+        throw toProviderError(error, 'Failed to read uploaded file');
+      }
+      return Buffer.from(await data.arrayBuffer());
+    };
+
+    /**
+     * Applies the upload checks to a directly uploaded object: stored content type, size
+     * limits, then content validation, virus scan and checksum, which read the object back.
+     * Returns the digests when checksums are on.
+     */
+    const checkDirectUpload = async (file: StrapiFile, bucket: string, key: string): Promise<Digests | undefined> => {
+      const { data: info, error } = await withRetry(
+        `Finalize of ${key}`,
+        retryPolicy,
+        () => storageClient.from(bucket).info(key),
+        { logger, fields: { operation: 'finalize', bucket, path: key } }
+      );
+      if (error) {
+        throw toProviderError(error, 'Failed to finalize upload');
+      }
+
+      const bytes = info.size ?? 0;
+      file.size = bytesToKbytes(bytes);
+      const storedType = (info.contentType ?? '').split(';')[0].trim().toLowerCase();
+      if (file.mime && storedType && storedType !== file.mime.toLowerCase()) {
+        throw new FileValidationError(`${file.name} was rejected: uploaded as ${storedType} but declared as ${file.mime}`, {
+          reason: 'mime-type',
+        });
+      }
+      const sizeRule = sizePolicy.resolve(file, router.resolve(file), globalSizeLimit);
+      if (sizeRule && bytes > sizeRule.maxSize) {
+        throw createSizeLimitError(file, sizeRule, bytes);
+      }
+
+      if (!validation && !scanner && !checksums) {
+        return undefined;
+      }
+      const content = await downloadObject(bucket, key);
+      try {
+        file.buffer = content;
+        if (validation) {
+          await validateFile(file, validation);
+        }
+        if (scanner) {
+          await runScan(file, Readable.from([file.buffer]), { bucket, key });
+        }
+        // Sanitized SVGs replace what the client sent
+        if (file.buffer !== content) {
+          await writeObject(file, { bucket, key, body: file.buffer, replay: file.buffer });
+        }
+        return checksums ? hashBuffer(file.buffer) : undefined;
+      } finally {
+        file.buffer = undefined;
+      }
+    };
+
+    /**
+     * Replaces an object's metadata with two server-side copies: to a temporary key with the
+     * new metadata, then back over the original, so the object stays readable throughout.
+     * The temporary copy is checked first, since older Storage APIs ignore metadata on copy.
+     */
+    const rewriteMetadata = async (location: StorageLocation, metadata: ObjectMetadata): Promise<void> => {
+      const { bucket, key } = location;
+      const tempKey = `${key}.${Date.now().toString(36)}.metadata`;
+      const fields = { operation: 'metadata', bucket, path: key };
+      const start = performance.now();
+      const copy = (sourceKey: string, destinationKey: string, source: Pick<CopyObjectOptions, 'contentType' | 'cacheControl'>) =>
+        withRetry(
+          `Metadata update of ${key}`,
+          retryPolicy,
+          () =>
+            copyObjectWithMetadata({
+              endpoint: storageEndpoint,
+              headers: authHeaders,
+              bucket,
+              sourceKey,
+              destinationKey,
+              metadata,
+              contentType: source.contentType,
+              cacheControl: source.cacheControl,
+            }),
+          { logger, fields }
+        );
+
+      try {
+        const { data: source, error: sourceError } = await storageClient.from(bucket).info(key);
+        if (sourceError) {
+          throw toProviderError(sourceError, 'Failed to update file metadata');
+        }
+        const { error } = await copy(key, tempKey, source);
+        if (error) {
+          throw toProviderError(error, 'Failed to update file metadata');
+        }
+        try {
+          const { data, error: infoError } = await storageClient.from(bucket).info(tempKey);
+          if (infoError) {
+            throw toProviderError(infoError, 'Failed to update file metadata');
+          }
+          if (!hasStoredMetadata(data.metadata, metadata)) {
+            throw new SupabaseProviderError('Failed to update file metadata: storage ignored the metadata of the copy');
+          }
+          const { error: restoreError } = await copy(tempKey, key, source);
+          if (restoreError) {
+            throw toProviderError(restoreError, 'Failed to update file metadata');
+          }
+        } finally {
+          await removeQuietly(bucket, tempKey, 'metadata');
+        }
+      } catch (error) {
+        logger.error('Metadata update failed', { ...fields, duration: elapsed(start), ...getErrorFields(error) });
+        throw error;
+      }
+      logger.debug('Metadata updated', { ...fields, duration: elapsed(start) });
+    };
+
+    /**
+     * Moves an object to the trash, replacing an earlier trashed copy of the same key, and
+     * records the deletion time as `deletedAt` metadata. Without that record the object is
+     * still trashed; purgeTrash goes by the time it was moved.
+     */
+    const trashObject = async (bucket: string, key: string): Promise<void> => {
+      const trashKey = getTrashKey(trashPrefix!, key);
+      const fields = { operation: 'delete', bucket, path: key };
+      const move = () =>
+        withRetry(`Trashing of ${key}`, retryPolicy, () => storageClient.from(bucket).move(key, trashKey), { logger, fields });
+
+      let { error } = await move();
+      if (error && toProviderError(error) instanceof ConflictError) {
+        await storageClient.from(bucket).remove([trashKey]);
+        ({ error } = await move());
+      }
+      if (error) {
+        throw toProviderError(error, 'Failed to move file to trash');
+      }
+
+      try {
+        const { data, error: infoError } = await storageClient.from(bucket).info(trashKey);
+        if (infoError) {
+          throw toProviderError(infoError, 'Failed to read trashed file');
+        }
+        await rewriteMetadata({ bucket, key: trashKey }, { ...data.metadata, deletedAt: new Date().toISOString() });
+      } catch (error) {
+        logger.warn('Failed to record deletion time', { ...fields, path: trashKey, ...getErrorFields(error) });
+      }
+    };
+
+    /**
+     * Moves a trashed object back to its key, never over an object stored there since. Shared
+     * content gets the file's reference back; when other files still referenced it, it was
+     * never trashed, and when it was uploaded again meanwhile, the trashed copy is dropped.
+     */
+    const restoreObject = async (file: StrapiFile): Promise<void> => {
+      const { bucket, key } = resolveLocation(file);
+      const trashKey = getTrashKey(trashPrefix!, key);
+      const shared = !!file.provider_metadata?.dedup;
+      const fields = { operation: 'restore', bucket, path: key };
+      const start = performance.now();
+
+      try {
+        const { data, error: infoError } = await storageClient.from(bucket).info(trashKey);
+        const trashed = !infoError;
+        if (infoError && !(shared && toProviderError(infoError) instanceof NotFoundError && (await exists(bucket, key)))) {
+          throw toProviderError(infoError, 'Failed to restore file');
+        }
+
+        if (trashed) {
+          const { error } = await withRetry(
+            `Restore of ${key}`,
+            retryPolicy,
+            () => storageClient.from(bucket).move(trashKey, key),
+            { logger, fields }
+          );
+          const moveError = error && toProviderError(error, 'Failed to restore file');
+          if (moveError && !(shared && moveError instanceof ConflictError)) {
+            throw moveError;
+          }
+          if (moveError) {
+            await removeQuietly(bucket, trashKey, 'restore');
+          } else if (data.metadata?.deletedAt !== undefined) {
+            const { deletedAt, ...metadata } = data.metadata;
+            await rewriteMetadata({ bucket, key }, metadata).catch((error) =>
+              logger.warn('Failed to clear deletion time', { ...fields, ...getErrorFields(error) })
+            );
+          }
+        }
+        if (shared) {
+          await refs.add(bucket, key, file.hash);
+        }
+      } catch (error) {
+        logger.error('Restore failed', { ...fields, duration: elapsed(start), ...getErrorFields(error) });
+        throw error;
+      }
+      logger.debug('Restore complete', { ...fields, duration: elapsed(start) });
+    };
+
+    /**
+     * Puts back shared content that a delete moved away when an upload referenced it meanwhile:
+     * that upload found the content stored and skipped its write. An upload checking after the
+     * move wrote the content itself, which wins. When references cannot be listed, the content
+     * is put back too, and the delete fails.
+     */
+    const keepIfReferenced = async (bucket: string, key: string, movedKey: string): Promise<boolean> => {
+      const putBack = async () => {
+        const { error } = await withRetry(
+          `Restore of ${key}`,
+          retryPolicy,
+          () => storageClient.from(bucket).move(movedKey, key),
+          { logger, fields: { operation: 'delete', bucket, path: key } }
+        );
+        const moveError = error && toProviderError(error, 'Failed to keep shared content');
+        if (moveError instanceof ConflictError) {
+          await removeQuietly(bucket, movedKey, 'delete');
+        } else if (moveError) {
+          throw moveError;
+        }
+      };
+
+      const referenced = await refs.has(bucket, key).catch(async (error) => {
+        await putBack();
+        throw error;
+      });
+      if (referenced) {
+        await putBack();
+      }
+      return referenced;
+    };
+
+    /** Previous versions of `key`, newest first */
+    const listVersionsAt = async (bucket: string, key: string): Promise<FileVersion[]> => {
+      const folder = getVersionFolder(key);
+      const versions: FileVersion[] = [];
+      const objects = listObjects(storageClient, bucket, folder, {
+        pageSize: DEFAULT_RECONCILE_PAGE_SIZE,
+        exclude: [],
+        retryPolicy,
+        logger,
+        operation: 'version',
+      });
+      for await (const object of objects) {
+        versions.push({ id: object.key.slice(folder.length + 1), key: object.key, size: object.size, createdAt: object.lastModified });
+      }
+      return versions.sort((a, b) => (a.id < b.id ? 1 : -1));
+    };
+
+    /** Removes all but the `keep` newest versions of `key`; resolves with the removed ones */
+    const pruneVersionsAt = async (bucket: string, key: string, keep: number): Promise<FileVersion[]> => {
+      const stale = (await listVersionsAt(bucket, key)).slice(keep);
+      if (!stale.length) {
+        return [];
+      }
+      const fields = { operation: 'version', bucket, path: key };
+      const { error } = await withRetry(
+        `Pruning of ${key} versions`,
+        retryPolicy,
+        () => storageClient.from(bucket).remove(stale.map((version) => version.key)),
+        { logger, fields }
+      );
+      if (error) {
+        throw toProviderError(error, 'Failed to prune versions');
+      }
+      logger.debug('Versions pruned', { ...fields, count: stale.length });
+      return stale;
+    };
+
+    /** Pruning after a write succeeded only warns: extra versions are harmless */
+    const pruneQuietly = (bucket: string, key: string, keep: number): Promise<unknown> =>
+      pruneVersionsAt(bucket, key, keep).catch((error) =>
+        logger.warn('Failed to prune versions', { operation: 'version', bucket, path: key, ...getErrorFields(error) })
+      );
+
+    /**
+     * Copies the object at `key` to a new version before it is overwritten; a key without an
+     * object has nothing to keep. Failing to keep it fails the write rather than losing bytes.
+     * Copies never overwrite, so a version id already taken moves on to the next millisecond.
+     */
+    const keepVersion = async (bucket: string, key: string): Promise<void> => {
+      const fields = { operation: 'version', bucket, path: key };
+      const start = performance.now();
+      const time = Date.now();
+      for (let attempt = 0; ; attempt++) {
+        const versionKey = `${getVersionFolder(key)}/${createVersionId(new Date(time + attempt))}`;
+        const { error } = await withRetry(
+          `Versioning of ${key}`,
+          retryPolicy,
+          () => storageClient.from(bucket).copy(key, versionKey),
+          { logger, fields }
+        );
+        if (!error) {
+          logger.debug('Version kept', { ...fields, duration: elapsed(start), version: versionKey });
+          return;
+        }
+        const providerError = toProviderError(error, 'Failed to keep the previous version');
+        if (providerError instanceof NotFoundError) {
+          return;
+        }
+        if (providerError instanceof ConflictError && attempt + 1 < MAX_VERSION_ID_ATTEMPTS) {
+          continue;
+        }
+        logger.error('Versioning failed', { ...fields, duration: elapsed(start), ...getErrorFields(providerError) });
+        throw providerError;
+      }
+    };
+
+    /** Keeps the object at `key` as a version, then prunes to `maxVersions` */
+    const keepPreviousVersion = async (bucket: string, key: string): Promise<void> => {
+      await keepVersion(bucket, key);
+      if (maxVersions) {
+        await pruneQuietly(bucket, key, maxVersions);
+      }
+    };
+
+    /** Copies a version over its key with the version's metadata, keeping the current object as a version first */
+    const restoreVersionAt = async ({ bucket, key }: StorageLocation, versionKey: string): Promise<void> => {
+      const fields = { operation: 'version', bucket, path: key };
+      const start = performance.now();
+      try {
+        if (versioningConfig) {
+          await keepVersion(bucket, key);
+        }
+        const { data, error: infoError } = await storageClient.from(bucket).info(versionKey);
+        if (infoError) {
+          throw toProviderError(infoError, 'Failed to restore version');
+        }
+        const { error } = await withRetry(
+          `Restore of ${versionKey}`,
+          retryPolicy,
+          () =>
+            copyObjectWithMetadata({
+              endpoint: storageEndpoint,
+              headers: authHeaders,
+              bucket,
+              sourceKey: versionKey,
+              destinationKey: key,
+              metadata: data.metadata ?? {},
+              contentType: data.contentType,
+              cacheControl: data.cacheControl,
+            }),
+          { logger, fields }
+        );
+        if (error) {
+          throw toProviderError(error, 'Failed to restore version');
+        }
+      } catch (error) {
+        logger.error('Version restore failed', { ...fields, duration: elapsed(start), ...getErrorFields(error) });
+        throw error;
+      }
+      logger.debug('Version restored', { ...fields, duration: elapsed(start), version: versionKey });
+      // Only once restored, so the restored version is never the one pruned
+      if (maxVersions) {
+        await pruneQuietly(bucket, key, maxVersions);
+      }
+    };
+
+    /**
+     * Stores content once per directory at "{directory}/{sha256}{ext}" and records a
+     * reference for the file. Buffers are hashed up front and skipped when the content is
+     * already stored; streams are staged (in the quarantine, or "{refsPrefix}/.staging")
+     * and moved into place once their hash is known.
+     */
+    const writeDeduplicated = async (
+      file: StrapiFile,
+      location: StorageLocation,
+      directory: string,
+      sizeGuard?: { error?: Error },
+      hasher?: { digests(): Digests | undefined }
+    ): Promise<{ key: string; digests: Digests }> => {
+      const { bucket } = location;
+      if (scanner && !quarantinePrefix) {
+        // Nothing may reach storage before the verdict, so streams are read into memory first
+        await bufferStream(file, sizeGuard);
+      }
+
+      if (file.buffer) {
+        const digests = hasher?.digests() ?? hashBuffer(file.buffer);
+        const key = getContentKey(directory, digests.sha256, file.ext);
+        if (scanner) {
+          await runScan(file, Readable.from([file.buffer]), { bucket, key });
+        }
+        // Referenced before the existence check, so a concurrent delete sees this upload
+        await refs.add(bucket, key, file.hash);
+        try {
+          if (await exists(bucket, key)) {
+            logger.debug('Reusing stored content', { operation: 'dedup', bucket, path: key, sha256: digests.sha256 });
+            return { key, digests };
+          }
+          await writeObject(file, {
+            bucket,
+            key,
+            body: file.buffer,
+            replay: file.buffer,
+            metadata: { sha256: digests.sha256 },
+          });
+          await verifyUpload(bucket, key, digests);
+        } catch (error) {
+          await releaseQuietly(bucket, key, file.hash);
+          throw error;
+        }
+        return { key, digests };
+      }
+
+      const stagingKey = `${quarantinePrefix ?? `${refsPrefix}/.staging`}/${location.key}`;
+      if (scanner) {
+        await uploadQuarantined(file, location, stagingKey, { sizeGuard });
+      } else {
+        await writeObject(file, { bucket, key: stagingKey, body: file.stream!, sizeGuard });
+      }
+      const digests = hasher?.digests();
+      if (!digests) {
+        await removeQuietly(bucket, stagingKey, 'dedup');
+        throw new ChecksumMismatchError(`Checksum of ${file.name} is unknown: the stream was not read to the end`);
+      }
+      await verifyUpload(bucket, stagingKey, digests);
+
+      const key = getContentKey(directory, digests.sha256, file.ext);
+      try {
+        await refs.add(bucket, key, file.hash);
+      } catch (error) {
+        await removeQuietly(bucket, stagingKey, 'dedup');
+        throw error;
+      }
+      try {
+        await publishObject(bucket, stagingKey, key, 'keep');
+      } catch (error) {
+        await releaseQuietly(bucket, key, file.hash);
+        throw error;
+      }
+      return { key, digests };
+    };
+
     /** * Unified upload logic for both buffer and stream.
      * Sets file.url to Full URL (Public) or File Path (Private).
      */
     const uploadFile = async (file: StrapiFile): Promise<void> => {
-      const filePath = getPathKey(file, directory);
-     
-      const { data, error } = await storageClient
-        .from(config.bucket)
-        .upload(filePath, file.stream || file.buffer!, {
-          contentType: file.mime,
-          duplex: 'half',
-          upsert: true,
-          cacheControl: '3600',
-        });
+      const matching = formatVariants?.match(file);
+      const variant = matching && (await matching);
+      if (variant) {
+        applyFormatVariant(file, variant);
+        return;
+      }
 
-      if (error) {
-        console.error(`[Supabase Provider] Upload failed for ${filePath}:`, error);
-        throw new Error(`Failed to upload file to Supabase: ${error.message}`);
+      if (validation) {
+        try {
+          const sizeRule = sizePolicy.resolve(file, router.resolve(file), globalSizeLimit);
+          const detected = await validateFile(file, validation, sizeRule);
+          logger.debug('File validated', { operation: 'validate', path: file.name, mime: file.mime, detected });
+        } catch (error) {
+          logger.warn('Upload rejected', { operation: 'validate', path: file.name, ...getErrorFields(error) });
+          throw error;
+        }
+      }
+
+      // Before routing and key building, which depend on the output's type and extension
+      if (imageOptimizer?.applies(file)) {
+        await optimizeImage(file);
+      }
+
+      const route = router.resolve(file);
+      const bucket = route.bucket;
+      const pathKey = getPathKey(file, route.directory, keyStrategy);
+      const filePath = conflictPolicy === 'rename' && !dedupConfig ? await findFreeKey(bucket, pathKey) : pathKey;
+      const upsert = conflictPolicy === 'overwrite';
+      const isOriginalImage = !!formatVariants && !!file.mime?.startsWith('image/');
+      if (isOriginalImage && !dedupConfig) {
+        formatVariants!.registerOriginal(file, { bucket, key: filePath });
+      }
+
+      // Enforce the real byte count: `file.size` is only what the caller claims
+      const sizeRule = sizePolicy.resolve(file, route, globalSizeLimit);
+      if (sizeRule && file.buffer && file.buffer.length > sizeRule.maxSize) {
+        const sizeError = createSizeLimitError(file, sizeRule, file.buffer.length);
+        logger.warn('Upload rejected', { operation: 'upload', bucket, path: filePath, ...getErrorFields(sizeError) });
+        throw sizeError;
+      }
+      const sizeGuard = sizeRule && !file.buffer && file.stream ? limitStream(file.stream, file, sizeRule) : undefined;
+      if (sizeGuard) {
+        file.stream = sizeGuard.stream;
+      }
+
+      // Streams are hashed while they are sent; their digest is only known once the upload ends
+      const hasher = checksums && !file.buffer && file.stream ? hashStream(file.stream) : undefined;
+      if (hasher) {
+        file.stream = hasher.stream;
+      }
+      const hashBody = (buffer?: Buffer) => (checksums && buffer ? hashBuffer(buffer) : undefined);
+      // Deduplicated content is shared between files, so it only carries its checksum
+      const fileMetadata = mapMetadata?.(file);
+      const toMetadata = (digests?: Digests): ObjectMetadata | undefined =>
+        fileMetadata || digests ? { ...fileMetadata, ...(digests && { sha256: digests.sha256 }) } : undefined;
+
+      // Deduplicated content is never overwritten
+      if (versioningConfig && upsert && !dedupConfig) {
+        await keepPreviousVersion(bucket, filePath);
+      }
+
+      let key = filePath;
+      let digests: Digests | undefined;
+      const verifyWritten = async (writtenKey: string) => {
+        digests = digests ?? hasher?.digests();
+        if (digests) {
+          await verifyUpload(bucket, writtenKey, digests);
+        }
+      };
+      if (dedupConfig) {
+        // The content key is only known once written, while Strapi uploads the formats at the same time
+        let locate: (location?: StorageLocation) => void = () => {};
+        if (isOriginalImage) {
+          formatVariants!.registerOriginal(file, new Promise((resolve) => (locate = resolve)));
+        }
+        try {
+          ({ key, digests } = await writeDeduplicated(file, { bucket, key: filePath }, route.directory, sizeGuard, hasher));
+        } finally {
+          // Formats of a failed original are uploaded as regular files
+          locate(digests && { bucket, key });
+        }
+      } else if (!scanner) {
+        digests = hashBody(file.buffer);
+        await writeObject(file, {
+          bucket,
+          key: filePath,
+          body: file.stream || file.buffer!,
+          replay: file.buffer,
+          sizeGuard,
+          metadata: toMetadata(digests),
+          upsert,
+        });
+        await verifyWritten(filePath);
+      } else if (quarantinePrefix) {
+        const quarantineKey = `${quarantinePrefix}/${filePath}`;
+        digests = hashBody(file.buffer);
+        await uploadQuarantined(file, { bucket, key: filePath }, quarantineKey, { sizeGuard, metadata: toMetadata(digests) });
+        await verifyWritten(quarantineKey);
+        await publishObject(bucket, quarantineKey, filePath, upsert ? 'replace' : 'fail');
+      } else {
+        await bufferStream(file, sizeGuard);
+        await runScan(file, Readable.from([file.buffer!]), { bucket, key: filePath });
+        digests = hashBody(file.buffer);
+        await writeObject(file, {
+          bucket,
+          key: filePath,
+          body: file.buffer!,
+          replay: file.buffer,
+          metadata: toMetadata(digests),
+          upsert,
+        });
+        await verifyWritten(filePath);
       }
 
       // Public: Store permanent public URL
       // Private: Store path only (Signed URL generated on demand)
-      if (publicFiles) {
-        const { data: publicUrlData } = storageClient
-          .from(config.bucket)
-          .getPublicUrl(filePath);
-        
-        file.url = publicUrlData.publicUrl;
+      if (route.publicFiles) {
+        file.url = getPublicUrl(bucket, key);
       } else {
-        file.url = filePath;
+        file.url = key;
       }
+      // Persisted by Strapi so delete/sign never depend on the current config
+      file.provider_metadata = {
+        ...file.provider_metadata,
+        bucket,
+        key,
+        ...(digests && { sha256: digests.sha256 }),
+        ...(dedupConfig && { dedup: true }),
+      };
       // Required by Strapi to acknowledge mime type
       file.mime = file.mime;
     };
@@ -67,54 +1203,519 @@ export default {
       },
 
       async delete(file: StrapiFile): Promise<void> {
-        const filePath = getPathKey(file, directory);
-        const { error } = await storageClient
-          .from(config.bucket)
-          .remove([filePath]);
+        // Rendered variants share the original's object, which Strapi deletes separately
+        if (file.provider_metadata?.transform) {
+          return;
+        }
+
+        // Prefer the location recorded at upload: directory or strategy may have changed since
+        const { bucket, key: filePath } = resolveLocation(file);
+        const fields = { operation: 'delete', bucket, path: filePath };
+        const start = performance.now();
+
+        // Shared content is removed with its last reference
+        const shared = !!file.provider_metadata?.dedup;
+        if (shared) {
+          let referenced: boolean;
+          try {
+            referenced = await refs.release(bucket, filePath, file.hash);
+          } catch (error) {
+            logger.error('Delete failed', { ...fields, duration: elapsed(start), ...getErrorFields(error) });
+            throw error;
+          }
+          if (referenced) {
+            logger.debug('Delete kept shared content', { ...fields, duration: elapsed(start) });
+            return;
+          }
+        }
+
+        // Strapi replaces a file by deleting it and uploading to the same key; keepDeleted keeps
+        // the deleted object as a version so the upload continues its history. Shared content has none
+        if (versioningConfig?.keepDeleted && !shared) {
+          await keepPreviousVersion(bucket, filePath);
+        }
+
+        if (trashPrefix) {
+          try {
+            await trashObject(bucket, filePath);
+            if (shared && (await keepIfReferenced(bucket, filePath, getTrashKey(trashPrefix, filePath)))) {
+              logger.debug('Delete kept shared content', { ...fields, duration: elapsed(start) });
+              return;
+            }
+          } catch (error) {
+            // Nothing left to keep; the record can still be deleted
+            if (error instanceof NotFoundError) {
+              logger.debug('Delete found no object to trash', { ...fields, duration: elapsed(start) });
+              return;
+            }
+            logger.error('Delete failed', { ...fields, duration: elapsed(start), ...getErrorFields(error) });
+            throw error;
+          }
+          logger.debug('Moved to trash', { ...fields, duration: elapsed(start) });
+          return;
+        }
+
+        let removedKey = filePath;
+        if (shared) {
+          removedKey = `${refsPrefix}/.deleting/${filePath}`;
+          try {
+            const { error: moveError } = await withRetry(
+              `Delete of ${filePath}`,
+              retryPolicy,
+              () => storageClient.from(bucket).move(filePath, removedKey),
+              { logger, fields }
+            );
+            if (moveError) {
+              throw toProviderError(moveError, 'Failed to delete file from Supabase');
+            }
+            if (await keepIfReferenced(bucket, filePath, removedKey)) {
+              logger.debug('Delete kept shared content', { ...fields, duration: elapsed(start) });
+              return;
+            }
+          } catch (error) {
+            if (error instanceof NotFoundError) {
+              logger.debug('Delete complete', { ...fields, duration: elapsed(start) });
+              return;
+            }
+            logger.error('Delete failed', { ...fields, duration: elapsed(start), ...getErrorFields(error) });
+            throw error;
+          }
+        }
+
+        const { error } = await withRetry(
+          `Delete of ${filePath}`,
+          retryPolicy,
+          () => storageClient.from(bucket).remove([removedKey]),
+          { logger, fields }
+        );
+        if (error) {
+          const providerError = toProviderError(error, 'Failed to delete file from Supabase');
+          logger.error('Delete failed', { ...fields, duration: elapsed(start), ...getErrorFields(providerError) });
+          throw providerError;
+        }
+        logger.debug('Delete complete', { ...fields, duration: elapsed(start) });
+        // Soft-deleted files keep their versions for restore, and keepDeleted keeps them for good
+        if (versioningConfig && !versioningConfig.keepDeleted) {
+          await pruneQuietly(bucket, filePath, 0);
+        }
+      },
+
+      /**
+       * Re-applies `objectMetadata` (plus `metadata`) to a stored file and its stored formats,
+       * e.g. from an afterUpdate lifecycle once the caption or alt text changed.
+       */
+      async updateMetadata(file: StrapiFile, metadata?: ObjectMetadata): Promise<void> {
+        for (const target of withFormats(file)) {
+          // Rendered variants have no object of their own
+          if (target.provider_metadata?.transform) {
+            continue;
+          }
+          const location = getLocation(target);
+          if (!location) {
+            continue;
+          }
+          if (target.provider_metadata?.dedup) {
+            logger.warn('Metadata not updated: content is shared with other files', {
+              operation: 'metadata',
+              bucket: location.bucket,
+              path: location.key,
+            });
+            continue;
+          }
+          const sha256 = target.provider_metadata?.sha256;
+          await rewriteMetadata(location, { ...mapMetadata?.(target), ...metadata, ...(sha256 && { sha256 }) });
+        }
+      },
+
+      /**
+       * Signed URL for uploading a file straight to storage, bound to the key `upload` would
+       * pick. The declared type and size are checked now; the object itself by finalizeUpload.
+       * With scanning and a quarantine prefix, the client uploads to the quarantine key.
+       */
+      async createUploadUrl(file: StrapiFile): Promise<SignedUploadUrl> {
+        const route = router.resolve(file);
+        const bucket = route.bucket;
+        try {
+          if (validation) {
+            validateDeclaredType(file, validation);
+          }
+          const sizeRule = sizePolicy.resolve(file, route, globalSizeLimit);
+          const declaredBytes = kbytesToBytes(file.size);
+          if (sizeRule && declaredBytes > sizeRule.maxSize) {
+            throw createSizeLimitError(file, sizeRule, declaredBytes);
+          }
+        } catch (error) {
+          logger.warn('Upload rejected', { operation: 'uploadUrl', path: file.name, ...getErrorFields(error) });
+          throw error;
+        }
+
+        const pathKey = getPathKey(file, route.directory, keyStrategy);
+        const key = conflictPolicy === 'rename' ? await findFreeKey(bucket, pathKey) : pathKey;
+        const uploadKey = scanner && quarantinePrefix ? `${quarantinePrefix}/${key}` : key;
+        // The client overwrites the object, so it is kept before the URL is handed out
+        if (versioningConfig && conflictPolicy === 'overwrite') {
+          await keepPreviousVersion(bucket, key);
+        }
+        const fields = { operation: 'uploadUrl', bucket, path: uploadKey };
+        const start = performance.now();
+        const { data, error } = await withRetry(
+          `Upload URL for ${uploadKey}`,
+          retryPolicy,
+          // Quarantined uploads only conflict when they are published
+          () => storageClient.from(bucket).createSignedUploadUrl(uploadKey, { upsert: conflictPolicy === 'overwrite' || uploadKey !== key }),
+          { logger, fields }
+        );
         if (error) {
-          throw new Error(`Failed to delete file from Supabase: ${error.message}`);
+          const providerError = toProviderError(error, 'Failed to create upload URL');
+          logger.error('Upload URL failed', { ...fields, duration: elapsed(start), ...getErrorFields(providerError) });
+          throw providerError;
         }
+        logger.debug('Upload URL created', { ...fields, duration: elapsed(start) });
+
+        file.provider_metadata = {
+          ...file.provider_metadata,
+          bucket,
+          key,
+          publicFiles: route.publicFiles,
+          ...(uploadKey !== key && { pendingKey: uploadKey }),
+        };
+        return { url: data.signedUrl, token: data.token, bucket, path: uploadKey };
       },
 
+      /**
+       * Completes a direct upload started by createUploadUrl: checks the stored object, then sets
+       * `url`, `size` and `provider_metadata` as `upload` would. Rejected objects are removed.
+       */
+      async finalizeUpload(file: StrapiFile): Promise<void> {
+        const { bucket, key, pendingKey, publicFiles } = file.provider_metadata ?? {};
+        if (!bucket || !key) {
+          throw new InvalidOptionsError(`${file.name} has no upload location: call createUploadUrl first`);
+        }
+        const uploadKey = pendingKey ?? key;
+        const fields = { operation: 'finalize', bucket, path: key };
+        const start = performance.now();
+
+        let digests: Digests | undefined;
+        try {
+          try {
+            digests = await checkDirectUpload(file, bucket, uploadKey);
+          } catch (error) {
+            if (!(error instanceof NotFoundError)) {
+              await removeQuietly(bucket, uploadKey, 'finalize');
+            }
+            throw error;
+          }
+          const metadata = { ...mapMetadata?.(file), ...(digests && { sha256: digests.sha256 }) };
+          if (Object.keys(metadata).length) {
+            await rewriteMetadata({ bucket, key: uploadKey }, metadata);
+          }
+          if (pendingKey) {
+            await publishObject(bucket, pendingKey, key, conflictPolicy === 'overwrite' ? 'replace' : 'fail');
+          }
+        } catch (error) {
+          logger.error('Finalize failed', { ...fields, duration: elapsed(start), ...getErrorFields(error) });
+          throw error;
+        }
+        logger.debug('Upload finalized', { ...fields, duration: elapsed(start) });
+
+        // Routes sharing a bucket can differ in mode; URLs issued before the mode was stored use the bucket's
+        file.url = (publicFiles ?? router.isBucketPublic(bucket)) ? getPublicUrl(bucket, key) : key;
+        file.provider_metadata = {
+          ...file.provider_metadata,
+          bucket,
+          key,
+          pendingKey: undefined,
+          publicFiles: undefined,
+          ...(digests && { sha256: digests.sha256 }),
+        };
+      },
+
+      /**
+       * Compares the objects under `prefix` with the keys Strapi records point to, each file's
+       * stored location (or its recomputed key) and those of its formats. Reference markers and
+       * quarantined uploads are not listed. Orphans are only deleted with `dryRun: false`.
+       */
+      async reconcile(options: ReconcileOptions): Promise<ReconcileReport> {
+        const bucket = options.bucket ?? config.bucket;
+        const known = new Set<string>();
+        for (const entry of options.files) {
+          if (typeof entry === 'string') {
+            known.add(entry);
+            continue;
+          }
+          for (const target of withFormats(entry)) {
+            // Rendered variants have no object of their own
+            if (target.provider_metadata?.transform) {
+              continue;
+            }
+            const location = resolveLocation(target);
+            if (location.bucket === bucket) {
+              known.add(location.key);
+            }
+          }
+        }
+
+        return reconcileBucket(
+          storageClient,
+          {
+            bucket,
+            prefix: (options.prefix ?? directory).replace(/^\/+|\/+$/g, ''),
+            known,
+            dryRun: options.dryRun ?? true,
+            gracePeriod: options.gracePeriod ?? DEFAULT_ORPHAN_GRACE_PERIOD,
+          },
+          {
+            pageSize: options.pageSize ?? DEFAULT_RECONCILE_PAGE_SIZE,
+            exclude: [refsPrefix, ...(quarantinePrefix ? [quarantinePrefix] : []), ...(trashPrefix ? [trashPrefix] : [])],
+            retryPolicy,
+            logger,
+          }
+        );
+      },
+
+      /**
+       * Copies each record's original and formats from `source` through the regular upload path
+       * (routes, key strategy, validation, scan, metadata), then rewrites url, provider_metadata
+       * and provider. Records are updated only once all their copies succeeded.
+       */
+      async migrate(options: MigrationOptions): Promise<MigrationReport> {
+        return migrateFiles(options.files, {
+          read: createSourceReader(options.source),
+          copy: uploadFile,
+          concurrency: options.concurrency ?? DEFAULT_MIGRATION_CONCURRENCY,
+          provider: options.provider ?? PROVIDER_NAME,
+          checkpoint: options.checkpoint,
+          onMigrated: options.onMigrated,
+          logger,
+        });
+      },
+
+      /**
+       * Moves a soft-deleted file and its stored formats back to their keys, e.g. from the record
+       * kept by a beforeDelete lifecycle. The record itself must be recreated by the caller.
+       */
+      async restore(file: StrapiFile): Promise<void> {
+        if (!trashPrefix) {
+          throw new ConfigError('restore requires the softDelete option.');
+        }
+        for (const target of withFormats(file)) {
+          // Rendered variants have no object of their own
+          if (!target.provider_metadata?.transform) {
+            await restoreObject(target);
+          }
+        }
+      },
+
+      /** Permanently removes objects trashed longer than `retention` seconds ago; failed batches are reported */
+      async purgeTrash(options: PurgeTrashOptions = {}): Promise<PurgeTrashReport> {
+        if (!trashPrefix) {
+          throw new ConfigError('purgeTrash requires the softDelete option.');
+        }
+        return purgeTrash(
+          storageClient,
+          { bucket: options.bucket ?? config.bucket, prefix: trashPrefix, retention: options.retention ?? trashRetention },
+          { pageSize: DEFAULT_RECONCILE_PAGE_SIZE, retryPolicy, logger }
+        );
+      },
+
+      /** Previous versions of the file's object, newest first, whether or not versioning is still on */
+      async listVersions(file: StrapiFile): Promise<FileVersion[]> {
+        const { bucket, key } = resolveLocation(file);
+        return listVersionsAt(bucket, key);
+      },
+
+      /**
+       * Copies a version over the file's object, and for each stored format its version from the
+       * same upload, if any. With versioning on, the current objects become versions first.
+       * Record fields (size, dimensions...) are left to the caller.
+       */
+      async restoreVersion(file: StrapiFile, version: string): Promise<void> {
+        const [original, ...formats] = withFormats(file).filter((target) => !target.provider_metadata?.transform);
+        const location = resolveLocation(original);
+        const versions = await listVersionsAt(location.bucket, location.key);
+        const index = versions.findIndex((candidate) => candidate.id === version);
+        if (index === -1) {
+          throw new NotFoundError(`Version ${version} of ${location.key} not found`);
+        }
+        // Newest first: the original's next version bounds the formats' versions of the same upload
+        const until = versions[index - 1]?.id;
+
+        const restores = [{ location, versionKey: versions[index].key }];
+        for (const format of formats) {
+          const formatLocation = resolveLocation(format);
+          const formatVersions = await listVersionsAt(formatLocation.bucket, formatLocation.key);
+          const match = findMatchingVersion(formatVersions.map((candidate) => candidate.id), version, until);
+          if (match) {
+            restores.push({ location: formatLocation, versionKey: `${getVersionFolder(formatLocation.key)}/${match}` });
+          }
+        }
+        for (const restore of restores) {
+          await restoreVersionAt(restore.location, restore.versionKey);
+        }
+      },
+
+      /** Removes all but the `keep` newest versions of the file and of each stored format */
+      async pruneVersions(file: StrapiFile, keep: number): Promise<FileVersion[]> {
+        if (!Number.isInteger(keep) || keep < 0) {
+          throw new InvalidOptionsError(`keep must be a non-negative integer, got ${JSON.stringify(keep)}.`);
+        }
+        const removed: FileVersion[] = [];
+        for (const target of withFormats(file)) {
+          if (!target.provider_metadata?.transform) {
+            const { bucket, key } = resolveLocation(target);
+            removed.push(...(await pruneVersionsAt(bucket, key, keep)));
+          }
+        }
+        return removed;
+      },
+
+      /** Applies the strictest of Strapi's sizeLimit, the matching `sizeLimits` entry and the route cap */
       async checkFileSize(file: StrapiFile, options: { sizeLimit: number }): Promise<void> {
+        globalSizeLimit = options.sizeLimit;
+        const rule = sizePolicy.resolve(file, router.resolve(file), options.sizeLimit);
         const fileSizeInBytes = kbytesToBytes(file.size);
-        if (fileSizeInBytes > options.sizeLimit) {
-          throw new Error(
-            `${file.name} exceeds size limit of ${bytesToHumanReadable(options.sizeLimit)}`
-          );
+        if (rule && fileSizeInBytes > rule.maxSize) {
+          throw createSizeLimitError(file, rule, fileSizeInBytes);
         }
       },
 
+      /** True when any configured bucket or route is private, so Strapi asks for signed URLs */
       isPrivate(): boolean {
-        return !publicFiles;
+        return router.hasPrivateBuckets();
       },
 
-      async getSignedUrl(file: StrapiFile): Promise<{ url: string }> {
+      async getSignedUrl(file: StrapiFile, options?: SignedUrlOptions): Promise<{ url: string }> {
+        // Invalid options are a caller bug, reported even for public files
+        const signOptions = resolveSignedUrlOptions(file, options, signedUrlExpires);
         if (!this.isPrivate()) {
           return { url: file.url };
         }
 
-        if (file.url.startsWith('http://') || file.url.startsWith('https://')) {
+        // External URLs (no stored location) are returned untouched
+        const location = getLocation(file);
+        if (!location || router.isBucketPublic(location.bucket)) {
           return { url: file.url };
         }
-        
-        const filePath = file.url; // For private buckets, file.url is the path
+        const { bucket, key: filePath } = location;
+        const { expiresIn, transform, download } = signOptions;
+
+        const cacheKey = getSignedUrlCacheKey(bucket, filePath, expiresIn, transform, download);
+        const cachedUrl = await signedUrlCache?.get(cacheKey);
+        if (cachedUrl) {
+          logger.debug('Signed URL served from cache', { operation: 'sign', bucket, path: filePath });
+          return { url: cachedUrl };
+        }
         
         try {
-          const { data, error } = await storageClient
-            .from(config.bucket)
-            .createSignedUrl(filePath, signedUrlExpires);
+          const result = await signOne(bucket, filePath, signOptions);
 
-          if (error) {
-            console.warn(`[Supabase Provider] Failed to generate signed URL for ${filePath}:`, error.message);
+          if (result.error) {
+            logger.warn('Failed to generate signed URL', {
+              operation: 'sign',
+              bucket,
+              path: filePath,
+              ...getErrorFields(result.error),
+            });
+            if (signedUrlErrors === 'throw') {
+              throw result.error;
+            }
             return { url: `#file-not-found-${filePath}` };
           }
-          return { url: data.signedUrl };
+          await signedUrlCache?.set(cacheKey, result.url, expiresIn);
+          return { url: result.url };
         } catch (error) {
-          console.error(`[Supabase Provider] Error generating signed URL for ${filePath}:`, error);
+          // Errors thrown above are already typed and pass through unchanged
+          if (signedUrlErrors === 'throw') {
+            throw toProviderError(error, 'Failed to generate signed URL');
+          }
+          logger.error('Error generating signed URL', { operation: 'sign', bucket, path: filePath, ...getErrorFields(error) });
           return { url: `#error-${filePath}` };
         }
       },
+
+      async getSignedUrls(files: StrapiFile[]): Promise<SignedUrlResult[]> {
+        const results: SignedUrlResult[] = new Array(files.length);
+        const batches = new Map<string, { index: number; path: string; cacheKey: string }[]>();
+        const singles: Promise<void>[] = [];
+
+        const toError = (error: unknown) => ({ url: null, error: toProviderError(error) }) as const;
+
+        for (const [index, file] of files.entries()) {
+          const location = getLocation(file);
+          if (!location || router.isBucketPublic(location.bucket)) {
+            results[index] = { url: file.url, error: null };
+            continue;
+          }
+
+          const { bucket, key: path } = location;
+          const transform = file.provider_metadata?.transform;
+          const cacheKey = getSignedUrlCacheKey(bucket, path, signedUrlExpires, transform);
+          const cachedUrl = await signedUrlCache?.get(cacheKey);
+          if (cachedUrl) {
+            results[index] = { url: cachedUrl, error: null };
+            continue;
+          }
+
+          if (transform) {
+            singles.push(
+              signOne(bucket, path, { transform }).then(
+                async (result) => {
+                  results[index] = result;
+                  if (result.url) {
+                    await signedUrlCache?.set(cacheKey, result.url, signedUrlExpires);
+                  }
+                },
+                (error) => {
+                  results[index] = toError(error);
+                }
+              )
+            );
+            continue;
+          }
+
+          const entries = batches.get(bucket) ?? [];
+          entries.push({ index, path, cacheKey });
+          batches.set(bucket, entries);
+        }
+
+        const batchRuns = [...batches].map(async ([bucket, entries]) => {
+          try {
+            const signed = await signPaths(bucket, [...new Set(entries.map((entry) => entry.path))]);
+            for (const { index, path, cacheKey } of entries) {
+              const result = signed.get(path) ?? toError({ message: `No signed URL returned for ${path}` });
+              results[index] = result;
+              if (result.url) {
+                await signedUrlCache?.set(cacheKey, result.url, signedUrlExpires);
+              }
+            }
+          } catch (error) {
+            entries.forEach(({ index }) => {
+              results[index] = toError(error);
+            });
+          }
+        });
+
+        await Promise.all([...singles, ...batchRuns]);
+        return results;
+      },
     };
   },
+
+  // Error classes, attached to the default export so CommonJS consumers can use them too
+  SupabaseProviderError,
+  NotFoundError,
+  UnauthorizedError,
+  QuotaExceededError,
+  PayloadTooLargeError,
+  NetworkError,
+  ConflictError,
+  ConfigError,
+  FileValidationError,
+  InfectedFileError,
+  ScanFailedError,
+  ChecksumMismatchError,
+  InvalidOptionsError,
+
+  // Built-in ClamAV scanner for `scan.scanner`
+  createClamAvScanner,
 };
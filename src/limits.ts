@@ -0,0 +1,90 @@
+import { Readable, Transform, pipeline } from 'stream';
+import { SizeLimit, StrapiFile } from './types.js';
+import { ResolvedRoute, matchesRoute } from './routing.js';
+import { PayloadTooLargeError } from './errors.js';
+import { bytesToHumanReadable } from './utils.js';
+
+// The limit that applies to a file, with the wording used to explain it
+export interface SizeRule {
+  maxSize: number;  // bytes
+  label?: string;   // e.g. 'for image/* files'; omitted for Strapi's global sizeLimit
+}
+
+const toList = (value?: string | string[]): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const describeLimit = (limit: SizeLimit): string => {
+  const criteria = [
+    ...toList(limit.mime),
+    ...toList(limit.ext).map((ext) => (ext.startsWith('.') ? ext : `.${ext}`)),
+  ];
+  return criteria.length ? `for ${criteria.join(' or ')} files` : 'for all files';
+};
+
+/** Error thrown when a file is over its limit; `bytes` is the size seen so far */
+export function createSizeLimitError(file: StrapiFile, rule: SizeRule, bytes: number): PayloadTooLargeError {
+  const label = rule.label ? ` ${rule.label}` : '';
+  return new PayloadTooLargeError(
+    `${file.name} exceeds size limit of ${bytesToHumanReadable(rule.maxSize)}${label} (${bytesToHumanReadable(bytes)})`,
+    { status: 413 }
+  );
+}
+
+/**
+ * Size policy table. The first matching `sizeLimits` entry applies, like routes; the
+ * strictest of that entry, the route's `sizeLimit` and Strapi's global `sizeLimit` wins.
+ */
+export function createSizePolicy(limits: SizeLimit[]) {
+  const rules = limits.map((limit) => ({ limit, rule: { maxSize: limit.maxSize, label: describeLimit(limit) } }));
+
+  return {
+    resolve(file: StrapiFile, route: ResolvedRoute, globalLimit?: number): SizeRule | undefined {
+      const candidates: SizeRule[] = [];
+      if (globalLimit !== undefined) {
+        candidates.push({ maxSize: globalLimit });
+      }
+      const matched = rules.find(({ limit }) => matchesRoute(file, { mime: limit.mime, ext: limit.ext }));
+      if (matched) {
+        candidates.push(matched.rule);
+      }
+      if (route.sizeLimit !== undefined) {
+        const target = route.directory ? `${route.bucket}/${route.directory}` : route.bucket;
+        candidates.push({ maxSize: route.sizeLimit, label: `for uploads to ${target}` });
+      }
+      return candidates.reduce<SizeRule | undefined>(
+        (strictest, rule) => (!strictest || rule.maxSize < strictest.maxSize ? rule : strictest),
+        undefined
+      );
+    },
+  };
+}
+
+/**
+ * Counts the bytes actually read from `stream` and fails it once `maxSize` is passed,
+ * so a wrong `file.size` cannot get a larger file through. `error` is set when it trips.
+ */
+export function limitStream(stream: Readable, file: StrapiFile, rule: SizeRule) {
+  let received = 0;
+  const state: { error?: PayloadTooLargeError } = {};
+
+  const counter = new Transform({
+    transform(piece: Buffer, _encoding, callback) {
+      received += piece.length;
+      if (received > rule.maxSize) {
+        state.error = createSizeLimitError(file, rule, received);
+        callback(state.error);
+        return;
+      }
+      callback(null, piece);
+    },
+  });
+  // Destroys the source (temp file handle) when the limit trips or the upload aborts
+  pipeline(stream, counter, () => {});
+
+  return {
+    stream: counter as Readable,
+    get error(): PayloadTooLargeError | undefined {
+      return state.error;
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { Logger, LogFields } from './types.js';
+
+const PREFIX = '[Supabase Provider]';
+
+type Level = keyof Logger;
+
+const toConsole = (level: 'error' | 'warn' | 'info') => (message: string, fields?: LogFields) =>
+  fields ? console[level](message, fields) : console[level](message);
+
+/** Console fallback; successes are not worth printing without a real logger to filter them */
+const consoleLogger: Logger = {
+  error: toConsole('error'),
+  warn: toConsole('warn'),
+  info: toConsole('info'),
+  debug: () => {},
+};
+
+declare global {
+  // Set by Strapi at bootstrap; undefined before it and outside Strapi
+  var strapi: { log?: Logger } | undefined;
+}
+
+/** Strapi's logger when the provider runs inside Strapi */
+const getStrapiLogger = (): Logger | undefined => globalThis.strapi?.log;
+
+/**
+ * Resolves the configured logger, else strapi.log, else console. The target is looked up
+ * on every call because the provider can be initialized before the `strapi` global exists.
+ * Messages get the provider prefix; fields are passed through as the structured payload.
+ */
+export function createLogger(logger?: Logger): Logger {
+  const write = (level: Level) => (message: string, fields?: LogFields) => {
+    const target = logger ?? getStrapiLogger() ?? consoleLogger;
+    target[level](`${PREFIX} ${message}`, fields);
+  };
+
+  return {
+    error: write('error'),
+    warn: write('warn'),
+    info: write('info'),
+    debug: write('debug'),
+  };
+}
+
+/** Error fields for a log entry: provider code when typed, message always */
+export function getErrorFields(error: unknown): LogFields {
+  const err = error as { message?: unknown; code?: unknown } | undefined;
+  const fields: LogFields = { error: String(err?.message ?? error) };
+  if (typeof err?.code === 'string') {
+    fields.code = err.code;
+  }
+  return fields;
+}
+
+/** Milliseconds since `start` (from performance.now()) */
+export const elapsed = (start: number): number => Math.round(performance.now() - start);
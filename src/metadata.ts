@@ -0,0 +1,121 @@
+import { ObjectMetadata, ObjectMetadataConfig, ObjectMetadataField, StrapiFile } from './types.js';
+
+export const DEFAULT_METADATA_FIELDS: ObjectMetadataField[] = [
+  'name',
+  'hash',
+  'id',
+  'documentId',
+  'alternativeText',
+  'caption',
+  'uploader',
+];
+
+// Metadata travels in a request header; long captions must not push it past server limits
+export const MAX_METADATA_VALUE_LENGTH = 1024;
+
+const FIELD_READERS: Record<ObjectMetadataField, [string, (file: StrapiFile) => unknown]> = {
+  name: ['originalName', (file) => file.name],
+  hash: ['hash', (file) => file.hash],
+  id: ['fileId', (file) => file.id],
+  documentId: ['documentId', (file) => file.documentId],
+  alternativeText: ['alternativeText', (file) => file.alternativeText],
+  caption: ['caption', (file) => file.caption],
+  uploader: ['uploadedBy', (file) => (typeof file.createdBy === 'object' ? file.createdBy?.id : file.createdBy)],
+};
+
+/**
+ * Builds the object metadata of a file: the configured Strapi fields that are set, then
+ * the `map` entries. Returns undefined when `objectMetadata` is off.
+ */
+export function createMetadataMapper(config?: boolean | ObjectMetadataConfig) {
+  if (!config) {
+    return undefined;
+  }
+  const options = config === true ? {} : config;
+  const fields = options.fields ?? DEFAULT_METADATA_FIELDS;
+
+  return (file: StrapiFile): ObjectMetadata => {
+    const metadata: ObjectMetadata = {};
+    for (const field of fields) {
+      const [key, read] = FIELD_READERS[field];
+      const value = read(file);
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      metadata[key] = typeof value === 'string' ? value.slice(0, MAX_METADATA_VALUE_LENGTH) : value;
+    }
+    for (const [key, value] of Object.entries(options.map?.(file) ?? {})) {
+      if (value !== undefined) {
+        metadata[key] = value;
+      }
+    }
+    return metadata;
+  };
+}
+
+export interface CopyObjectOptions {
+  endpoint: string;                  // {apiUrl}/storage/v1
+  headers: Record<string, string>;   // apikey + Authorization
+  bucket: string;
+  sourceKey: string;
+  destinationKey: string;
+  metadata: ObjectMetadata;          // replaces the copy's user metadata
+  contentType?: string;              // the source's, which the copy does not inherit
+  cacheControl?: string;             // the source's, which the copy does not inherit
+}
+
+/**
+ * Server-side copy that sets the copy's user metadata (the "x-metadata" header, which
+ * storage-js `copy` cannot send). With `copyMetadata: false` the server takes the header
+ * instead of the source's metadata, so content type and cache control are passed along.
+ * Resolves like storage-js calls: `{ error }` instead of throwing.
+ */
+export async function copyObjectWithMetadata(options: CopyObjectOptions): Promise<{ data: { path: string } | null; error: unknown }> {
+  try {
+    const response = await fetch(`${options.endpoint}/object/copy`, {
+      method: 'POST',
+      headers: {
+        ...options.headers,
+        'Content-Type': 'application/json',
+        'x-upsert': 'true',
+        'x-metadata': Buffer.from(JSON.stringify(options.metadata), 'utf8').toString('base64'),
+      },
+      body: JSON.stringify({
+        bucketId: options.bucket,
+        sourceKey: options.sourceKey,
+        destinationKey: options.destinationKey,
+        copyMetadata: false,
+        metadata: { mimetype: options.contentType, cacheControl: options.cacheControl },
+      }),
+    });
+    const body = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+    if (!response.ok) {
+      return { data: null, error: { message: body.message ?? response.statusText, ...body, status: response.status } };
+    }
+    return { data: { path: options.destinationKey }, error: null };
+  } catch (error) {
+    return { data: null, error };
+  }
+}
+
+// storage-js `info` camel-cases every key of the response, user metadata included
+const toCamelKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(toCamelKeys);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key.replace(/([-_][a-z])/gi, (c) => c.toUpperCase().replace(/[-_]/g, '')),
+      toCamelKeys(entry),
+    ])
+  );
+};
+
+/** True when the metadata reported by `info` holds every expected entry */
+export function hasStoredMetadata(stored: ObjectMetadata | undefined, expected: ObjectMetadata): boolean {
+  const normalized = toCamelKeys(expected) as ObjectMetadata;
+  return Object.entries(normalized).every(([key, value]) => JSON.stringify(stored?.[key]) === JSON.stringify(value));
+}
@@ -0,0 +1,201 @@
+import { Readable } from 'stream';
+import { appendFile, readFile } from 'fs/promises';
+import { resolve, sep } from 'path';
+import { Logger, MigrationFailure, MigrationReport, MigrationSource, StrapiFile } from './types.js';
+import { InvalidOptionsError, NotFoundError, SupabaseProviderError, toProviderError } from './errors.js';
+import { getErrorFields, elapsed } from './logger.js';
+
+export const DEFAULT_MIGRATION_CONCURRENCY = 4;
+
+export type ReadContent = (file: StrapiFile) => Promise<Buffer | Readable>;
+
+const isAbsoluteUrl = (url: string) => /^https?:\/\//i.test(url);
+
+/** Reads "{root}{url}" for records of the local provider ("/uploads/photo.jpg"), never outside `root` */
+const readLocal = async (root: string, url: string): Promise<Buffer> => {
+  const base = resolve(root);
+  const path = resolve(base, decodeURIComponent(url.split(/[?#]/)[0]).replace(/^\/+/, ''));
+  if (!path.startsWith(base + sep)) {
+    throw new SupabaseProviderError(`Refusing to read ${url}: outside of ${root}`);
+  }
+  try {
+    return await readFile(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new NotFoundError(`Failed to read ${path}: file not found`, { cause: error });
+    }
+    throw toProviderError(error, `Failed to read ${path}`);
+  }
+};
+
+const readUrl = async (url: string, headers?: Record<string, string>): Promise<Buffer> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers });
+  } catch (error) {
+    throw toProviderError(error, `Failed to read ${url}`);
+  }
+  if (!response.ok) {
+    throw toProviderError({ status: response.status, message: `HTTP ${response.status}` }, `Failed to read ${url}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+};
+
+/**
+ * Content of a record or format, from the custom reader, the local folder for relative urls,
+ * or over HTTP for absolute urls and relative ones under `baseUrl`.
+ */
+export function createSourceReader(source: MigrationSource): ReadContent {
+  if (source.baseUrl !== undefined && !URL.canParse(source.baseUrl)) {
+    throw new InvalidOptionsError(`source.baseUrl must be an absolute URL, got "${source.baseUrl}".`);
+  }
+
+  return async (file) => {
+    if (source.read) {
+      return source.read(file);
+    }
+    if (!file.url) {
+      throw new NotFoundError(`${file.name} has no url to read from`);
+    }
+    if (isAbsoluteUrl(file.url)) {
+      return readUrl(file.url, source.headers);
+    }
+    if (source.root !== undefined) {
+      return readLocal(source.root, file.url);
+    }
+    if (source.baseUrl !== undefined) {
+      return readUrl(`${source.baseUrl.replace(/\/+$/, '')}/${file.url.replace(/^\/+/, '')}`, source.headers);
+    }
+    throw new InvalidOptionsError(`${file.url} is a relative url: set source.root or source.baseUrl.`);
+  };
+}
+
+/** Ids of migrated records, one per line; appended as records complete so an interrupted run loses nothing */
+const openCheckpoint = async (path?: string) => {
+  const done = new Set<string>();
+  let separator = '';
+  if (path) {
+    const content = await readFile(path, 'utf8').catch((error) => {
+      if (error.code === 'ENOENT') {
+        return '';
+      }
+      throw toProviderError(error, `Failed to read checkpoint ${path}`);
+    });
+    // A partial last line, from a run stopped mid-write, is dropped and closed before appending
+    content.split('\n').slice(0, -1).forEach((id) => done.add(id));
+    separator = content && !content.endsWith('\n') ? '\n' : '';
+  }
+
+  let writes = Promise.resolve();
+  return {
+    has: (id: string) => done.has(id),
+    add(id: string): Promise<void> {
+      done.add(id);
+      if (!path) {
+        return Promise.resolve();
+      }
+      const line = `${separator}${id}\n`;
+      separator = '';
+      writes = writes.then(() => appendFile(path, line));
+      return writes;
+    },
+  };
+};
+
+const getRecordId = (file: StrapiFile) => String(file.id ?? file.hash);
+
+export interface MigrationRun {
+  read: ReadContent;
+  copy: (file: StrapiFile) => Promise<void>;  // the provider's upload
+  concurrency: number;
+  provider: string;
+  checkpoint?: string;
+  onMigrated?: (file: StrapiFile) => Promise<void> | void;
+  logger: Logger;
+}
+
+/** Copies one format or original; the copy carries the new url and provider_metadata, without content */
+const copyFile = async (file: StrapiFile, run: MigrationRun): Promise<StrapiFile> => {
+  const content = await run.read(file);
+  const target: StrapiFile = {
+    ...file,
+    provider_metadata: null,
+    ...(Buffer.isBuffer(content) ? { buffer: content, stream: undefined } : { stream: content, buffer: undefined }),
+  };
+  await run.copy(target);
+  delete target.buffer;
+  delete target.stream;
+  return target;
+};
+
+/**
+ * Copies the original, then its formats (whose variants point to the original's location), and
+ * only then updates the record, so a failed record keeps pointing to its old storage.
+ */
+const migrateRecord = async (record: StrapiFile, run: MigrationRun): Promise<void> => {
+  const original = await copyFile({ ...record, formats: null }, run);
+  let formats: Record<string, StrapiFile> | null | undefined = record.formats;
+  if (record.formats) {
+    formats = {};
+    for (const [name, format] of Object.entries(record.formats)) {
+      formats[name] = await copyFile(format, run);
+    }
+  }
+  Object.assign(record, original, { formats, provider: run.provider });
+};
+
+const toFailure = (record: StrapiFile, url: string, error: unknown): MigrationFailure => {
+  const err = error as { message?: string; code?: unknown };
+  return {
+    id: record.id,
+    name: record.name,
+    url,
+    error: err?.message ?? String(error),
+    ...(typeof err?.code === 'string' && { code: err.code }),
+  };
+};
+
+/**
+ * Migrates records with at most `concurrency` in flight. Records listed in the checkpoint are
+ * skipped; failures are collected in the report instead of stopping the run.
+ */
+export async function migrateFiles(
+  files: Iterable<StrapiFile> | AsyncIterable<StrapiFile>,
+  run: MigrationRun
+): Promise<MigrationReport> {
+  if (!Number.isInteger(run.concurrency) || run.concurrency < 1) {
+    throw new InvalidOptionsError(`concurrency must be a positive integer, got ${JSON.stringify(run.concurrency)}.`);
+  }
+  const checkpoint = await openCheckpoint(run.checkpoint);
+  const iterator = Symbol.asyncIterator in files ? files[Symbol.asyncIterator]() : files[Symbol.iterator]();
+  const report: MigrationReport = { migrated: 0, skipped: 0, failed: [] };
+
+  const worker = async () => {
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      const record = next.value;
+      const id = getRecordId(record);
+      if (checkpoint.has(id)) {
+        report.skipped++;
+        continue;
+      }
+      const fields = { operation: 'migrate', path: record.name };
+      const start = performance.now();
+      const url = record.url;
+      try {
+        await migrateRecord(record, run);
+        await run.onMigrated?.(record);
+        await checkpoint.add(id);
+      } catch (error) {
+        run.logger.warn('Migration failed', { ...fields, duration: elapsed(start), ...getErrorFields(error) });
+        report.failed.push(toFailure(record, url, error));
+        continue;
+      }
+      report.migrated++;
+      run.logger.debug('File migrated', { ...fields, bucket: record.provider_metadata?.bucket, duration: elapsed(start) });
+    }
+  };
+  await Promise.all(Array.from({ length: run.concurrency }, worker));
+
+  run.logger.debug('Migration complete', { operation: 'migrate', ...report, failed: report.failed.length });
+  return report;
+}
@@ -0,0 +1,120 @@
+import type { Sharp } from 'sharp';
+import { ImageOptimizationRule, StrapiFile } from './types.js';
+import { matchesRoute } from './routing.js';
+import { ConfigError, FileValidationError } from './errors.js';
+
+export const DEFAULT_OPTIMIZATION_RULES: ImageOptimizationRule[] = [
+  // Already compressed, animated or vector: re-encoding gains little or loses something
+  { mime: ['image/gif', 'image/svg+xml', 'image/webp', 'image/avif'], skip: true },
+  { mime: ['image/jpeg', 'image/png', 'image/tiff'], format: 'webp', quality: 80, maxWidth: 2560, maxHeight: 2560 },
+];
+
+const DEFAULT_QUALITY = 80;
+
+const OUTPUT_TYPES: Record<string, { mime: string; ext: string }> = {
+  webp: { mime: 'image/webp', ext: '.webp' },
+  avif: { mime: 'image/avif', ext: '.avif' },
+  jpeg: { mime: 'image/jpeg', ext: '.jpg' },
+  png: { mime: 'image/png', ext: '.png' },
+};
+
+export interface OptimizedImage {
+  buffer: Buffer;
+  mime: string;
+  ext: string;
+  width: number;
+  height: number;
+}
+
+type SharpFactory = (input?: Buffer, options?: { animated?: boolean }) => Sharp;
+
+let sharpModule: Promise<SharpFactory> | undefined;
+
+// sharp ships with Strapi; it is only loaded once an image needs it
+const loadSharp = (): Promise<SharpFactory> => {
+  sharpModule ??= import('sharp').then(
+    (module) => (module.default ?? module) as unknown as SharpFactory,
+    (error) => {
+      sharpModule = undefined;
+      throw new ConfigError('imageOptimization requires the "sharp" package: npm install sharp', { cause: error });
+    }
+  );
+  return sharpModule;
+};
+
+/** Output mime type and extension; 'original' keeps what the file declares */
+const getOutputType = (file: StrapiFile, format: string) =>
+  format === 'original' ? { mime: file.mime, ext: file.ext } : OUTPUT_TYPES[format];
+
+/** Decodes, rotates, resizes and re-encodes one image; undecodable content is rejected */
+const encode = async (file: StrapiFile, content: Buffer, rule: ImageOptimizationRule): Promise<OptimizedImage> => {
+  const sharp = await loadSharp();
+  const format = rule.format ?? 'webp';
+  const quality = rule.quality ?? DEFAULT_QUALITY;
+  try {
+    let image = sharp(content, { animated: true });
+    if (rule.autoRotate !== false) {
+      image = image.rotate();
+    }
+    if (rule.maxWidth || rule.maxHeight) {
+      image = image.resize({ width: rule.maxWidth, height: rule.maxHeight, fit: 'inside', withoutEnlargement: true });
+    }
+    // sharp drops EXIF, GPS, XMP and IPTC unless asked to keep them
+    if (rule.stripMetadata === false) {
+      image = image.keepMetadata();
+    }
+    if (format !== 'original') {
+      image = image.toFormat(format, { quality });
+    } else {
+      const { format: inputFormat } = await image.metadata();
+      image = inputFormat ? image.toFormat(inputFormat, { quality }) : image;
+    }
+
+    const { data, info } = await image.toBuffer({ resolveWithObject: true });
+    return {
+      buffer: data,
+      ...getOutputType(file, format),
+      width: info.width,
+      // Animated images report the height of all frames stacked (pageHeight is missing from sharp's types)
+      height: (info as { pageHeight?: number }).pageHeight ?? info.height,
+    };
+  } catch (error) {
+    throw new FileValidationError(`${file.name} was rejected: the image could not be decoded`, { reason: 'image', cause: error });
+  }
+};
+
+/**
+ * Re-encodes images matching the first applicable rule: auto-rotates, strips metadata, caps
+ * the dimensions and converts the format. `applies` tells, before any content is read,
+ * whether `optimize` would change the file.
+ */
+export function createImageOptimizer(rules: ImageOptimizationRule[]) {
+  for (const rule of rules) {
+    if (rule.format && rule.format !== 'original' && !OUTPUT_TYPES[rule.format]) {
+      throw new ConfigError(`imageOptimization format "${rule.format}" is not supported.`);
+    }
+    if (rule.quality !== undefined && !(Number.isInteger(rule.quality) && rule.quality >= 1 && rule.quality <= 100)) {
+      throw new ConfigError(`imageOptimization quality must be between 1 and 100, got ${rule.quality}.`);
+    }
+  }
+
+  const resolveRule = (file: StrapiFile): ImageOptimizationRule | undefined => {
+    if (!file.mime?.toLowerCase().startsWith('image/')) {
+      return undefined;
+    }
+    const rule = rules.find((candidate) => matchesRoute(file, { mime: candidate.mime, ext: candidate.ext }));
+    return rule?.skip ? undefined : rule;
+  };
+
+  return {
+    applies: (file: StrapiFile): boolean => !!resolveRule(file),
+
+    async optimize(file: StrapiFile, content: Buffer): Promise<OptimizedImage | undefined> {
+      const rule = resolveRule(file);
+      if (!rule) {
+        return undefined;
+      }
+      return encode(file, content, rule);
+    },
+  };
+}
@@ -0,0 +1,160 @@
+import { StorageClient } from '@supabase/storage-js';
+import { Logger, OrphanObject, ReconcileReport } from './types.js';
+import { RetryPolicy, withRetry } from './retry.js';
+import { toProviderError } from './errors.js';
+import { chunk } from './utils.js';
+import { getErrorFields } from './logger.js';
+import { getVersionedKey } from './versions.js';
+
+export const DEFAULT_RECONCILE_PAGE_SIZE = 1000;
+export const DEFAULT_ORPHAN_GRACE_PERIOD = 86400;
+
+// Supabase keeps otherwise empty folders alive with this object
+const FOLDER_PLACEHOLDER = '.emptyFolderPlaceholder';
+const REMOVE_BATCH_SIZE = 100;
+
+export interface StoredObject {
+  key: string;
+  size?: number;
+  lastModified?: string;
+}
+
+export interface ListOptions {
+  pageSize: number;
+  exclude: string[];  // key prefixes that are not walked (reference markers, quarantine)
+  retryPolicy: RetryPolicy;
+  logger: Logger;
+  operation?: string;  // logged with list requests, default 'reconcile'
+}
+
+const joinKey = (folder: string, name: string) => (folder ? `${folder}/${name}` : name);
+
+const isUnder = (key: string, prefix: string) => !prefix || key === prefix || key.startsWith(`${prefix}/`);
+
+/**
+ * Walks every object under `prefix`, folder by folder. `list` returns one level at a time,
+ * folders being the entries without an id; each level is paged by `pageSize`.
+ */
+export async function* listObjects(
+  storageClient: StorageClient,
+  bucket: string,
+  prefix: string,
+  options: ListOptions
+): AsyncGenerator<StoredObject> {
+  const folders = [prefix];
+  while (folders.length) {
+    const folder = folders.pop()!;
+    for (let offset = 0; ; offset += options.pageSize) {
+      const { data, error } = await withRetry(
+        `Listing of ${folder || bucket}`,
+        options.retryPolicy,
+        () => storageClient.from(bucket).list(folder, { limit: options.pageSize, offset, sortBy: { column: 'name', order: 'asc' } }),
+        { logger: options.logger, fields: { operation: options.operation ?? 'reconcile', bucket, path: folder } }
+      );
+      if (error) {
+        throw toProviderError(error, 'Failed to list bucket');
+      }
+      for (const entry of data) {
+        const key = joinKey(folder, entry.name);
+        if (options.exclude.some((excluded) => isUnder(key, excluded))) {
+          continue;
+        }
+        if (!entry.id) {
+          folders.push(key);
+        } else if (entry.name !== FOLDER_PLACEHOLDER) {
+          yield { key, size: entry.metadata?.size, lastModified: entry.updated_at ?? entry.created_at };
+        }
+      }
+      if (data.length < options.pageSize) {
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Removes keys in batches; a failed batch is logged as "Failed to delete {label}" and
+ * reported with its keys rather than thrown.
+ */
+export async function removeObjects(
+  storageClient: StorageClient,
+  bucket: string,
+  keys: string[],
+  options: { retryPolicy: RetryPolicy; logger: Logger; operation: string; label: string }
+): Promise<{ deleted: string[]; failed: string[] }> {
+  const deleted: string[] = [];
+  const failed: string[] = [];
+  for (const group of chunk(keys, REMOVE_BATCH_SIZE)) {
+    const fields = { operation: options.operation, bucket, count: group.length };
+    const { error } = await withRetry(
+      `Removal of ${group.length} ${options.label}`,
+      options.retryPolicy,
+      () => storageClient.from(bucket).remove(group),
+      { logger: options.logger, fields }
+    );
+    if (error) {
+      options.logger.warn(`Failed to delete ${options.label}`, { ...fields, ...getErrorFields(toProviderError(error)) });
+      failed.push(...group);
+    } else {
+      deleted.push(...group);
+    }
+  }
+  return { deleted, failed };
+}
+
+export interface ReconcileTarget {
+  bucket: string;
+  prefix: string;
+  known: Set<string>;   // keys Strapi records point to
+  dryRun: boolean;
+  gracePeriod: number;  // seconds
+}
+
+/**
+ * Lists the bucket under `prefix` and compares it with the known keys: objects nobody points
+ * to (versions of known keys aside) are orphans, known keys under `prefix` without an object
+ * are missing. Unless `dryRun`, orphans older than the grace period are deleted; failed
+ * batches are reported, not thrown.
+ */
+export async function reconcileBucket(
+  storageClient: StorageClient,
+  target: ReconcileTarget,
+  options: ListOptions & { now?: () => number }
+): Promise<ReconcileReport> {
+  const { bucket, prefix, known } = target;
+  const now = (options.now ?? Date.now)();
+  const listed = new Set<string>();
+  const orphans: OrphanObject[] = [];
+
+  for await (const object of listObjects(storageClient, bucket, prefix, options)) {
+    listed.add(object.key);
+    // Previous versions belong to their key
+    if (known.has(object.key) || known.has(getVersionedKey(object.key) ?? '')) {
+      continue;
+    }
+    const modified = object.lastModified ? Date.parse(object.lastModified) : NaN;
+    // Objects without a timestamp are never old enough to delete
+    orphans.push({ ...object, expired: now - modified > target.gracePeriod * 1000 });
+  }
+
+  const missing = [...known]
+    .filter((key) => isUnder(key, prefix) && !listed.has(key) && !options.exclude.some((excluded) => isUnder(key, excluded)))
+    .sort();
+
+  const expired = orphans.filter((orphan) => orphan.expired).map((orphan) => orphan.key);
+  const { deleted, failed } = target.dryRun
+    ? { deleted: [], failed: [] }
+    : await removeObjects(storageClient, bucket, expired, { ...options, operation: 'reconcile', label: 'orphaned objects' });
+
+  options.logger.debug('Reconciliation complete', {
+    operation: 'reconcile',
+    bucket,
+    path: prefix,
+    scanned: listed.size,
+    orphans: orphans.length,
+    missing: missing.length,
+    deleted: deleted.length,
+    dryRun: target.dryRun,
+  });
+  return { bucket, prefix, dryRun: target.dryRun, scanned: listed.size, orphans, missing, deleted, failed };
+}
@@ -0,0 +1,104 @@
+import { Logger, LogFields, RetryConfig } from './types.js';
+import { createLogger, getErrorFields } from './logger.js';
+import { NETWORK_ERROR_CODES, getErrorCodes, isFetchFailure } from './errors.js';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  jitter: boolean;
+  retryOnStatus: number[];
+  retryOnErrorCodes: string[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 200,
+  maxDelay: 5000,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnErrorCodes: NETWORK_ERROR_CODES,
+};
+
+/** Merges user retry options over the defaults. `false` disables retries. */
+export function resolveRetryPolicy(config?: RetryConfig | false): RetryPolicy {
+  if (config === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...config,
+    maxAttempts: Math.max(1, config?.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts),
+  };
+}
+
+/**
+ * Returns true for transient failures: configured HTTP statuses, socket-level
+ * error codes, and storage-js "unknown" errors (non-JSON 5xx pages, fetch failures).
+ */
+export function isRetriableError(error: unknown, policy: RetryPolicy): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const { status } = error as { status?: unknown };
+
+  if (typeof status === 'number') {
+    return policy.retryOnStatus.includes(status);
+  }
+  if (getErrorCodes(error).some((code) => policy.retryOnErrorCodes.includes(code))) {
+    return true;
+  }
+  return isFetchFailure(error);
+}
+
+/** Exponential backoff: baseDelay * 2^(attempt-1), capped at maxDelay, with optional full jitter */
+export function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return policy.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export interface RetryLogOptions {
+  logger?: Logger;     // provider logger from createLogger
+  fields?: LogFields;  // added to each retry warning
+}
+
+/**
+ * Runs a storage-js call until it succeeds, fails permanently, or attempts run out.
+ * Handles both `{ error }` results and thrown errors; the last outcome is returned/thrown as-is.
+ */
+export async function withRetry<T extends { error: unknown }>(
+  label: string,
+  policy: RetryPolicy,
+  operation: (attempt: number) => Promise<T>,
+  { logger = createLogger(), fields }: RetryLogOptions = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    let failure: unknown;
+    try {
+      const result = await operation(attempt);
+      if (!result.error) {
+        return result;
+      }
+      if (attempt >= policy.maxAttempts || !isRetriableError(result.error, policy)) {
+        return result;
+      }
+      failure = result.error;
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetriableError(error, policy)) {
+        throw error;
+      }
+      failure = error;
+    }
+
+    const delay = getRetryDelay(attempt, policy);
+    logger.warn(`${label} failed (attempt ${attempt}/${policy.maxAttempts}), retrying in ${delay}ms`, {
+      ...fields,
+      ...getErrorFields(failure),
+      attempt,
+      delay,
+    });
+    await sleep(delay);
+  }
+}
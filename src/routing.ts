@@ -0,0 +1,79 @@
+import { BucketRoute, StrapiFile } from './types.js';
+import { getFileByteSize, matchesMimePattern, matchesExtension } from './utils.js';
+
+// Bucket, directory and visibility chosen for a file
+export interface ResolvedRoute {
+  bucket: string;
+  directory: string;
+  publicFiles: boolean;
+  sizeLimit?: number;
+}
+
+const toList = (value?: string | string[]): string[] | undefined =>
+  value === undefined ? undefined : Array.isArray(value) ? value : [value];
+
+/** True when every criterion set on the route matches the file (a route without criteria matches all) */
+export function matchesRoute(file: StrapiFile, route: BucketRoute): boolean {
+  const mimes = toList(route.mime);
+  if (mimes && !mimes.some((pattern) => matchesMimePattern(file.mime, pattern))) {
+    return false;
+  }
+
+  const extensions = toList(route.ext);
+  if (extensions && !extensions.some((ext) => matchesExtension(file.ext, ext))) {
+    return false;
+  }
+
+  if (route.minSize !== undefined || route.maxSize !== undefined) {
+    const size = getFileByteSize(file);
+    if (route.minSize !== undefined && size < route.minSize) {
+      return false;
+    }
+    if (route.maxSize !== undefined && size > route.maxSize) {
+      return false;
+    }
+  }
+
+  return route.match ? route.match(file) : true;
+}
+
+/**
+ * Creates the routing table. The first matching route wins; unmatched files use
+ * the default route. Missing route fields inherit from the default route.
+ */
+export function createRouter(routes: BucketRoute[], defaults: ResolvedRoute) {
+  const resolved = routes.map((route) => ({
+    route,
+    target: {
+      bucket: route.bucket ?? defaults.bucket,
+      directory: route.directory ?? defaults.directory,
+      publicFiles: route.publicFiles ?? defaults.publicFiles,
+      sizeLimit: route.sizeLimit,
+    },
+  }));
+
+  return {
+    /** Route for a new upload */
+    resolve(file: StrapiFile): ResolvedRoute {
+      return resolved.find(({ route }) => matchesRoute(file, route))?.target ?? defaults;
+    },
+
+    /**
+     * Public/private is a property of the bucket in Supabase: a bucket is treated as
+     * private when the default or any route targeting it is private.
+     * Buckets that are not configured (legacy records) fall back to the default mode.
+     */
+    isBucketPublic(bucket: string): boolean {
+      const targets = [defaults, ...resolved.map(({ target }) => target)].filter((t) => t.bucket === bucket);
+      if (targets.length === 0) {
+        return defaults.publicFiles;
+      }
+      return targets.every((target) => target.publicFiles);
+    },
+
+    /** True when at least one configured bucket is private */
+    hasPrivateBuckets(): boolean {
+      return !defaults.publicFiles || resolved.some(({ target }) => !target.publicFiles);
+    },
+  };
+}
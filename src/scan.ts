@@ -0,0 +1,86 @@
+import { PassThrough, Readable } from 'stream';
+import { ScanConfig, Scanner, StrapiFile } from './types.js';
+import { ConfigError, InfectedFileError, ScanFailedError } from './errors.js';
+import { createClamAvScanner } from './clamav.js';
+
+/** Builds the scanner from `scan.scanner` or `scan.clamav` */
+export function resolveScanner(config?: ScanConfig): Scanner | undefined {
+  if (!config) {
+    return undefined;
+  }
+  if (config.scanner) {
+    return config.scanner;
+  }
+  if (config.clamav) {
+    return createClamAvScanner(config.clamav);
+  }
+  throw new ConfigError('scan requires either a scanner function or clamav connection options.');
+}
+
+/**
+ * Runs the scanner and turns its verdict into errors: InfectedFileError for threats,
+ * ScanFailedError when the scanner itself fails (uploads fail closed).
+ */
+export async function scanContent(scanner: Scanner, file: StrapiFile, content: Readable): Promise<void> {
+  let result;
+  try {
+    result = await scanner(file, content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ScanFailedError(`Virus scan failed for ${file.name}: ${reason}`, { cause: error });
+  }
+  if (!result.clean) {
+    const threat = result.threat ?? 'unknown threat';
+    throw new InfectedFileError(`${file.name} was rejected: ${threat} detected`, { threat });
+  }
+}
+
+/**
+ * Splits a stream into two branches that receive the same bytes; the source pauses while
+ * either branch is full. A destroyed branch is dropped so the other keeps flowing, and
+ * the source is released once neither branch reads it anymore.
+ */
+export function teeStream(source: Readable): [PassThrough, PassThrough] {
+  const branches: [PassThrough, PassThrough] = [new PassThrough(), new PassThrough()];
+  const live = new Set<PassThrough>(branches);
+  const waiting = new Set<PassThrough>();
+
+  const resumeIfDrained = () => {
+    if (waiting.size === 0 && source.isPaused()) {
+      source.resume();
+    }
+  };
+
+  for (const branch of branches) {
+    branch.on('drain', () => {
+      waiting.delete(branch);
+      resumeIfDrained();
+    });
+    branch.once('close', () => {
+      live.delete(branch);
+      waiting.delete(branch);
+      if (live.size === 0) {
+        if (!source.readableEnded) {
+          source.destroy();
+        }
+        return;
+      }
+      resumeIfDrained();
+    });
+  }
+
+  source.on('data', (piece) => {
+    for (const branch of live) {
+      if (!branch.write(piece)) {
+        waiting.add(branch);
+      }
+    }
+    if (waiting.size > 0) {
+      source.pause();
+    }
+  });
+  source.once('end', () => live.forEach((branch) => branch.end()));
+  source.once('error', (error) => live.forEach((branch) => branch.destroy(error)));
+
+  return branches;
+}
@@ -0,0 +1,63 @@
+import { ImageTransform, SignedUrlOptions, StrapiFile } from './types.js';
+import { InvalidOptionsError } from './errors.js';
+
+/** getSignedUrl options with defaults applied; `download` is the attachment name, if any */
+export interface ResolvedSignedUrlOptions {
+  expiresIn: number;
+  download?: string;
+  transform?: ImageTransform;
+}
+
+const RESIZE_MODES = ['cover', 'contain', 'fill'];
+
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+const checkTransform = (transform: unknown): ImageTransform => {
+  if (typeof transform !== 'object' || transform === null || Array.isArray(transform)) {
+    throw new InvalidOptionsError('transform must be an object.');
+  }
+  for (const [name, value] of Object.entries(transform)) {
+    const valid =
+      name === 'width' || name === 'height' ? isPositiveInteger(value)
+      : name === 'quality' ? Number.isInteger(value) && (value as number) >= 20 && (value as number) <= 100
+      : name === 'resize' ? RESIZE_MODES.includes(value as string)
+      : name === 'format' ? value === 'origin'
+      : undefined;
+    if (valid === undefined) {
+      throw new InvalidOptionsError(`Unknown transform option "${name}".`);
+    }
+    if (!valid) {
+      throw new InvalidOptionsError(`Invalid transform.${name}: ${JSON.stringify(value)}.`);
+    }
+  }
+  return transform as ImageTransform;
+};
+
+/**
+ * Validates getSignedUrl options and fills in the provider defaults. Throws
+ * InvalidOptionsError for invalid values, whatever `signedUrlErrors` says.
+ */
+export function resolveSignedUrlOptions(
+  file: StrapiFile,
+  options: SignedUrlOptions = {},
+  defaultExpiresIn: number
+): ResolvedSignedUrlOptions {
+  const { expiresIn = defaultExpiresIn, download, transform } = options;
+
+  if (!isPositiveInteger(expiresIn)) {
+    throw new InvalidOptionsError(`expiresIn must be a positive number of seconds, got ${JSON.stringify(expiresIn)}.`);
+  }
+  if (
+    download !== undefined &&
+    typeof download !== 'boolean' &&
+    (typeof download !== 'string' || !download.trim() || /[\u0000-\u001f\u007f]/.test(download))
+  ) {
+    throw new InvalidOptionsError('download must be a boolean or a file name without control characters.');
+  }
+
+  return {
+    expiresIn,
+    download: download === true ? file.name || file.hash + file.ext : download || undefined,
+    transform: transform === undefined ? file.provider_metadata?.transform : checkTransform(transform),
+  };
+}
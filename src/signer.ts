@@ -0,0 +1,49 @@
+import { createHash, createHmac } from 'crypto';
+import { StorageLocation, UrlSignerConfig } from './types.js';
+import { ConfigError } from './errors.js';
+
+const SCHEMES = ['query', 'cloudflare', 'bunny'];
+
+export interface UrlSignerOptions {
+  expiresIn: number;        // seconds, unless given when signing
+  now?: () => number;       // ms since epoch, default Date.now
+}
+
+const toBase64Url = (digest: Buffer) =>
+  digest.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/** Query string for each scheme; `path` is the URL path as the CDN receives it (percent-encoded) */
+const SIGNERS: Record<UrlSignerConfig['scheme'], (secret: string, path: string, expires: number) => string> = {
+  query: (secret, path, expires) =>
+    `expires=${expires}&signature=${createHmac('sha256', secret).update(`${path}:${expires}`).digest('hex')}`,
+  cloudflare: (secret, path, expires) =>
+    `verify=${expires}-${encodeURIComponent(createHmac('sha256', secret).update(`${path}${expires}`).digest('base64'))}`,
+  bunny: (secret, path, expires) =>
+    `token=${toBase64Url(createHash('sha256').update(`${secret}${path}${expires}`).digest())}&expires=${expires}`,
+};
+
+/**
+ * Signs object URLs locally for a CDN that validates the token itself: no request to
+ * Supabase. Returns the signed URL of a location, valid for `expiresIn` seconds.
+ */
+export function createUrlSigner(config: UrlSignerConfig, options: UrlSignerOptions) {
+  if (!SCHEMES.includes(config.scheme)) {
+    throw new ConfigError(`urlSigner.scheme must be one of ${SCHEMES.join(', ')}, got "${config.scheme}".`);
+  }
+  if (!config.secret) {
+    throw new ConfigError('urlSigner.secret is required.');
+  }
+  const template = /\{(bucket|key)\}/.test(config.url) ? config.url : `${config.url.replace(/\/+$/, '')}/{bucket}/{key}`;
+  if (!template.includes('{key}') || !URL.canParse(template.replace(/\{(bucket|key)\}/g, 'x'))) {
+    throw new ConfigError(`urlSigner.url "${config.url}" must be a base URL or a URL template containing {key}.`);
+  }
+  const sign = SIGNERS[config.scheme];
+  const now = options.now ?? Date.now;
+
+  return ({ bucket, key }: StorageLocation, expiresIn = options.expiresIn): string => {
+    const url = new URL(template.replace('{bucket}', encodeURIComponent(bucket)).replace('{key}', encodeURI(key)));
+    const expires = Math.floor(now() / 1000) + expiresIn;
+    const query = sign(config.secret, url.pathname, expires);
+    return `${url.origin}${url.pathname}${url.search ? `${url.search}&` : '?'}${query}`;
+  };
+}
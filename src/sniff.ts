@@ -0,0 +1,280 @@
+import { Readable } from 'stream';
+
+/** Enough for every signature below, including ISO-BMFF brands and text markers after a BOM */
+export const SNIFF_BYTES = 4100;
+
+// A content type recognized from the first bytes of a file
+export interface Signature {
+  mime: string;            // reported as the detected type
+  accepts: string[];       // declared mime types the content is compatible with ("prefix*" / "*suffix")
+  extensions: string[];    // extensions that promise this content
+  strict?: boolean;        // default true: a file declaring this type must carry the signature
+  test: (head: Buffer) => boolean;
+}
+
+const bytesAt = (head: Buffer, bytes: number[], offset = 0) =>
+  head.length >= offset + bytes.length && bytes.every((byte, i) => head[offset + i] === byte);
+
+const asciiAt = (head: Buffer, text: string, offset = 0) =>
+  head.length >= offset + text.length && head.toString('latin1', offset, offset + text.length) === text;
+
+/** ISO-BMFF major brand ("ftyp" box at offset 4) */
+const getFtypBrand = (head: Buffer): string | undefined =>
+  asciiAt(head, 'ftyp', 4) ? head.toString('latin1', 8, 12).trim().toLowerCase() : undefined;
+
+/** Leading text with BOM and whitespace removed, lowercased; undefined for binary content */
+const getLeadingText = (head: Buffer): string | undefined => {
+  const text = head.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+  return /[\u0000-\u0008\u000E-\u001F]/.test(text.slice(0, 512)) ? undefined : text.toLowerCase();
+};
+
+const HTML_START = /^(<!--[\s\S]*?-->\s*)*<(!doctype html|html|head|body|script|iframe|meta|title|style)[\s>/]/;
+const SVG_START = /^(<\?xml[\s\S]*?\?>\s*)?(<!--[\s\S]*?-->\s*|<!doctype[^>]*>\s*)*<svg[\s>]/;
+
+// One container family: brands vary between encoders, so the members accept each other
+const ISO_BMFF = [
+  'video/mp4', 'video/quicktime', 'video/3gpp', 'video/3gpp2', 'video/x-m4v',
+  'audio/mp4', 'audio/m4a', 'audio/x-m4a', 'image/heic', 'image/heif', 'image/avif',
+];
+const ISO_BMFF_EXTENSIONS = ['mp4', 'm4v', 'm4a', 'mov', '3gp', '3g2', 'heic', 'heif', 'avif'];
+
+/** Ordered: specific signatures first, text heuristics last */
+export const SIGNATURES: Signature[] = [
+  {
+    mime: 'image/jpeg',
+    accepts: ['image/jpeg', 'image/jpg', 'image/pjpeg'],
+    extensions: ['jpg', 'jpeg', 'jpe', 'jfif'],
+    test: (head) => bytesAt(head, [0xff, 0xd8, 0xff]),
+  },
+  {
+    mime: 'image/png',
+    accepts: ['image/png', 'image/apng'],
+    extensions: ['png', 'apng'],
+    test: (head) => bytesAt(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    mime: 'image/gif',
+    accepts: ['image/gif'],
+    extensions: ['gif'],
+    test: (head) => asciiAt(head, 'GIF87a') || asciiAt(head, 'GIF89a'),
+  },
+  {
+    mime: 'image/webp',
+    accepts: ['image/webp'],
+    extensions: ['webp'],
+    test: (head) => asciiAt(head, 'RIFF') && asciiAt(head, 'WEBP', 8),
+  },
+  {
+    mime: 'image/bmp',
+    accepts: ['image/bmp', 'image/x-bmp', 'image/x-ms-bmp'],
+    extensions: ['bmp'],
+    test: (head) => asciiAt(head, 'BM') && head.length >= 14 && head.readUInt32LE(2) > 0,
+  },
+  {
+    mime: 'image/tiff',
+    accepts: ['image/tiff'],
+    extensions: ['tif', 'tiff'],
+    test: (head) => bytesAt(head, [0x49, 0x49, 0x2a, 0x00]) || bytesAt(head, [0x4d, 0x4d, 0x00, 0x2a]),
+  },
+  {
+    mime: 'image/x-icon',
+    accepts: ['image/x-icon', 'image/vnd.microsoft.icon'],
+    extensions: ['ico'],
+    test: (head) => bytesAt(head, [0x00, 0x00, 0x01, 0x00]),
+  },
+  {
+    mime: 'image/avif',
+    accepts: ISO_BMFF,
+    extensions: ISO_BMFF_EXTENSIONS,
+    test: (head) => ['avif', 'avis'].includes(getFtypBrand(head) ?? ''),
+  },
+  {
+    mime: 'image/heic',
+    accepts: ISO_BMFF,
+    extensions: ISO_BMFF_EXTENSIONS,
+    test: (head) => ['heic', 'heix', 'heim', 'heis', 'mif1', 'msf1'].includes(getFtypBrand(head) ?? ''),
+  },
+  {
+    mime: 'video/mp4',
+    accepts: ISO_BMFF,
+    extensions: ISO_BMFF_EXTENSIONS,
+    test: (head) => getFtypBrand(head) !== undefined,
+  },
+  {
+    mime: 'video/webm',
+    accepts: ['video/webm', 'audio/webm', 'video/x-matroska', 'audio/x-matroska'],
+    extensions: ['webm', 'mkv', 'mka'],
+    test: (head) => bytesAt(head, [0x1a, 0x45, 0xdf, 0xa3]),
+  },
+  {
+    mime: 'audio/ogg',
+    accepts: ['audio/ogg', 'video/ogg', 'application/ogg', 'audio/opus'],
+    extensions: ['ogg', 'oga', 'ogv', 'opus'],
+    test: (head) => asciiAt(head, 'OggS'),
+  },
+  {
+    mime: 'audio/wav',
+    accepts: ['audio/wav', 'audio/wave', 'audio/x-wav', 'audio/vnd.wave'],
+    extensions: ['wav'],
+    test: (head) => asciiAt(head, 'RIFF') && asciiAt(head, 'WAVE', 8),
+  },
+  {
+    mime: 'audio/flac',
+    accepts: ['audio/flac', 'audio/x-flac'],
+    extensions: ['flac'],
+    test: (head) => asciiAt(head, 'fLaC'),
+  },
+  {
+    // Frame sync without ID3 is common, and a few encoders pad the start: not strict
+    mime: 'audio/mpeg',
+    accepts: ['audio/mpeg', 'audio/mp3'],
+    extensions: ['mp3'],
+    strict: false,
+    test: (head) => asciiAt(head, 'ID3') || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0),
+  },
+  {
+    mime: 'application/pdf',
+    accepts: ['application/pdf'],
+    extensions: ['pdf'],
+    test: (head) => asciiAt(head, '%PDF-'),
+  },
+  {
+    mime: 'application/zip',
+    accepts: [
+      'application/zip',
+      'application/x-zip-compressed',
+      'application/vnd.openxmlformats-officedocument.*',
+      'application/vnd.oasis.opendocument.*',
+      'application/epub+zip',
+      'application/java-archive',
+      'application/vnd.android.package-archive',
+    ],
+    extensions: ['zip', 'docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub', 'jar', 'apk'],
+    test: (head) => bytesAt(head, [0x50, 0x4b, 0x03, 0x04]) || bytesAt(head, [0x50, 0x4b, 0x05, 0x06]),
+  },
+  {
+    mime: 'application/gzip',
+    accepts: ['application/gzip', 'application/x-gzip'],
+    extensions: ['gz', 'tgz'],
+    test: (head) => bytesAt(head, [0x1f, 0x8b]),
+  },
+  {
+    mime: 'application/vnd.rar',
+    accepts: ['application/vnd.rar', 'application/x-rar-compressed'],
+    extensions: ['rar'],
+    test: (head) => asciiAt(head, 'Rar!\x1a\x07'),
+  },
+  {
+    mime: 'application/x-7z-compressed',
+    accepts: ['application/x-7z-compressed'],
+    extensions: ['7z'],
+    test: (head) => bytesAt(head, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]),
+  },
+  {
+    mime: 'application/x-msdownload',
+    accepts: ['application/x-msdownload', 'application/x-dosexec', 'application/vnd.microsoft.portable-executable'],
+    extensions: ['exe', 'dll'],
+    test: (head) => asciiAt(head, 'MZ'),
+  },
+  {
+    mime: 'application/x-executable',
+    accepts: ['application/x-executable', 'application/x-elf', 'application/x-sharedlib'],
+    extensions: ['elf', 'so'],
+    test: (head) => bytesAt(head, [0x7f, 0x45, 0x4c, 0x46]),
+  },
+  {
+    mime: 'application/x-mach-binary',
+    accepts: ['application/x-mach-binary'],
+    extensions: ['dylib'],
+    test: (head) => bytesAt(head, [0xcf, 0xfa, 0xed, 0xfe]) || bytesAt(head, [0xce, 0xfa, 0xed, 0xfe]),
+  },
+  {
+    mime: 'image/svg+xml',
+    accepts: ['image/svg+xml'],
+    extensions: ['svg'],
+    test: (head) => SVG_START.test(getLeadingText(head) ?? ''),
+  },
+  {
+    mime: 'text/html',
+    accepts: ['text/html', 'application/xhtml+xml'],
+    extensions: ['html', 'htm', 'xhtml'],
+    strict: false,
+    test: (head) => HTML_START.test(getLeadingText(head) ?? ''),
+  },
+  {
+    mime: 'application/xml',
+    accepts: ['application/xml', 'text/xml', '*+xml'],
+    extensions: ['xml'],
+    strict: false,
+    test: (head) => (getLeadingText(head) ?? '').startsWith('<?xml'),
+  },
+  {
+    mime: 'text/x-shellscript',
+    accepts: ['text/x-shellscript', 'application/x-sh', 'text/x-sh'],
+    extensions: ['sh'],
+    strict: false,
+    test: (head) => asciiAt(head, '#!'),
+  },
+];
+
+/** Matches a declared mime type against an accept pattern ("type/exact", "prefix*" or "*suffix") */
+export const acceptsMime = (pattern: string, mime: string): boolean => {
+  const value = mime.toLowerCase();
+  if (pattern.endsWith('*')) {
+    return value.startsWith(pattern.slice(0, -1));
+  }
+  if (pattern.startsWith('*')) {
+    return value.endsWith(pattern.slice(1));
+  }
+  return value === pattern;
+};
+
+/** Returns the first signature matching the leading bytes, if any */
+export function sniffSignature(head: Buffer): Signature | undefined {
+  return SIGNATURES.find((signature) => signature.test(head));
+}
+
+/**
+ * Reads the first `bytes` of a stream without losing them: the returned stream replays
+ * the peeked bytes followed by the rest of the source, so it can still be uploaded.
+ */
+export async function peekStream(stream: Readable, bytes: number = SNIFF_BYTES): Promise<{ head: Buffer; stream: Readable }> {
+  const iterator: AsyncIterator<Buffer | string> = stream[Symbol.asyncIterator]();
+  const pieces: Buffer[] = [];
+  let length = 0;
+  let ended = false;
+
+  while (length < bytes) {
+    const next = await iterator.next();
+    if (next.done) {
+      ended = true;
+      break;
+    }
+    const piece = Buffer.isBuffer(next.value) ? next.value : Buffer.from(next.value);
+    pieces.push(piece);
+    length += piece.length;
+  }
+
+  const peeked = Buffer.concat(pieces, length);
+
+  async function* replay() {
+    if (peeked.length) {
+      yield peeked;
+    }
+    while (!ended) {
+      const next = await iterator.next();
+      if (next.done) {
+        return;
+      }
+      yield Buffer.isBuffer(next.value) ? next.value : Buffer.from(next.value);
+    }
+  }
+
+  const replayed = Readable.from(replay(), { objectMode: false });
+  // Releases the source (e.g. the temp file handle) when the replay is destroyed early
+  replayed.once('close', () => {
+    Promise.resolve(iterator.return?.()).catch(() => {});
+  });
+
+  return { head: peeked.subarray(0, bytes), stream: replayed };
+}
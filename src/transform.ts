@@ -0,0 +1,59 @@
+import { ImageTransform, StorageLocation, StrapiFile } from './types.js';
+
+/** Mirrors Strapi's thumbnail size and default breakpoints (fit: inside) */
+export const DEFAULT_FORMAT_TRANSFORMS: Record<string, ImageTransform> = {
+  thumbnail: { width: 245, height: 156, resize: 'contain' },
+  small: { width: 500, height: 500, resize: 'contain' },
+  medium: { width: 750, height: 750, resize: 'contain' },
+  large: { width: 1000, height: 1000, resize: 'contain' },
+};
+
+const MAX_TRACKED_ORIGINALS = 1000;
+
+export interface FormatVariant {
+  format: string;
+  transform: ImageTransform;
+  original: StorageLocation;
+}
+
+/**
+ * Recognizes Strapi format uploads ("{format}_{originalHash}") of images uploaded by this instance.
+ * Strapi starts the original's upload and its formats' together, so the original's location
+ * is remembered briefly; a file whose name merely starts with "thumbnail_" is never mistaken
+ * for a variant because its remainder was not uploaded as an original.
+ */
+export function createFormatVariantTracker(transforms: Record<string, ImageTransform>) {
+  const originals = new Map<string, Promise<StorageLocation | undefined>>();
+
+  return {
+    /**
+     * Remembers where an image is uploaded so its formats can point to it. A location only
+     * known once written (deduplicated content) is registered as a promise that formats wait
+     * for; resolving it with undefined lets them upload as regular files.
+     */
+    registerOriginal(file: StrapiFile, location: StorageLocation | Promise<StorageLocation | undefined>): void {
+      originals.set(file.hash, Promise.resolve(location).catch(() => undefined));
+      if (originals.size > MAX_TRACKED_ORIGINALS) {
+        originals.delete(originals.keys().next().value!);
+      }
+    },
+
+    /**
+     * Resolves with the transform to apply when `file` is a format of a tracked original, once
+     * its location is known. Other files get undefined right away, so their uploads never wait.
+     */
+    match(file: StrapiFile): Promise<FormatVariant | undefined> | undefined {
+      if (!file.mime?.startsWith('image/')) {
+        return undefined;
+      }
+      for (const [format, transform] of Object.entries(transforms)) {
+        const prefix = `${format}_`;
+        const original = file.hash.startsWith(prefix) ? originals.get(file.hash.slice(prefix.length)) : undefined;
+        if (original) {
+          return original.then((location) => location && { format, transform, original: location });
+        }
+      }
+      return undefined;
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { StorageClient } from '@supabase/storage-js';
+import { PurgeTrashReport } from './types.js';
+import { listObjects, removeObjects, ListOptions } from './reconcile.js';
+
+export const DEFAULT_TRASH_PREFIX = '.trash';
+export const DEFAULT_TRASH_RETENTION = 30 * 86400;
+
+/** Where a soft-deleted object is kept: "{prefix}/{key}" */
+export function getTrashKey(prefix: string, key: string): string {
+  return `${prefix}/${key}`;
+}
+
+export interface PurgeTarget {
+  bucket: string;
+  prefix: string;     // trash prefix
+  retention: number;  // seconds
+}
+
+/**
+ * Permanently removes trashed objects older than the retention period. Their age is the last
+ * update of the trashed object, i.e. when it was moved there; objects without one are kept.
+ */
+export async function purgeTrash(
+  storageClient: StorageClient,
+  target: PurgeTarget,
+  options: Omit<ListOptions, 'exclude' | 'operation'> & { now?: () => number }
+): Promise<PurgeTrashReport> {
+  const { bucket, prefix } = target;
+  const now = (options.now ?? Date.now)();
+  const expired: string[] = [];
+  let scanned = 0;
+
+  for await (const object of listObjects(storageClient, bucket, prefix, { ...options, exclude: [], operation: 'purge' })) {
+    scanned++;
+    const modified = object.lastModified ? Date.parse(object.lastModified) : NaN;
+    if (now - modified > target.retention * 1000) {
+      expired.push(object.key);
+    }
+  }
+
+  const { deleted, failed } = await removeObjects(storageClient, bucket, expired, {
+    ...options,
+    operation: 'purge',
+    label: 'trashed objects',
+  });
+  options.logger.debug('Trash purged', { operation: 'purge', bucket, path: prefix, scanned, purged: deleted.length });
+  return { bucket, scanned, purged: deleted, failed };
+}
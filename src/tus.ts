@@ -0,0 +1,205 @@
+import { Readable } from 'stream';
+
+const TUS_VERSION = '1.0.0';
+
+export const DEFAULT_TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+export const DEFAULT_TUS_RETRY_DELAYS = [0, 1000, 3000, 5000];
+
+export interface TusUploadOptions {
+  endpoint: string;                  // {apiUrl}/storage/v1/upload/resumable
+  headers: Record<string, string>;   // apikey + Authorization
+  bucket: string;
+  objectName: string;
+  contentType: string;
+  cacheControl?: string;
+  upsert?: boolean;
+  metadata?: Record<string, unknown>; // user metadata, stored like the x-metadata upload header
+  chunkSize?: number;
+  retryDelays?: number[];
+  body: Buffer | Readable;
+}
+
+/** TUS failure with the HTTP status of the last response, when there was one */
+export class TusError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'TusError';
+  }
+}
+
+/** Encodes TUS Upload-Metadata: comma separated "key base64(value)" pairs */
+export function encodeTusMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${Buffer.from(value, 'utf8').toString('base64')}`)
+    .join(',');
+}
+
+/**
+ * Splits a buffer or stream into chunks of exactly `chunkSize` bytes (last one may be shorter).
+ * Streams are read incrementally so at most one chunk is held in memory.
+ */
+export async function* readChunks(body: Buffer | Readable, chunkSize: number): AsyncGenerator<Buffer> {
+  if (Buffer.isBuffer(body)) {
+    for (let start = 0; start < body.length; start += chunkSize) {
+      yield body.subarray(start, start + chunkSize);
+    }
+    return;
+  }
+
+  let pending: Buffer[] = [];
+  let pendingLength = 0;
+
+  for await (const piece of body) {
+    const buf = Buffer.isBuffer(piece) ? piece : Buffer.from(piece);
+    pending.push(buf);
+    pendingLength += buf.length;
+
+    while (pendingLength >= chunkSize) {
+      const joined = Buffer.concat(pending, pendingLength);
+      yield joined.subarray(0, chunkSize);
+      const rest = joined.subarray(chunkSize);
+      pending = rest.length ? [rest] : [];
+      pendingLength = rest.length;
+    }
+  }
+
+  if (pendingLength > 0) {
+    yield Buffer.concat(pending, pendingLength);
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const describeFailure = async (response: Response): Promise<string> => {
+  const text = await response.text().catch(() => '');
+  return `${response.status} ${text || response.statusText}`.trim();
+};
+
+/**
+ * Uploads a file through the Supabase Storage TUS endpoint.
+ * Buffers declare their length up front; streams use Upload-Defer-Length and
+ * send the final length with the last chunk. A failed chunk is resumed from the
+ * offset reported by the server (HEAD) instead of restarting the upload.
+ */
+export async function tusUpload(options: TusUploadOptions): Promise<void> {
+  const chunkSize = options.chunkSize ?? DEFAULT_TUS_CHUNK_SIZE;
+  const retryDelays = options.retryDelays ?? DEFAULT_TUS_RETRY_DELAYS;
+  const isBuffer = Buffer.isBuffer(options.body);
+
+  const baseHeaders = {
+    ...options.headers,
+    'Tus-Resumable': TUS_VERSION,
+  };
+
+  const metadata: Record<string, string> = {
+    bucketName: options.bucket,
+    objectName: options.objectName,
+    contentType: options.contentType,
+  };
+  if (options.cacheControl) {
+    metadata.cacheControl = options.cacheControl;
+  }
+  if (options.metadata) {
+    metadata.metadata = JSON.stringify(options.metadata);
+  }
+
+  const createHeaders: Record<string, string> = {
+    ...baseHeaders,
+    'Upload-Metadata': encodeTusMetadata(metadata),
+    'x-upsert': options.upsert ? 'true' : 'false',
+  };
+  if (isBuffer) {
+    createHeaders['Upload-Length'] = String((options.body as Buffer).length);
+  } else {
+    createHeaders['Upload-Defer-Length'] = '1';
+  }
+
+  const created = await fetch(options.endpoint, { method: 'POST', headers: createHeaders });
+  const location = created.headers.get('location');
+  if (created.status !== 201 || !location) {
+    throw new TusError(`TUS upload creation failed: ${await describeFailure(created)}`, created.status);
+  }
+  const uploadUrl = new URL(location, options.endpoint).toString();
+
+  const getServerOffset = async (): Promise<number> => {
+    const response = await fetch(uploadUrl, { method: 'HEAD', headers: baseHeaders });
+    const offset = Number(response.headers.get('upload-offset'));
+    if (!response.ok || Number.isNaN(offset)) {
+      throw new TusError(`TUS offset lookup failed: ${response.status}`, response.status);
+    }
+    return offset;
+  };
+
+  /** Sends `chunk` (which starts at `chunkStart`) until the server has all of it */
+  const sendChunk = async (chunk: Buffer, chunkStart: number, totalLength?: number): Promise<number> => {
+    let offset = chunkStart;
+
+    for (let attempt = 0; ; attempt++) {
+      const headers: Record<string, string> = {
+        ...baseHeaders,
+        'Content-Type': 'application/offset+octet-stream',
+        'Upload-Offset': String(offset),
+      };
+      if (!isBuffer && totalLength !== undefined) {
+        headers['Upload-Length'] = String(totalLength);
+      }
+
+      let response: Response | undefined;
+      let failure = '';
+      try {
+        response = await fetch(uploadUrl, {
+          method: 'PATCH',
+          headers,
+          body: chunk.subarray(offset - chunkStart),
+        });
+      } catch (error) {
+        failure = error instanceof Error ? error.message : String(error);
+      }
+
+      if (response) {
+        if (response.status === 204) {
+          return Number(response.headers.get('upload-offset') ?? chunkStart + chunk.length);
+        }
+        failure = await describeFailure(response);
+        // Client errors other than offset conflicts will not succeed on retry
+        if (response.status >= 400 && response.status < 500 && response.status !== 409 && response.status !== 423) {
+          throw new TusError(`TUS chunk upload rejected: ${failure}`, response.status);
+        }
+      }
+
+      if (attempt >= retryDelays.length) {
+        throw new TusError(`TUS chunk upload failed at offset ${offset}: ${failure}`, response?.status);
+      }
+      await sleep(retryDelays[attempt]);
+
+      const serverOffset = await getServerOffset();
+      if (serverOffset < chunkStart || serverOffset > chunkStart + chunk.length) {
+        throw new TusError(`TUS upload cannot resume: server offset ${serverOffset} is outside the current chunk`);
+      }
+      if (serverOffset === chunkStart + chunk.length && (isBuffer || totalLength === undefined)) {
+        return serverOffset;
+      }
+      offset = serverOffset;
+    }
+  };
+
+  const chunks = readChunks(options.body, chunkSize);
+  let offset = 0;
+  let current = await chunks.next();
+
+  if (current.done) {
+    // Empty file: a zero-length PATCH finalizes the deferred length
+    if (!isBuffer) {
+      await sendChunk(Buffer.alloc(0), 0, 0);
+    }
+    return;
+  }
+
+  while (!current.done) {
+    const next = await chunks.next();
+    const chunk = current.value;
+    const totalLength = next.done ? offset + chunk.length : undefined;
+    offset = await sendChunk(chunk, offset, totalLength);
+    current = next;
+  }
+}
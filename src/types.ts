@@ -8,6 +8,282 @@ export interface ProviderConfig {
   directory?: string;         // default ''
   publicFiles?: boolean;      // default true
   signedUrlExpires?: number;  // default 3600
+  signedUrlErrors?: 'fallback' | 'throw';  // default 'fallback' ("#file-not-found-{path}" URL)
+  resumable?: ResumableUploadConfig;  // TUS uploads for large files, off when omitted
+  retry?: RetryConfig | false;        // retries transient failures, false disables
+  keyStrategy?: KeyStrategy;          // default 'hash'
+  imageTransformations?: boolean | Record<string, ImageTransform>; // format variants rendered on the fly, off by default
+  routes?: BucketRoute[];             // per-file bucket/directory/visibility, first match wins
+  signedUrlCache?: boolean | SignedUrlCacheConfig; // reuse signed URLs until close to expiry, off by default
+  signedUrlBatch?: SignedUrlBatchConfig;           // batching for getSignedUrls / getSignedUrl
+  logger?: Logger;                    // default strapi.log, console when Strapi is not loaded
+  validation?: boolean | ValidationConfig;  // content checks before upload, off by default
+  sizeLimits?: SizeLimit[];           // per mime/extension caps, first match applies
+  scan?: ScanConfig;                  // virus scanning before objects become visible, off by default
+  checksum?: boolean | ChecksumConfig; // SHA-256 of uploaded content, off by default
+  dedup?: boolean | DedupConfig;       // one object per distinct content, off by default; implies checksum
+  onConflict?: ConflictPolicy;         // default 'overwrite'
+  cacheControl?: CacheControlConfig;   // default 3600 seconds for every file
+  objectMetadata?: boolean | ObjectMetadataConfig;  // Strapi fields stored as object metadata, off by default
+  cdn?: CdnConfig;                     // serve URLs from a custom domain, off when omitted
+  urlSigner?: UrlSignerConfig;         // sign private URLs locally for a CDN instead of calling Supabase
+  imageOptimization?: boolean | ImageOptimizationRule[];  // re-encode images before upload (requires sharp), off by default
+  softDelete?: boolean | SoftDeleteConfig;  // delete moves objects to a trash prefix, off by default
+  versioning?: boolean | VersioningConfig;  // keep overwritten objects as versions, off by default
+}
+
+// Re-encoding of images matching mime and/or ext (neither set: all images); first match wins.
+// `true` converts JPEG, PNG and TIFF to WebP (quality 80, at most 2560px) and skips GIF, SVG, WebP and AVIF.
+export interface ImageOptimizationRule {
+  mime?: string | string[];
+  ext?: string | string[];
+  skip?: boolean;                // leave matching images untouched
+  format?: 'webp' | 'avif' | 'jpeg' | 'png' | 'original';  // default 'webp'
+  quality?: number;              // 1-100, default 80
+  maxWidth?: number;             // px, never enlarged
+  maxHeight?: number;            // px, never enlarged
+  stripMetadata?: boolean;       // default true: drop EXIF (including GPS), XMP and IPTC
+  autoRotate?: boolean;          // default true: apply the EXIF orientation
+}
+
+// Token formats of locally signed URLs; `path` is the URL path, `expires` a Unix timestamp
+//  'query'      - ?expires={expires}&signature={hex HMAC-SHA256 of "{path}:{expires}"}
+//  'cloudflare' - ?verify={expires}-{base64 HMAC-SHA256 of "{path}{expires}"} (WAF is_timed_hmac_valid_v0)
+//  'bunny'      - ?token={base64url SHA-256 of "{secret}{path}{expires}"}&expires={expires} (BunnyCDN token auth)
+export type UrlSigningScheme = 'query' | 'cloudflare' | 'bunny';
+
+// URLs expire after `signedUrlExpires`; transformed formats are still signed by Supabase
+export interface UrlSignerConfig {
+  scheme: UrlSigningScheme;
+  url: string;     // CDN base URL ("{url}/{bucket}/{key}") or a template with {bucket} and {key}
+  secret: string;  // HMAC secret, or the BunnyCDN token authentication key
+}
+
+/**
+ * Custom domain or CDN in front of Supabase Storage. `url` is one of:
+ * - a base URL replacing "{apiUrl}/storage/v1": 'https://cdn.example.com'
+ * - a template with {bucket} and {key}: 'https://media.example.com/{key}'
+ * - a function returning the URL to store or return
+ */
+export interface CdnConfig {
+  url: string | ((context: CdnUrlContext) => string);
+  signedUrls?: boolean;  // default false: also rewrite signed URLs (the CDN must forward the token)
+  parse?: (url: string) => StorageLocation | undefined;  // reverse mapping for function URLs
+}
+
+export interface CdnUrlContext {
+  url: string;        // URL as Supabase returned it
+  bucket: string;
+  key: string;
+  signed: boolean;    // signed URL, carrying its token in the query string
+  rendered: boolean;  // /render/image/ URL of a transformed format
+}
+
+// Strapi file fields copied into object metadata, stored under the key in parentheses
+//  'name' (originalName), 'hash', 'id' (fileId), 'documentId', 'alternativeText', 'caption', 'uploader' (uploadedBy)
+export type ObjectMetadataField = 'name' | 'hash' | 'id' | 'documentId' | 'alternativeText' | 'caption' | 'uploader';
+
+export type ObjectMetadata = Record<string, unknown>;
+
+export interface ObjectMetadataConfig {
+  fields?: ObjectMetadataField[];  // default all
+  map?: (file: StrapiFile) => ObjectMetadata | undefined;  // extra entries, merged over the fields
+}
+
+// What happens when an upload's key is already taken
+//  'overwrite' - replace the object (upsert)
+//  'fail'      - throw ConflictError
+//  'rename'    - upload to the first free "{name}-{n}{ext}" key
+export type ConflictPolicy = 'overwrite' | 'fail' | 'rename';
+
+// Seconds for "max-age={n}", or a full Cache-Control header value
+export type CacheControlValue = number | string;
+
+// Cache-Control for files matching mime and/or ext (neither set: all files)
+export interface CacheControlRule {
+  mime?: string | string[];
+  ext?: string | string[];
+  value: CacheControlValue;
+}
+
+// Rule table (first match wins) or a function; unmatched files get the default
+export type CacheControlConfig = CacheControlValue | CacheControlRule[] | ((file: StrapiFile) => CacheControlValue | undefined);
+
+export interface ChecksumConfig {
+  verify?: boolean;  // default true: compare with the size, ETag and metadata storage reports
+}
+
+// Content-addressed storage with reference counting
+export interface DedupConfig {
+  refsPrefix?: string;  // default '.refs': where reference markers and staged streams are kept
+}
+
+// Deleted objects are moved to "{prefix}/{key}" and can be restored until purgeTrash removes them
+export interface SoftDeleteConfig {
+  prefix?: string;     // default '.trash'
+  retention?: number;  // seconds, default 2592000 (30 days): age at which purgeTrash removes trashed objects
+}
+
+// Objects about to be overwritten (onConflict 'overwrite') are first copied to "{key}.versions/{id}"
+export interface VersioningConfig {
+  maxVersions?: number;  // versions kept per key, older ones are removed after each overwrite; default unlimited
+  keepDeleted?: boolean; // keep deleted objects as versions too, so Strapi's delete-then-upload replace keeps history; default false
+}
+
+// Virus scanning; set `scanner` or `clamav`
+export interface ScanConfig {
+  scanner?: Scanner;
+  clamav?: ClamAvOptions;
+  quarantine?: string;  // key prefix to upload to while scanning; without it content is scanned first (streams buffered)
+}
+
+export interface ScanResult {
+  clean: boolean;
+  threat?: string;      // signature name when infected
+}
+
+// Receives the file and its content; must read `content` to the end or reject
+export type Scanner = (file: StrapiFile, content: Readable) => Promise<ScanResult>;
+
+// clamd connection for the built-in INSTREAM scanner
+export interface ClamAvOptions {
+  host?: string;        // default '127.0.0.1'
+  port?: number;        // default 3310
+  socketPath?: string;  // Unix socket, used instead of host/port
+  timeout?: number;     // ms without activity, default 60000
+  chunkSize?: number;   // bytes per INSTREAM chunk, default 64 KB
+}
+
+// Size cap for files matching mime and/or ext (both set: both must match)
+export interface SizeLimit {
+  mime?: string | string[];   // e.g. 'image/*'
+  ext?: string | string[];    // e.g. '.pdf'
+  maxSize: number;            // bytes
+}
+
+// Upload-time content validation; mime patterns accept wildcards like 'image/*'
+export interface ValidationConfig {
+  sniff?: boolean;               // default true: reject content that does not match its mime type or extension
+  allowedMimeTypes?: string[];   // checked against the declared and the detected type
+  deniedMimeTypes?: string[];
+  allowedExtensions?: string[];  // with or without the leading dot
+  deniedExtensions?: string[];
+  svg?: 'allow' | 'sanitize' | 'reject';  // default 'sanitize': strip scripts and event handlers
+}
+
+// Structured fields attached to every provider log entry
+export interface LogFields {
+  operation?: string;  // upload, delete, sign, signBatch
+  bucket?: string;
+  path?: string;
+  duration?: number;   // milliseconds
+  bytes?: number;
+  attempt?: number;
+  code?: string;       // provider error code, e.g. NOT_FOUND
+  error?: string;
+  [field: string]: unknown;
+}
+
+// Anything with leveled (message, fields) methods: strapi.log (winston), pino, console wrappers
+export interface Logger {
+  error(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  debug(message: string, fields?: LogFields): void;
+}
+
+export interface SignedUrlBatchConfig {
+  maxBatchSize?: number;    // paths per createSignedUrls request, default 100
+  coalesceWindow?: number;  // ms; when set, concurrent getSignedUrl calls within it share one request
+}
+
+/** Per-file outcome of getSignedUrls, in the same order as the input */
+export type SignedUrlResult =
+  | { url: string; error: null }
+  | { url: null; error: Error };
+
+// Signed URL cache options. `true` uses an in-memory LRU with the defaults.
+export interface SignedUrlCacheConfig {
+  maxSize?: number;         // entries kept by the in-memory store, default 1000
+  safetyMargin?: number;    // seconds before expiry when a URL is re-signed, default 60
+  store?: SignedUrlStore;   // shared store (e.g. Redis) instead of the in-memory LRU
+}
+
+export interface SignedUrlCacheEntry {
+  url: string;
+  expiresAt: number;  // ms since epoch
+}
+
+/** Pluggable cache backend, so several Strapi instances can share signed URLs */
+export interface SignedUrlStore {
+  get(key: string): SignedUrlCacheEntry | undefined | Promise<SignedUrlCacheEntry | undefined>;
+  set(key: string, entry: SignedUrlCacheEntry, ttlSeconds: number): void | Promise<void>;
+}
+
+/**
+ * Routes matching files to another bucket, directory or visibility.
+ * All criteria set on a route must match; unset targets inherit the top-level options.
+ */
+export interface BucketRoute {
+  mime?: string | string[];   // e.g. 'image/*', 'application/pdf'
+  ext?: string | string[];    // e.g. '.pdf' (case-insensitive)
+  minSize?: number;           // bytes, inclusive
+  maxSize?: number;           // bytes, inclusive
+  match?: (file: StrapiFile) => boolean;
+  bucket?: string;
+  directory?: string;
+  publicFiles?: boolean;
+  sizeLimit?: number;         // bytes, cap for files routed here
+}
+
+// Per-call options of getSignedUrl; public files return their URL unchanged
+export interface SignedUrlOptions {
+  expiresIn?: number;           // seconds, default signedUrlExpires
+  download?: boolean | string;  // serve as an attachment; true names it after the file, a string renames it
+  transform?: ImageTransform;   // default: the format's own transform, if any
+}
+
+// Supabase image rendering options (/render/image/) applied to a Strapi format
+export interface ImageTransform {
+  width?: number;
+  height?: number;
+  resize?: 'cover' | 'contain' | 'fill';  // default 'cover'
+  quality?: number;                       // 20-100, default 80
+  format?: 'origin';                      // keep the original format instead of WebP
+}
+
+/**
+ * How object keys are built inside `directory`:
+ * - 'hash':         {hash}{ext}
+ * - 'date':         yyyy/mm/dd/{hash}{ext} (upload date, UTC)
+ * - 'hash-sharded': ab/cd/{hash}{ext}
+ * - 'filename':     {slugified-name}-{random}{ext}
+ * - 'mime-folder':  images|videos|audio|documents|files/{hash}{ext}
+ * - function:       custom key relative to `directory`
+ */
+export type KeyStrategy =
+  | 'hash'
+  | 'date'
+  | 'hash-sharded'
+  | 'filename'
+  | 'mime-folder'
+  | ((file: StrapiFile) => string);
+
+// Retry policy shared by upload, delete and signed URL calls
+export interface RetryConfig {
+  maxAttempts?: number;         // default 3 (including the first attempt)
+  baseDelay?: number;           // ms, default 200, doubled on each attempt
+  maxDelay?: number;            // ms, default 5000
+  jitter?: boolean;             // default true (random delay between 0 and the backoff)
+  retryOnStatus?: number[];     // default [408, 429, 500, 502, 503, 504]
+  retryOnErrorCodes?: string[]; // default ECONNRESET, ECONNREFUSED, ETIMEDOUT, EPIPE, EAI_AGAIN, ENOTFOUND, UND_ERR_SOCKET
+}
+
+// Resumable (TUS) upload options. Files at or above `threshold` bytes use the TUS endpoint.
+export interface ResumableUploadConfig {
+  threshold?: number;       // default 6MB
+  chunkSize?: number;       // default 6MB (Supabase expects 6MB chunks)
+  retryDelays?: number[];   // ms before each chunk retry, default [0, 1000, 3000, 5000]
 }
 
 export interface StrapiFile {
@@ -20,6 +296,122 @@ export interface StrapiFile {
   path?: string;
   buffer?: Buffer;
   stream?: Readable;
+  provider_metadata?: ProviderMetadata | null;
+  // Set on Strapi file records; absent on some upload paths
+  id?: number | string;
+  documentId?: string;
+  alternativeText?: string | null;
+  caption?: string | null;
+  createdBy?: number | string | { id?: number | string } | null;
+  width?: number | null;
+  height?: number | null;
+  formats?: Record<string, StrapiFile> | null;
+  provider?: string;  // upload provider the record belongs to; Strapi only deletes through a matching one
+}
+
+// Saved by Strapi with the file record; written by this provider at upload time
+export interface ProviderMetadata {
+  bucket?: string;
+  key?: string;
+  transform?: ImageTransform;  // set on format variants rendered from `key`
+  sha256?: string;             // set when checksums are enabled
+  dedup?: boolean;             // `key` is shared content, released through reference markers
+  pendingKey?: string;         // quarantine key of a direct upload until finalizeUpload publishes it
+  publicFiles?: boolean;       // mode of a direct upload's route until finalizeUpload sets `url`
+  [field: string]: unknown;
+}
+
+// Returned by createUploadUrl: the client uploads to `url` (PUT), or with `token` through uploadToSignedUrl(path, token)
+export interface SignedUploadUrl {
+  url: string;
+  token: string;
+  bucket: string;
+  path: string;  // key the client uploads to; the quarantine key when scan.quarantine is set
+}
+
+// provider.reconcile options; nothing is deleted unless `dryRun` is false
+export interface ReconcileOptions {
+  files: Iterable<StrapiFile | string>;  // Strapi file records (with their formats) or object keys
+  bucket?: string;       // default `bucket`
+  prefix?: string;       // default `directory`; '' walks the whole bucket
+  dryRun?: boolean;      // default true: report orphans without deleting them
+  gracePeriod?: number;  // seconds, default 86400: younger orphans are never deleted
+  pageSize?: number;     // entries per list request, default 1000
+}
+
+export interface OrphanObject {
+  key: string;
+  size?: number;          // bytes
+  lastModified?: string;  // ISO timestamp
+  expired: boolean;       // older than the grace period, deleted when not a dry run
+}
+
+export interface ReconcileReport {
+  bucket: string;
+  prefix: string;
+  dryRun: boolean;
+  scanned: number;         // objects listed under `prefix`
+  orphans: OrphanObject[]; // objects no file points to
+  missing: string[];       // keys under `prefix` that files point to, without an object
+  deleted: string[];       // orphans removed
+  failed: string[];        // orphans whose removal failed
+}
+
+export interface FileVersion {
+  id: string;          // when the object was overwritten, "2025-06-01T12-00-00-000Z"; sorts chronologically
+  key: string;         // object key of the version
+  size?: number;       // bytes
+  createdAt?: string;  // ISO timestamp
+}
+
+export interface PurgeTrashOptions {
+  bucket?: string;     // default `bucket`
+  retention?: number;  // seconds, default softDelete.retention
+}
+
+export interface PurgeTrashReport {
+  bucket: string;
+  scanned: number;   // objects in the trash
+  purged: string[];  // trash keys removed
+  failed: string[];  // trash keys whose removal failed
+}
+
+// Where provider.migrate reads existing files; `read` wins, then `root` for relative urls, then HTTP
+export interface MigrationSource {
+  root?: string;     // local provider: Strapi's public folder, files are read from "{root}{url}"
+  baseUrl?: string;  // prefix of relative urls fetched over HTTP; absolute urls (S3, CDN) are fetched as is
+  headers?: Record<string, string>;  // sent with HTTP requests
+  read?: (file: StrapiFile) => Promise<Buffer | Readable>;  // custom reader, e.g. an S3 client for private buckets
+}
+
+// provider.migrate options; records are updated in place and skipped on later runs once in the checkpoint
+export interface MigrationOptions {
+  files: Iterable<StrapiFile> | AsyncIterable<StrapiFile>;  // Strapi file records, with their formats
+  source: MigrationSource;
+  concurrency?: number;  // records copied at a time, default 4
+  checkpoint?: string;   // file listing migrated record ids (id, else hash), created when missing
+  provider?: string;     // default 'strapi-provider-upload-supabase-bucket': set as the records' provider
+  onMigrated?: (file: StrapiFile) => Promise<void> | void;  // save the record; it is checkpointed once this resolves
+}
+
+export interface MigrationFailure {
+  id?: number | string;
+  name: string;
+  url: string;      // url before the migration
+  error: string;
+  code?: string;    // provider error code, e.g. NOT_FOUND
+}
+
+export interface MigrationReport {
+  migrated: number;
+  skipped: number;  // already in the checkpoint
+  failed: MigrationFailure[];
+}
+
+// Exact location of an object in Supabase Storage
+export interface StorageLocation {
+  bucket: string;
+  key: string;
 }
 
 export interface UploadProvider {
@@ -28,9 +420,42 @@ export interface UploadProvider {
   delete(file: StrapiFile): Promise<void>;
   checkFileSize(file: StrapiFile, options: { sizeLimit: number }): Promise<void>;
 
-  /** Returns true if the bucket is private */
+  /** Returns true when any configured bucket or route is private, so Strapi asks for signed URLs */
   isPrivate(): boolean; 
 
  /** Returns public URL or generates signed URL for private buckets */
-  getSignedUrl(file: StrapiFile): Promise<{ url: string }>;
+  getSignedUrl(file: StrapiFile, options?: SignedUrlOptions): Promise<{ url: string }>;
+
+  /** Signs many files with batched requests; results keep the input order */
+  getSignedUrls(files: StrapiFile[]): Promise<SignedUrlResult[]>;
+
+  /** Rewrites the object metadata of a stored file and its formats, without re-uploading */
+  updateMetadata(file: StrapiFile, metadata?: ObjectMetadata): Promise<void>;
+
+  /** Issues a signed URL to upload the file directly to storage; records its location on the file */
+  createUploadUrl(file: StrapiFile): Promise<SignedUploadUrl>;
+
+  /** Checks a directly uploaded object and fills in the file's url and metadata like upload does */
+  finalizeUpload(file: StrapiFile): Promise<void>;
+
+  /** Finds objects without a file record and records without an object; optionally deletes old orphans */
+  reconcile(options: ReconcileOptions): Promise<ReconcileReport>;
+
+  /** Copies files of another upload provider and their formats, rewriting the records to point here */
+  migrate(options: MigrationOptions): Promise<MigrationReport>;
+
+  /** Moves a soft-deleted file and its formats back from the trash */
+  restore(file: StrapiFile): Promise<void>;
+
+  /** Permanently removes trashed objects older than the retention period */
+  purgeTrash(options?: PurgeTrashOptions): Promise<PurgeTrashReport>;
+
+  /** Previous versions of a file's object, newest first */
+  listVersions(file: StrapiFile): Promise<FileVersion[]>;
+
+  /** Puts a version of a file back in place, with the versions of its formats from the same upload */
+  restoreVersion(file: StrapiFile, version: string): Promise<void>;
+
+  /** Removes all but the `keep` newest versions of a file and its formats; resolves with the removed ones */
+  pruneVersions(file: StrapiFile, keep: number): Promise<FileVersion[]>;
 }
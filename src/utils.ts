@@ -1,4 +1,5 @@
-import { StrapiFile } from './types';
+import { Readable } from 'stream';
+import { StrapiFile, KeyStrategy, StorageLocation } from './types';
 
 /** Returns "Bearer {apiKey}" */
 export function getBearerToken(apiKey: string): string {
@@ -10,13 +11,76 @@ export function getStorageEndpoint(apiUrl: string): string {
   return `${apiUrl}/storage/v1`;
 }
 
+/** Lowercases and replaces anything outside [a-z0-9] with single dashes */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** 32-bit FNV-1a hash as 8 hex chars. Stable across runtimes, no crypto dependency. */
+export function shortHash(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+const MIME_FOLDERS: [RegExp, string][] = [
+  [/^image\//, 'images'],
+  [/^video\//, 'videos'],
+  [/^audio\//, 'audio'],
+  [/^(text\/|application\/(pdf|msword|rtf|vnd\.(openxmlformats|ms-|oasis)))/, 'documents'],
+];
+
+/** Builds the object name (without directory) for the given strategy */
+export function getObjectName(file: StrapiFile, strategy: KeyStrategy = 'hash'): string {
+  const fileName = `${file.hash}${file.ext}`;
+
+  if (typeof strategy === 'function') {
+    return strategy(file).replace(/^\/+/, '');
+  }
+
+  switch (strategy) {
+    case 'date': {
+      const now = new Date();
+      const yyyy = now.getUTCFullYear();
+      const mm = String(now.getUTCMonth() + 1).padStart(2, '0');
+      const dd = String(now.getUTCDate()).padStart(2, '0');
+      return `${yyyy}/${mm}/${dd}/${fileName}`;
+    }
+    case 'hash-sharded': {
+      const digest = shortHash(file.hash);
+      return `${digest.slice(0, 2)}/${digest.slice(2, 4)}/${fileName}`;
+    }
+    case 'filename': {
+      // Strapi hashes look like "{name}_{random}"; keep the random part so names stay unique
+      const baseName = file.ext && file.name.endsWith(file.ext) ? file.name.slice(0, -file.ext.length) : file.name;
+      const suffix = file.hash.includes('_') ? file.hash.slice(file.hash.lastIndexOf('_') + 1) : file.hash;
+      const slug = slugify(baseName);
+      return slug ? `${slug}-${suffix}${file.ext}` : fileName;
+    }
+    case 'mime-folder': {
+      const folder = MIME_FOLDERS.find(([pattern]) => pattern.test(file.mime))?.[1] ?? 'files';
+      return `${folder}/${fileName}`;
+    }
+    default:
+      return fileName;
+  }
+}
+
 /**
- * Generates file path using the file's hash and extension.
+ * Generates file path using the configured key strategy (default: hash and extension).
  * Uses forward slashes (/) for cross-platform compatibility.
  * Works in both Node.js and browser environments.
  */
-export function getPathKey(file: StrapiFile, directory: string = ''): string {
-  const fileName = `${file.hash}${file.ext}`;
+export function getPathKey(file: StrapiFile, directory: string = '', strategy: KeyStrategy = 'hash'): string {
+  const fileName = getObjectName(file, strategy);
   
   if (!directory) {
     return fileName;
@@ -27,6 +91,90 @@ export function getPathKey(file: StrapiFile, directory: string = ''): string {
   return cleanDir ? `${cleanDir}/${fileName}` : fileName;
 }
 
+/** Adds "-{n}" before the extension of the key's last segment: "a/photo.jpg" → "a/photo-2.jpg" */
+export function getSuffixedKey(key: string, n: number): string {
+  const slash = key.lastIndexOf('/');
+  const dot = key.lastIndexOf('.');
+  return dot > slash + 1 ? `${key.slice(0, dot)}-${n}${key.slice(dot)}` : `${key}-${n}`;
+}
+
+/** Extracts bucket and key from a Supabase public object URL ("/object/public/{bucket}/{key}") */
+export function parsePublicUrl(url: string): StorageLocation | undefined {
+  const match = /\/object\/public\/([^/?#]+)\/([^?#]+)/.exec(url);
+  if (!match) {
+    return undefined;
+  }
+  return { bucket: decodeURI(match[1]), key: decodeURI(match[2]) };
+}
+
+/**
+ * Recovers where the object was written at upload time.
+ * Order: provider_metadata (recorded by this provider), then legacy records:
+ * the key inside a public URL (or a CDN URL, through `parseUrl`), or the path stored in
+ * file.url for private files. Returns undefined when nothing was stored (the key must be recomputed).
+ */
+export function getStoredLocation(
+  file: StrapiFile,
+  defaultBucket: string,
+  parseUrl?: (url: string) => StorageLocation | undefined
+): StorageLocation | undefined {
+  const metadata = file.provider_metadata;
+  if (typeof metadata?.key === 'string' && metadata.key) {
+    return {
+      bucket: typeof metadata.bucket === 'string' && metadata.bucket ? metadata.bucket : defaultBucket,
+      key: metadata.key,
+    };
+  }
+
+  if (!file.url) {
+    return undefined;
+  }
+  if (!/^https?:\/\//.test(file.url)) {
+    return { bucket: defaultBucket, key: file.url };
+  }
+  return parseUrl?.(file.url) ?? parsePublicUrl(file.url);
+}
+
+/**
+ * Matches a mime type against a pattern: exact ("application/pdf"),
+ * type wildcard ("image/*") or "*". Case-insensitive.
+ */
+export function matchesMimePattern(mime: string | undefined, pattern: string): boolean {
+  const value = (mime ?? '').toLowerCase();
+  const expected = pattern.toLowerCase();
+  if (expected === '*' || expected === '*/*') {
+    return true;
+  }
+  if (expected.endsWith('/*')) {
+    return value.startsWith(expected.slice(0, -1));
+  }
+  return value === expected;
+}
+
+/** Compares extensions case-insensitively, with or without the leading dot */
+export function matchesExtension(ext: string | undefined, expected: string): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace(/^\./, '');
+  return normalize(ext ?? '') === normalize(expected);
+}
+
+/** Reads a stream to the end into one buffer */
+export async function readStream(stream: Readable): Promise<Buffer> {
+  const pieces: Buffer[] = [];
+  for await (const piece of stream) {
+    pieces.push(Buffer.isBuffer(piece) ? piece : Buffer.from(piece));
+  }
+  return Buffer.concat(pieces);
+}
+
+/** Splits items into consecutive groups of at most `size` */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const groups: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    groups.push(items.slice(i, i + size));
+  }
+  return groups;
+}
+
 /**
  * Converts KB to Bytes.
  * Uses decimal (1000) instead of binary (1024) to match Strapi's convention.
@@ -35,6 +183,24 @@ export function kbytesToBytes(sizeInKb: number): number {
   return sizeInKb * 1000;
 }
 
+/**
+ * Converts Bytes to KB with two decimals, as Strapi stores `file.size`.
+ */
+export function bytesToKbytes(bytes: number): number {
+  return Math.round(bytes / 10) / 100;
+}
+
+/**
+ * Returns the file size in bytes.
+ * Prefers the exact buffer length; streams fall back to Strapi's KB size.
+ */
+export function getFileByteSize(file: StrapiFile): number {
+  if (file.buffer) {
+    return file.buffer.length;
+  }
+  return kbytesToBytes(file.size);
+}
+
 /**
  * Formats bytes to human-readable string (e.g., "1.50 MB").
  * Uses decimal (1000) base calculation.
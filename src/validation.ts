@@ -0,0 +1,203 @@
+import { StrapiFile, ValidationConfig } from './types.js';
+import { matchesMimePattern, matchesExtension, readStream, bytesToKbytes } from './utils.js';
+import { FileValidationError } from './errors.js';
+import { SizeRule, createSizeLimitError, limitStream } from './limits.js';
+import { SIGNATURES, SNIFF_BYTES, Signature, acceptsMime, peekStream, sniffSignature } from './sniff.js';
+
+export type ResolvedValidation = ValidationConfig & Required<Pick<ValidationConfig, 'sniff' | 'svg'>>;
+
+// Declared types that promise nothing about the content
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream', 'binary/octet-stream'];
+
+const SVG_MIME = 'image/svg+xml';
+
+/** `true` enables the defaults; `false` or omitted disables validation */
+export function resolveValidation(config?: boolean | ValidationConfig): ResolvedValidation | undefined {
+  if (!config) {
+    return undefined;
+  }
+  const options = config === true ? {} : config;
+  return { ...options, sniff: options.sniff ?? true, svg: options.svg ?? 'sanitize' };
+}
+
+const normalizeExtension = (ext: string | undefined) => (ext ?? '').toLowerCase().replace(/^\./, '');
+
+/** Rejects blocked extensions before any byte is read */
+const checkExtension = (file: StrapiFile, options: ValidationConfig): void => {
+  if (options.deniedExtensions?.some((ext) => matchesExtension(file.ext, ext))) {
+    throw new FileValidationError(`${file.name} was rejected: extension ${file.ext} is not allowed`, { reason: 'extension' });
+  }
+  if (options.allowedExtensions && !options.allowedExtensions.some((ext) => matchesExtension(file.ext, ext))) {
+    throw new FileValidationError(`${file.name} was rejected: extension ${file.ext} is not allowed`, { reason: 'extension' });
+  }
+};
+
+/** Applies the mime lists to both the declared and the detected type */
+const checkMimeTypes = (file: StrapiFile, options: ValidationConfig, detected?: string): void => {
+  const types = [file.mime, detected].filter((mime): mime is string => !!mime);
+
+  const denied = types.find((mime) => options.deniedMimeTypes?.some((pattern) => matchesMimePattern(mime, pattern)));
+  const notAllowed = options.allowedMimeTypes
+    ? types.find((mime) => !options.allowedMimeTypes!.some((pattern) => matchesMimePattern(mime, pattern)))
+    : undefined;
+
+  const rejected = denied ?? notAllowed;
+  if (rejected) {
+    throw new FileValidationError(`${file.name} was rejected: ${rejected} files are not allowed`, { reason: 'mime-type' });
+  }
+};
+
+/**
+ * Compares the sniffed signature with what the file claims to be. Rejects content that
+ * is incompatible with the declared mime type or extension, and files whose declared
+ * type or extension has a signature the content does not carry.
+ */
+const checkContent = (file: StrapiFile, signature?: Signature): void => {
+  const declared = (file.mime ?? '').toLowerCase();
+  const ext = normalizeExtension(file.ext);
+  const reject = (detail: string) => {
+    throw new FileValidationError(`${file.name} was rejected: ${detail}`, { reason: 'content-mismatch' });
+  };
+
+  if (signature && !GENERIC_MIME_TYPES.includes(declared) && !signature.accepts.some((pattern) => acceptsMime(pattern, declared))) {
+    reject(`content is ${signature.mime} but was uploaded as ${declared}`);
+  }
+  if (signature && ext && !signature.extensions.includes(ext) && SIGNATURES.some((known) => known.extensions.includes(ext))) {
+    reject(`content is ${signature.mime} but has extension .${ext}`);
+  }
+
+  const expected = SIGNATURES.filter(
+    (known) =>
+      known.strict !== false &&
+      (known.accepts.some((pattern) => acceptsMime(pattern, declared)) || (ext && known.extensions.includes(ext)))
+  );
+  if (expected.length && (!signature || !expected.includes(signature))) {
+    reject(`content does not match ${GENERIC_MIME_TYPES.includes(declared) ? `.${ext}` : declared}`);
+  }
+};
+
+const ALLOWED_URL = /^(#|https?:|data:image\/(png|jpe?g|gif|webp);)/;
+const SCRIPTABLE_URL = /(javascript|vbscript|data:text\/html)/;
+
+/** Decodes numeric entities and drops whitespace so "java&#x09;script:" is seen as "javascript:" */
+const normalizeAttributeValue = (value: string): string =>
+  value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&colon;/gi, ':')
+    .replace(/[\s\u0000-\u001f]/g, '')
+    .toLowerCase();
+
+/** Keeps an attribute unless it is an event handler or points at something scriptable */
+const isSafeAttribute = (name: string, rawValue: string | undefined): boolean => {
+  const attribute = name.toLowerCase();
+  if (attribute.startsWith('on')) {
+    return false;
+  }
+  if (rawValue === undefined) {
+    return true;
+  }
+  const value = normalizeAttributeValue(rawValue.replace(/^["']|["']$/g, ''));
+  if (SCRIPTABLE_URL.test(value)) {
+    return false;
+  }
+  if (attribute === 'href' || attribute === 'xlink:href' || attribute === 'src') {
+    return ALLOWED_URL.test(value);
+  }
+  return true;
+};
+
+const TAG = /<([a-zA-Z][\w:.-]*)((?:\s+(?:"[^"]*"|'[^']*'|[^'">])*?)?)(\/?)>/g;
+const ATTRIBUTE = /([^\s=/>]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/g;
+const DANGEROUS_ELEMENTS = 'script|foreignObject|iframe|embed|object|handler|listener';
+
+// Also matches namespaced names such as "svg:script", which run like their unprefixed form
+const DANGEROUS_ELEMENT = `(?:[\\w.-]+:)?(?:${DANGEROUS_ELEMENTS})`;
+
+const removeActiveContent = (svg: string): string =>
+  svg
+    .replace(/<!DOCTYPE(?:[^[>]|\[[\s\S]*?\])*>/gi, '')
+    .replace(/<\?xml-stylesheet[\s\S]*?\?>/gi, '')
+    .replace(new RegExp(`<(${DANGEROUS_ELEMENT})\\b[\\s\\S]*?<\\/\\1\\s*>`, 'gi'), '')
+    .replace(new RegExp(`<\\/?${DANGEROUS_ELEMENT}\\b(?:"[^"]*"|'[^']*'|[^'">])*>`, 'gi'), '')
+    .replace(TAG, (_, name: string, attributes: string, selfClosing: string) => {
+      const kept = [...attributes.matchAll(ATTRIBUTE)]
+        .filter(([, attribute, value]) => isSafeAttribute(attribute, value))
+        .map(([attribute]) => attribute);
+      return `<${name}${kept.map((attribute) => ` ${attribute}`).join('')}${selfClosing}>`;
+    });
+
+/**
+ * Removes active content from an SVG: scripts and embedded HTML, event handler attributes,
+ * javascript:/data:text/html links, external stylesheets and DTD entity declarations.
+ * A removal can join the text around it into a new tag ("<scr<script>ipt>"), so passes are
+ * repeated until nothing changes; no pass makes the SVG longer, so this ends.
+ */
+export function sanitizeSvg(svg: string): string {
+  let sanitized = svg;
+  for (let previous = ''; sanitized !== previous; ) {
+    previous = sanitized;
+    sanitized = removeActiveContent(previous);
+  }
+  return sanitized;
+}
+
+/** Extension and mime type lists applied to what the file declares, for checks made before any content exists */
+export function validateDeclaredType(file: StrapiFile, options: ResolvedValidation): void {
+  checkExtension(file, options);
+  checkMimeTypes(file, options);
+}
+
+/**
+ * Validates a file before upload and returns the sniffed mime type.
+ * Streams are peeked, not consumed: `file.stream` is replaced with one that replays the
+ * peeked bytes. Sanitized SVGs replace the stream with a buffer and update `file.size`; they
+ * are read whole, so `sizeRule` applies to what was received rather than the sanitized output.
+ */
+export async function validateFile(
+  file: StrapiFile,
+  options: ResolvedValidation,
+  sizeRule?: SizeRule
+): Promise<string | undefined> {
+  checkExtension(file, options);
+
+  let head: Buffer = Buffer.alloc(0);
+  if (file.buffer) {
+    head = file.buffer.subarray(0, SNIFF_BYTES);
+  } else if (file.stream) {
+    const peeked = await peekStream(file.stream, SNIFF_BYTES);
+    head = peeked.head;
+    file.stream = peeked.stream;
+  }
+
+  const signature = sniffSignature(head);
+  const isSvg =
+    signature?.mime === SVG_MIME || matchesMimePattern(file.mime, SVG_MIME) || matchesExtension(file.ext, 'svg');
+
+  try {
+    checkMimeTypes(file, options, signature?.mime);
+    if (options.sniff) {
+      checkContent(file, signature);
+    }
+    if (isSvg && options.svg === 'reject') {
+      throw new FileValidationError(`${file.name} was rejected: SVG uploads are not allowed`, { reason: 'svg' });
+    }
+  } catch (error) {
+    // Nothing will be uploaded, release the temp file handle
+    file.stream?.destroy();
+    throw error;
+  }
+
+  if (isSvg && options.svg === 'sanitize') {
+    if (sizeRule && file.buffer && file.buffer.length > sizeRule.maxSize) {
+      throw createSizeLimitError(file, sizeRule, file.buffer.length);
+    }
+    const stream = file.stream && sizeRule ? limitStream(file.stream, file, sizeRule).stream : file.stream;
+    const content = file.buffer ?? (stream ? await readStream(stream) : Buffer.alloc(0));
+    file.buffer = Buffer.from(sanitizeSvg(content.toString('utf8')), 'utf8');
+    file.stream = undefined;
+    file.size = bytesToKbytes(file.buffer.length);
+  }
+
+  return signature?.mime;
+}
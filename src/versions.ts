@@ -0,0 +1,29 @@
+export const VERSIONS_SUFFIX = '.versions';
+
+/** Folder holding the previous versions of `key`: "{key}.versions" */
+export function getVersionFolder(key: string): string {
+  return `${key}${VERSIONS_SUFFIX}`;
+}
+
+/** Version id of a snapshot taken at `time`: a UTC timestamp that sorts chronologically, "2025-06-01T12-00-00-000Z" */
+export function createVersionId(time: Date = new Date()): string {
+  return time.toISOString().replace(/[:.]/g, '-');
+}
+
+/** Key whose version `key` is, or undefined when `key` is not a version */
+export function getVersionedKey(key: string): string | undefined {
+  const index = key.lastIndexOf(`${VERSIONS_SUFFIX}/`);
+  if (index <= 0 || key.includes('/', index + VERSIONS_SUFFIX.length + 1)) {
+    return undefined;
+  }
+  return key.slice(0, index);
+}
+
+/**
+ * A format's version from the same upload as the original's version `from`. Strapi uploads the
+ * original before its formats, so their snapshots are taken after the original's and before
+ * the original's next one (`until`).
+ */
+export function findMatchingVersion(ids: string[], from: string, until?: string): string | undefined {
+  return ids.filter((id) => id >= from && (until === undefined || id < until)).sort()[0];
+}